@@ -7,15 +7,20 @@ import {
   BarChart3,
   FileText,
   Settings,
-  Bell,
   Search,
   TrendingUp,
   TrendingDown,
   DollarSign,
 } from "lucide-react"
 import { AdminProtectedRoute } from "@/components/admin/protected-route"
+import NotificationBell from "@/components/notifications/notification-bell"
+
+const DASHBOARD_TABS = ["overview", "users", "deals", "reports"]
+
+// `tab` picks the open tab, so links such as review notifications can land on the deals tab
+export default async function AdminDashboard({ searchParams }: { searchParams: Promise<{ tab?: string }> }) {
+  const { tab } = await searchParams
 
-export default function AdminDashboard() {
   return (
     <AdminProtectedRoute>
       <div className="flex min-h-screen bg-gray-50">
@@ -92,10 +97,7 @@ export default function AdminDashboard() {
               </div>
             </div>
             <div className="flex items-center gap-4">
-              <Button variant="outline" size="icon">
-                <Bell className="h-5 w-5" />
-                <span className="sr-only">Notifications</span>
-              </Button>
+              <NotificationBell />
               <span className="h-8 w-8 rounded-full bg-blue-600 text-white grid place-items-center font-medium">A</span>
             </div>
           </header>
@@ -183,7 +185,7 @@ export default function AdminDashboard() {
             </div>
 
             {/* Tabs Section */}
-            <Tabs defaultValue="overview" className="mb-8">
+            <Tabs defaultValue={tab && DASHBOARD_TABS.includes(tab) ? tab : "overview"} className="mb-8">
               <TabsList className="mb-4">
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="users">Users</TabsTrigger>
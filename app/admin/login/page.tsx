@@ -13,6 +13,7 @@ import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { toast } from "@/components/ui/use-toast"
 import { Toaster } from "@/components/ui/toaster"
+import { adminLogin } from "@/services/api"
 
 export default function AdminLogin() {
   const [email, setEmail] = useState("")
@@ -26,17 +27,9 @@ export default function AdminLogin() {
     setIsLoading(true)
 
     try {
-      // This is a simplified admin login for demonstration
-      // In a real app, you would validate credentials against your backend
-      console.log("Admin login attempt:", { email, password, rememberMe })
-
-      // For demo purposes, we'll simulate a successful login
-      // In production, replace with actual API call
       if (email && password) {
-        // Store authentication data
-        localStorage.setItem("token", "admin-demo-token")
-        localStorage.setItem("userId", "admin-user-id")
-        localStorage.setItem("userRole", "admin")
+        // Stores the API token, so admin pages and the notification bell call the API as this admin
+        await adminLogin({ email, password })
 
         // Show success message
         toast({
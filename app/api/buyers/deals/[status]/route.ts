@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withBuyerDocuments } from "@/lib/deal-documents"
+
+const BUYER_DEAL_LISTS = ["pending", "active", "rejected"]
+
+// The buyer's pending, active or passed deals, with each deal's documents cut down to the ones the buyer is
+// entitled to. The API lists every document, so buyers load their deals through here rather than directly.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ status: string }> }) {
+  try {
+    const { status } = await params
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    if (!BUYER_DEAL_LISTS.includes(status)) {
+      return NextResponse.json({ error: "Unknown deal list" }, { status: 404 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const authHeaders = { Authorization: `Bearer ${token}` }
+
+    const [buyerResponse, dealsResponse] = await Promise.all([
+      fetch(`${apiUrl}/buyers/profile`, { headers: authHeaders }),
+      fetch(`${apiUrl}/buyers/deals/${status}`, { headers: authHeaders }),
+    ])
+    const buyer = buyerResponse.ok ? await buyerResponse.json() : null
+    if (!buyer?._id) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    if (!dealsResponse.ok) {
+      return NextResponse.json({ error: `Failed to fetch ${status} deals` }, { status: dealsResponse.status })
+    }
+
+    const deals: any[] = await dealsResponse.json()
+    return NextResponse.json(deals.map((deal) => withBuyerDocuments(deal, buyer._id)))
+  } catch (error: any) {
+    console.error("Error fetching buyer deals:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
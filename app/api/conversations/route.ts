@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withSellerConversation } from "@/lib/messages"
+import type { Conversation } from "@/types/message"
+
+// Strip anonymous buyers' names from the conversations the caller sells in; buyers get theirs unchanged
+async function forCaller(apiUrl: string, token: string, conversations: Conversation[]) {
+  const sellerResponse = await fetch(`${apiUrl}/sellers/profile`, { headers: { Authorization: `Bearer ${token}` } })
+  const seller = sellerResponse.ok ? await sellerResponse.json() : null
+  return conversations.map((conversation) =>
+    seller?._id && conversation.sellerId === seller._id ? withSellerConversation(conversation) : conversation,
+  )
+}
+
+// The caller's conversations, as seller or buyer depending on the token
+export async function GET(request: NextRequest) {
+  try {
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+
+    const response = await fetch(`${apiUrl}/conversations`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      return NextResponse.json(
+        { error: errorData.message || "Failed to load conversations" },
+        { status: response.status },
+      )
+    }
+
+    return NextResponse.json(await forCaller(apiUrl, token, await response.json()))
+  } catch (error: any) {
+    console.error("Error loading conversations:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
+
+// Open the conversation about a deal, creating it on first use
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+
+    // Forward the request to the backend API
+    const response = await fetch(`${apiUrl}/conversations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      return NextResponse.json(
+        { error: errorData.message || "Failed to start conversation" },
+        { status: response.status },
+      )
+    }
+
+    const [conversation] = await forCaller(apiUrl, token, [await response.json()])
+    return NextResponse.json(conversation)
+  } catch (error: any) {
+    console.error("Error starting conversation:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { publishDealEvent } from "@/lib/deal-event-bus"
+
+// Close a deal, as completed or off market, and push the new status to everyone on the deal
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+    const body = await request.json()
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+
+    // Forward the request to the backend API
+    const response = await fetch(`${apiUrl}/deals/${dealId}/close`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      return NextResponse.json({ error: errorData.message || "Failed to close deal" }, { status: response.status })
+    }
+
+    const data = await response.json()
+
+    // The API answers with the closed deal; closing without a status on it means the deal completed
+    const at = new Date().toISOString()
+    const sellerId = typeof data.seller === "object" ? data.seller?._id : data.seller
+    const recipientIds = [sellerId, ...Object.keys(data.invitationStatus || {})].filter(Boolean)
+    publishDealEvent({ type: "status", dealId, status: data.status || "completed", at }, recipientIds)
+
+    return NextResponse.json(data)
+  } catch (error: any) {
+    console.error("Error closing deal:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
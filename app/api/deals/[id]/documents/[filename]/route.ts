@@ -0,0 +1,102 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { canBuyerAccessDocument, getBuyerDealStatus } from "@/lib/deal-documents"
+import { watermarkPdf } from "@/lib/pdf-watermark"
+import type { DealDocument } from "@/types/deal"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; filename: string }> },
+) {
+  try {
+    const { id: dealId, filename } = await params
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const authHeaders = { Authorization: `Bearer ${token}` }
+
+    // Load the deal with the caller's token, so an invalid token never reaches the file
+    const dealResponse = await fetch(`${apiUrl}/deals/${dealId}`, { headers: authHeaders })
+    if (!dealResponse.ok) {
+      return NextResponse.json({ error: "Deal not found" }, { status: dealResponse.status === 401 ? 401 : 404 })
+    }
+    const deal = await dealResponse.json()
+
+    const doc: DealDocument | undefined = deal.documents?.find((item: DealDocument) => item.filename === filename)
+    if (!doc) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 })
+    }
+
+    // The deal's own seller can always download; anyone else must be a buyer entitled to this document
+    const sellerResponse = await fetch(`${apiUrl}/sellers/profile`, { headers: authHeaders })
+    const seller = sellerResponse.ok ? await sellerResponse.json() : null
+    const dealSellerId = typeof deal.seller === "object" ? deal.seller?._id : deal.seller
+    const isDealSeller = !!seller?._id && seller._id === dealSellerId
+
+    let buyer: { _id: string; companyName?: string; email?: string } | null = null
+    if (!isDealSeller) {
+      const buyerResponse = await fetch(`${apiUrl}/buyers/profile`, { headers: authHeaders })
+      if (!buyerResponse.ok) {
+        return NextResponse.json({ error: "Access denied" }, { status: 403 })
+      }
+      buyer = await buyerResponse.json()
+      if (!buyer?._id) {
+        return NextResponse.json({ error: "Access denied" }, { status: 403 })
+      }
+      const status = getBuyerDealStatus(deal.invitationStatus, buyer._id)
+
+      if (!canBuyerAccessDocument(doc, buyer._id, status)) {
+        return NextResponse.json({ error: "You don't have access to this document" }, { status: 403 })
+      }
+
+      // Record the download for the seller's engagement timeline without holding up the file
+      fetch(`${apiUrl}/deal-tracking/download/${dealId}`, {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ notes: doc.originalName, metadata: { filename: doc.originalName } }),
+      }).catch((error) => console.error("Error tracking document download:", error))
+    }
+
+    // The file comes from the API's authenticated document endpoint; the public /uploads path is not used, so knowing
+    // a filename is not enough to fetch a file. The seller fetches their own file with their token, while buyers'
+    // files are fetched with the service token once the checks above passed.
+    const fileToken = isDealSeller ? token : process.env.API_SERVICE_TOKEN
+    if (!fileToken) {
+      return NextResponse.json({ error: "Document downloads are not configured" }, { status: 503 })
+    }
+    const fileResponse = await fetch(`${apiUrl}/deals/${dealId}/documents/${encodeURIComponent(doc.filename)}`, {
+      headers: { Authorization: `Bearer ${fileToken}` },
+    })
+    if (!fileResponse.ok || !fileResponse.body) {
+      return NextResponse.json({ error: "Failed to load document" }, { status: 502 })
+    }
+
+    const headers = {
+      "Content-Type": doc.mimetype || fileResponse.headers.get("Content-Type") || "application/octet-stream",
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(doc.originalName || doc.filename)}`,
+      "Cache-Control": "private, no-store",
+    }
+
+    // Buyers get PDFs stamped with their identity when the seller turned watermarking on
+    if (buyer && doc.watermark && doc.mimetype === "application/pdf") {
+      const stamped = await watermarkPdf(await fileResponse.arrayBuffer(), {
+        companyName: buyer.companyName || "",
+        email: buyer.email || "",
+        downloadedAt: new Date(),
+      })
+      return new NextResponse(stamped, { headers })
+    }
+
+    // Stream the file straight through without buffering it in memory
+    return new NextResponse(fileResponse.body, { headers })
+  } catch (error: any) {
+    console.error("Error downloading document:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { sendDueWaves } from "@/lib/invitation-wave-dispatch"
+
+// Send every invitation wave of a deal whose trigger has been met. The wave planner calls this after saving so a
+// wave released by hand goes out without waiting for the next scheduled run of /api/invitation-waves.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const headers = { "Content-Type": "application/json", Authorization: `Bearer ${token}` }
+
+    const result = await sendDueWaves(apiUrl, headers, dealId)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error("Error sending invitation waves:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
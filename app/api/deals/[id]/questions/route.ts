@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withBuyerQuestions } from "@/lib/deal-questions"
+
+// Load a deal's Q&A as the caller may see it: the deal's seller gets every question, a buyer only their own
+// questions and the answers the seller published to everyone, so private answers never reach other buyers
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const authHeaders = { Authorization: `Bearer ${token}` }
+
+    const questionsResponse = await fetch(`${apiUrl}/deals/${dealId}/questions`, { headers: authHeaders })
+    if (!questionsResponse.ok) {
+      const errorData = await questionsResponse.json().catch(() => ({}))
+      return NextResponse.json(
+        { error: errorData.message || "Failed to load questions" },
+        { status: questionsResponse.status },
+      )
+    }
+    const questions = await questionsResponse.json()
+
+    const [dealResponse, sellerResponse] = await Promise.all([
+      fetch(`${apiUrl}/deals/${dealId}`, { headers: authHeaders }),
+      fetch(`${apiUrl}/sellers/profile`, { headers: authHeaders }),
+    ])
+    const deal = dealResponse.ok ? await dealResponse.json() : null
+    const seller = sellerResponse.ok ? await sellerResponse.json() : null
+    const dealSellerId = typeof deal?.seller === "object" ? deal.seller?._id : deal?.seller
+    if (seller?._id && seller._id === dealSellerId) {
+      return NextResponse.json(questions)
+    }
+
+    const buyerResponse = await fetch(`${apiUrl}/buyers/profile`, { headers: authHeaders })
+    const buyer = buyerResponse.ok ? await buyerResponse.json() : null
+    if (!buyer?._id) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 })
+    }
+
+    return NextResponse.json(withBuyerQuestions(questions, buyer._id))
+  } catch (error: any) {
+    console.error("Error loading questions:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { publishDealEvent } from "@/lib/deal-event-bus"
+
+// Backend endpoint behind each way a buyer can respond to a deal
+const RESPONSE_ENDPOINTS: Record<string, (dealId: string) => string> = {
+  activate: (dealId) => `/buyers/deals/${dealId}/activate`,
+  reject: (dealId) => `/buyers/deals/${dealId}/reject`,
+  "set-pending": (dealId) => `/buyers/deals/${dealId}/set-pending`,
+  // The /deals page records responses through deal tracking
+  interest: (dealId) => `/deal-tracking/interest/${dealId}`,
+  pass: (dealId) => `/deal-tracking/reject/${dealId}`,
+}
+
+// Record a buyer's response to a deal and push it to the seller and the buyer's other open pages
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+    const { action, notes } = await request.json()
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    if (!RESPONSE_ENDPOINTS[action]) {
+      return NextResponse.json({ error: `Invalid action: ${action}` }, { status: 400 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const headers = { "Content-Type": "application/json", Authorization: `Bearer ${token}` }
+
+    // Forward the request to the backend API
+    const response = await fetch(`${apiUrl}${RESPONSE_ENDPOINTS[action](dealId)}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ notes }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      return NextResponse.json(
+        { error: errorData.message || "Failed to update deal status" },
+        { status: response.status },
+      )
+    }
+
+    const data = await response.json().catch(() => ({}))
+
+    // Read the response back off the deal, since the endpoints differ in what they store
+    const [buyerResponse, dealResponse] = await Promise.all([
+      fetch(`${apiUrl}/buyers/profile`, { headers }),
+      fetch(`${apiUrl}/deals/${dealId}`, { headers }),
+    ])
+    const buyer = buyerResponse.ok ? await buyerResponse.json() : null
+    const deal = dealResponse.ok ? await dealResponse.json() : null
+    const invitation = buyer?._id ? deal?.invitationStatus?.[buyer._id] : null
+    if (invitation) {
+      const sellerId = typeof deal.seller === "object" ? deal.seller?._id : deal.seller
+      publishDealEvent(
+        {
+          type: "response",
+          dealId,
+          buyerId: buyer._id,
+          response: invitation.response || "pending",
+          at: invitation.respondedAt || new Date().toISOString(),
+        },
+        [sellerId, buyer._id].filter(Boolean),
+      )
+    }
+
+    return NextResponse.json(data)
+  } catch (error: any) {
+    console.error("Error updating deal status:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withBuyerDocuments } from "@/lib/deal-documents"
+import { publishDealEvent } from "@/lib/deal-event-bus"
+
+// Load one deal as the caller may see it: the deal's seller gets it whole, a buyer only gets the documents they are
+// entitled to
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const authHeaders = { Authorization: `Bearer ${token}` }
+
+    const dealResponse = await fetch(`${apiUrl}/deals/${dealId}`, { headers: authHeaders })
+    if (!dealResponse.ok) {
+      return NextResponse.json({ error: "Deal not found" }, { status: dealResponse.status === 401 ? 401 : 404 })
+    }
+    const deal = await dealResponse.json()
+
+    const sellerResponse = await fetch(`${apiUrl}/sellers/profile`, { headers: authHeaders })
+    const seller = sellerResponse.ok ? await sellerResponse.json() : null
+    const dealSellerId = typeof deal.seller === "object" ? deal.seller?._id : deal.seller
+    if (seller?._id && seller._id === dealSellerId) {
+      return NextResponse.json(deal)
+    }
+
+    const buyerResponse = await fetch(`${apiUrl}/buyers/profile`, { headers: authHeaders })
+    const buyer = buyerResponse.ok ? await buyerResponse.json() : null
+    if (!buyer?._id) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 })
+    }
+
+    return NextResponse.json(withBuyerDocuments(deal, buyer._id))
+  } catch (error: any) {
+    console.error("Error loading deal:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+    const body = await request.json()
+
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+
+    // Forward the request to the backend API
+    const response = await fetch(`${apiUrl}/deals/${dealId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      return NextResponse.json({ error: errorData.message || "Failed to update deal" }, { status: response.status })
+    }
+
+    const data = await response.json()
+
+    // Push status changes and seller edits to everyone on the deal
+    const at = new Date().toISOString()
+    const invitedBuyerIds = Object.keys(data.invitationStatus || {})
+    const sellerId = typeof data.seller === "object" ? data.seller?._id : data.seller
+    if (body.status) {
+      const recipientIds = [sellerId, ...invitedBuyerIds].filter(Boolean)
+      publishDealEvent({ type: "status", dealId, status: body.status, at }, recipientIds)
+    } else if (body.lastEditedFields) {
+      publishDealEvent({ type: "updated", dealId, at }, invitedBuyerIds)
+    }
+
+    return NextResponse.json(data)
+  } catch (error: any) {
+    console.error("Error updating deal:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
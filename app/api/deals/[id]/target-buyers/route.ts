@@ -1,8 +1,10 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { publishDealEvent } from "@/lib/deal-event-bus"
 
-export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+// Invite buyers to a deal and push the invitations to the buyers and the seller
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const dealId = params.id
+    const { id: dealId } = await params
     const body = await request.json()
 
     // Get the token from the request headers
@@ -16,8 +18,8 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
 
     // Forward the request to the backend API
-    const response = await fetch(`${apiUrl}/deals/${dealId}`, {
-      method: "PATCH",
+    const response = await fetch(`${apiUrl}/deals/${dealId}/target-buyers`, {
+      method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${token}`,
@@ -26,14 +28,22 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     })
 
     if (!response.ok) {
-      const errorData = await response.json()
-      return NextResponse.json({ error: errorData.message || "Failed to update deal" }, { status: response.status })
+      const errorData = await response.json().catch(() => ({}))
+      return NextResponse.json({ error: errorData.message || "Failed to send invites" }, { status: response.status })
     }
 
     const data = await response.json()
+
+    const at = new Date().toISOString()
+    const sellerId = typeof data.seller === "object" ? data.seller?._id : data.seller
+    const buyerIds: string[] = Array.isArray(body.buyerIds) ? body.buyerIds : []
+    buyerIds.forEach((buyerId) =>
+      publishDealEvent({ type: "invitation", dealId, buyerId, at }, [buyerId, sellerId].filter(Boolean)),
+    )
+
     return NextResponse.json(data)
   } catch (error: any) {
-    console.error("Error updating deal:", error)
+    console.error("Error sending invites:", error)
     return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
   }
 }
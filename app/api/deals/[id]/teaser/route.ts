@@ -0,0 +1,112 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getTeaserFilename } from "@/lib/deal-documents"
+import { buildTeaserPdf } from "@/lib/teaser-pdf"
+import type { DealDocument } from "@/types/deal"
+
+// Load the deal and confirm the caller is its seller; the teaser is generated from the seller's own data
+async function loadSellerDeal(request: NextRequest, dealId: string) {
+  // Get the token from the request headers
+  const token = request.headers.get("Authorization")?.split(" ")[1]
+
+  if (!token) {
+    return { error: NextResponse.json({ error: "Authentication required" }, { status: 401 }) }
+  }
+
+  // Get the API URL from environment or use default
+  const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+  const authHeaders = { Authorization: `Bearer ${token}` }
+
+  const dealResponse = await fetch(`${apiUrl}/deals/${dealId}`, { headers: authHeaders })
+  if (!dealResponse.ok) {
+    return {
+      error: NextResponse.json({ error: "Deal not found" }, { status: dealResponse.status === 401 ? 401 : 404 }),
+    }
+  }
+  const deal = await dealResponse.json()
+
+  const sellerResponse = await fetch(`${apiUrl}/sellers/profile`, { headers: authHeaders })
+  const seller = sellerResponse.ok ? await sellerResponse.json() : null
+  const dealSellerId = typeof deal.seller === "object" ? deal.seller?._id : deal.seller
+  if (!seller?._id || seller._id !== dealSellerId) {
+    return { error: NextResponse.json({ error: "Only the deal's seller can generate its teaser" }, { status: 403 }) }
+  }
+
+  return { apiUrl, authHeaders, deal, seller }
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+    const result = await loadSellerDeal(request, dealId)
+    if ("error" in result) return result.error
+
+    const pdf = await buildTeaserPdf(result.deal, result.seller)
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getTeaserFilename(dealId)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error: any) {
+    console.error("Error generating teaser:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
+
+// Generate the teaser and store it on the deal as a document every invited buyer can see
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: dealId } = await params
+    const result = await loadSellerDeal(request, dealId)
+    if ("error" in result) return result.error
+    const { apiUrl, authHeaders, deal, seller } = result
+
+    const pdf = await buildTeaserPdf(deal, seller)
+    const formData = new FormData()
+    formData.append("files", new Blob([pdf], { type: "application/pdf" }), getTeaserFilename(dealId))
+
+    const uploadResponse = await fetch(`${apiUrl}/deals/${dealId}/upload-documents`, {
+      method: "POST",
+      headers: authHeaders,
+      body: formData,
+    })
+    if (!uploadResponse.ok) {
+      const errorData = await uploadResponse.json().catch(() => ({}))
+      return NextResponse.json(
+        { error: errorData.message || "Failed to upload teaser" },
+        { status: uploadResponse.status },
+      )
+    }
+
+    const uploadedResponse = await fetch(`${apiUrl}/deals/${dealId}`, { headers: authHeaders })
+    if (!uploadedResponse.ok) {
+      return NextResponse.json({ error: "Failed to load the uploaded teaser" }, { status: 502 })
+    }
+    const uploaded = await uploadedResponse.json()
+
+    // The upload endpoint stores new files with the default tier, so find the one just added and open it up
+    const previous = new Set((deal.documents || []).map((doc: DealDocument) => doc.filename))
+    const documents: DealDocument[] = (uploaded.documents || []).map((doc: DealDocument) =>
+      previous.has(doc.filename) ? doc : { ...doc, accessTier: "teaser" },
+    )
+
+    const patchResponse = await fetch(`${apiUrl}/deals/${dealId}`, {
+      method: "PATCH",
+      headers: { ...authHeaders, "Content-Type": "application/json" },
+      body: JSON.stringify({ documents }),
+    })
+    if (!patchResponse.ok) {
+      const errorData = await patchResponse.json().catch(() => ({}))
+      return NextResponse.json(
+        { error: errorData.message || "Failed to update teaser access" },
+        { status: patchResponse.status },
+      )
+    }
+
+    return NextResponse.json(await patchResponse.json())
+  } catch (error: any) {
+    console.error("Error attaching teaser:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { BENCHMARK_CACHE_MS, buildSectorBenchmarks, type SectorBenchmark } from "@/lib/valuation"
+
+let cached: { benchmarks: SectorBenchmark[]; loadedAt: number } | null = null
+
+// Sellers and buyers can only list their own deals, so completed deals across the platform are read with the
+// API_SERVICE_TOKEN service token. Only the per-sector medians leave this route.
+async function loadBenchmarks(apiUrl: string) {
+  if (cached && Date.now() - cached.loadedAt < BENCHMARK_CACHE_MS) return { benchmarks: cached.benchmarks }
+
+  const serviceToken = process.env.API_SERVICE_TOKEN
+  if (!serviceToken) {
+    return { error: NextResponse.json({ error: "Valuation benchmarks are not configured" }, { status: 503 }) }
+  }
+
+  const response = await fetch(`${apiUrl}/admin/deals?status=completed`, {
+    headers: { Authorization: `Bearer ${serviceToken}` },
+  })
+  if (!response.ok) {
+    return { error: NextResponse.json({ error: "Failed to load completed deals" }, { status: 502 }) }
+  }
+
+  const benchmarks = buildSectorBenchmarks(await response.json())
+  cached = { benchmarks, loadedAt: Date.now() }
+  return { benchmarks }
+}
+
+// Median valuation multiples per industry sector, for any signed-in buyer or seller
+export async function GET(request: NextRequest) {
+  try {
+    // Get the token from the request headers
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+    const role = request.nextUrl.searchParams.get("role")
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    if (role !== "buyer" && role !== "seller") {
+      return NextResponse.json({ error: "Role must be buyer or seller" }, { status: 400 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+
+    const profileResponse = await fetch(`${apiUrl}/${role}s/profile`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    if (!profileResponse.ok) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    const result = await loadBenchmarks(apiUrl)
+    if ("error" in result) return result.error
+
+    return NextResponse.json(result.benchmarks)
+  } catch (error: any) {
+    console.error("Error loading valuation benchmarks:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,105 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { publishDealEvent, subscribeDealEvents } from "@/lib/deal-event-bus"
+import { isDealEvent } from "@/lib/deal-events"
+
+export const dynamic = "force-dynamic"
+
+// Comment line sent periodically so proxies don't close an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000
+
+// Server-sent events for one buyer or seller. EventSource can't send headers, so the token comes in the query string.
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token")
+    const role = request.nextUrl.searchParams.get("role")
+
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    if (role !== "buyer" && role !== "seller") {
+      return NextResponse.json({ error: "Role must be buyer or seller" }, { status: 400 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+
+    // Events are addressed by user ID, so resolve who the token belongs to
+    const profileResponse = await fetch(`${apiUrl}/${role}s/profile`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    const profile = profileResponse.ok ? await profileResponse.json() : null
+    if (!profile?._id) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        const unsubscribe = subscribeDealEvents(profile._id, (event) => send(`data: ${JSON.stringify(event)}\n\n`))
+        const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS)
+        cleanup = () => {
+          clearInterval(heartbeat)
+          unsubscribe()
+        }
+
+        request.signal.addEventListener("abort", () => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {}
+        })
+        send(": connected\n\n")
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    })
+  } catch (error: any) {
+    console.error("Error opening event stream:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
+
+// Publish an event to the open streams of the given users. The API calls this with DEAL_EVENTS_SECRET; without a
+// secret, development servers accept any caller so a local stand-in can drive the pages, e.g.
+//   curl -X POST localhost:3000/api/events -H "Content-Type: application/json" \
+//     -d '{"event":{"type":"status","dealId":"...","status":"off-market","at":"..."},"recipientIds":["..."]}'
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.DEAL_EVENTS_SECRET
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (secret ? token !== secret : process.env.NODE_ENV === "production") {
+      return NextResponse.json({ error: "Not allowed to publish events" }, { status: 403 })
+    }
+
+    const { event, recipientIds } = await request.json()
+    if (!isDealEvent(event) || !Array.isArray(recipientIds)) {
+      return NextResponse.json({ error: "Expected an event and recipientIds" }, { status: 400 })
+    }
+
+    publishDealEvent(event, recipientIds)
+    return NextResponse.json({ delivered: true })
+  } catch (error: any) {
+    console.error("Error publishing event:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
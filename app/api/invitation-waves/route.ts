@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { sendDueWaves } from "@/lib/invitation-wave-dispatch"
+import { hasScheduledWaves } from "@/lib/invitation-waves"
+
+// Send the due invitation waves of every active deal. A cron job calls this with INVITATION_WAVES_SECRET, e.g.
+//   curl -X POST https://app.cimamplify.com/api/invitation-waves -H "Authorization: Bearer $INVITATION_WAVES_SECRET"
+// Deals are listed and invitations sent with the API_SERVICE_TOKEN service token, since no seller is signed in.
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.INVITATION_WAVES_SECRET
+    const serviceToken = process.env.API_SERVICE_TOKEN
+    const token = request.headers.get("Authorization")?.split(" ")[1]
+
+    if (!secret || token !== secret) {
+      return NextResponse.json({ error: "Not allowed to send invitation waves" }, { status: 403 })
+    }
+    if (!serviceToken) {
+      return NextResponse.json({ error: "Scheduled invitation waves are not configured" }, { status: 503 })
+    }
+
+    // Get the API URL from environment or use default
+    const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+    const headers = { "Content-Type": "application/json", Authorization: `Bearer ${serviceToken}` }
+
+    const dealsResponse = await fetch(`${apiUrl}/admin/deals?status=active`, { headers })
+    if (!dealsResponse.ok) {
+      return NextResponse.json({ error: "Failed to load active deals" }, { status: 502 })
+    }
+    const deals: any[] = await dealsResponse.json()
+
+    // One deal failing doesn't hold up the rest; its waves are retried on the next run
+    const results: { dealId: string; sentWaves?: number[]; error?: string }[] = []
+    for (const deal of deals.filter((deal) => hasScheduledWaves(deal.invitationWaves))) {
+      const result = await sendDueWaves(apiUrl, headers, deal._id)
+      if ("error" in result) {
+        console.error(`Error sending invitation waves for deal ${deal._id}:`, result.error)
+        results.push({ dealId: deal._id, error: result.error })
+      } else if (result.sentWaves.length > 0) {
+        results.push({ dealId: deal._id, sentWaves: result.sentWaves })
+      }
+    }
+
+    return NextResponse.json({ results })
+  } catch (error: any) {
+    console.error("Error sending scheduled invitation waves:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
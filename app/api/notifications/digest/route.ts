@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getMailer } from "@/lib/mailer"
+import { renderDigest } from "@/lib/notification-digest"
+import { getNotificationPreferences } from "@/lib/notifications"
+
+// Render the caller's digest from their notifications and saved preferences
+async function loadDigest(request: NextRequest) {
+  // Get the token from the request headers
+  const token = request.headers.get("Authorization")?.split(" ")[1]
+  const role = request.nextUrl.searchParams.get("role")
+
+  if (!token) {
+    return { error: NextResponse.json({ error: "Authentication required" }, { status: 401 }) }
+  }
+  if (role !== "buyer" && role !== "seller") {
+    return { error: NextResponse.json({ error: "Role must be buyer or seller" }, { status: 400 }) }
+  }
+
+  // Get the API URL from environment or use default
+  const apiUrl = process.env.API_URL || "https://api.cimamplify.com"
+  const authHeaders = { Authorization: `Bearer ${token}` }
+
+  const [profileResponse, notificationsResponse, preferencesResponse] = await Promise.all([
+    fetch(`${apiUrl}/${role}s/profile`, { headers: authHeaders }),
+    fetch(`${apiUrl}/notifications`, { headers: authHeaders }),
+    fetch(`${apiUrl}/notifications/preferences`, { headers: authHeaders }),
+  ])
+
+  const profile = profileResponse.ok ? await profileResponse.json() : null
+  if (!profile?._id) {
+    return { error: NextResponse.json({ error: "Authentication required" }, { status: 401 }) }
+  }
+  if (!notificationsResponse.ok) {
+    return { error: NextResponse.json({ error: "Failed to load notifications" }, { status: 502 }) }
+  }
+
+  const digest = renderDigest({
+    role,
+    recipientName: profile.fullName,
+    notifications: await notificationsResponse.json(),
+    preferences: getNotificationPreferences(role, preferencesResponse.ok ? await preferencesResponse.json() : null),
+    appUrl: process.env.APP_URL || request.nextUrl.origin,
+  })
+
+  return { digest, profile }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const result = await loadDigest(request)
+    if ("error" in result) return result.error
+
+    return NextResponse.json(result.digest)
+  } catch (error: any) {
+    console.error("Error rendering digest:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
+
+// Email the digest to the caller through the configured mailer
+export async function POST(request: NextRequest) {
+  try {
+    const result = await loadDigest(request)
+    if ("error" in result) return result.error
+
+    const { digest, profile } = result
+    if (!profile.email) {
+      return NextResponse.json({ error: "Your profile has no email address" }, { status: 400 })
+    }
+
+    await getMailer().send({ to: profile.email, subject: digest.subject, text: digest.text, html: digest.html })
+    return NextResponse.json({ sent: true, to: profile.email, count: digest.count })
+  } catch (error: any) {
+    console.error("Error sending digest:", error)
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 })
+  }
+}
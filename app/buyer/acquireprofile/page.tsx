@@ -17,6 +17,7 @@ import { PlusCircle, Trash2, Search, AlertCircle, CheckCircle2, ChevronDown, Che
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { toast } from "@/components/ui/use-toast"
 
+import { CURRENCY_CODES, getCurrencySymbol } from "@/lib/currency"
 import { getGeoData, type GeoData, type Continent, type Region, type SubRegion } from "@/lib/geography-data"
 import { getIndustryData, type IndustryData, type Sector, type IndustryGroup, type Industry } from "@/lib/industry-data"
 
@@ -104,8 +105,6 @@ export default function AcquireProfilePage() {
   const [industrySearchTerm, setIndustrySearchTerm] = useState("")
 
   // Available currencies
-  const CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD"]
-
   // Extended form state for fields not in the CompanyProfile type
   const [extendedFormState, setExtendedFormState] = useState<ExtendedFormState>({
     selectedManagementPreferences: [],
@@ -1909,7 +1908,7 @@ export default function AcquireProfilePage() {
                       <SelectValue placeholder="Currency" />
                     </SelectTrigger>
                     <SelectContent>
-                      {CURRENCIES.map((currency) => (
+                      {CURRENCY_CODES.map((currency) => (
                         <SelectItem key={currency} value={currency}>
                           {currency}
                         </SelectItem>
@@ -1924,19 +1923,13 @@ export default function AcquireProfilePage() {
                     </Label>
                     <div className="relative flex-1">
                       <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                        {formData.selectedCurrency === "USD"
-                          ? "$"
-                          : formData.selectedCurrency === "EUR"
-                            ? "€"
-                            : formData.selectedCurrency === "GBP"
-                              ? "£"
-                              : formData.selectedCurrency}
+                        {getCurrencySymbol(formData.selectedCurrency)}
                       </div>
                       <Input
                         id="revenueMin"
                         type="text"
                         className={`border-[#d0d5dd] ${
-                          formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                          getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                         } ${fieldErrors["targetCriteria.revenueMin"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                         value={formatNumberWithCommas(formData.targetCriteria.revenueMin)}
                         onChange={(e) => {
@@ -1957,19 +1950,13 @@ export default function AcquireProfilePage() {
                     </Label>
                     <div className="relative flex-1">
                       <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                        {formData.selectedCurrency === "USD"
-                          ? "$"
-                          : formData.selectedCurrency === "EUR"
-                            ? "€"
-                            : formData.selectedCurrency === "GBP"
-                              ? "£"
-                              : formData.selectedCurrency}
+                        {getCurrencySymbol(formData.selectedCurrency)}
                       </div>
                       <Input
                         id="revenueMax"
                         type="text"
                         className={`border-[#d0d5dd] ${
-                          formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                          getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                         } ${fieldErrors["targetCriteria.revenueMax"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                         value={formatNumberWithCommas(formData.targetCriteria.revenueMax)}
                         onChange={(e) => {
@@ -2003,19 +1990,13 @@ export default function AcquireProfilePage() {
                     </Label>
                     <div className="relative flex-1">
                       <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                        {formData.selectedCurrency === "USD"
-                          ? "$"
-                          : formData.selectedCurrency === "EUR"
-                            ? "€"
-                            : formData.selectedCurrency === "GBP"
-                              ? "£"
-                              : formData.selectedCurrency}
+                        {getCurrencySymbol(formData.selectedCurrency)}
                       </div>
                       <Input
                         id="ebitdaMin"
                         type="text"
                         className={`border-[#d0d5dd] ${
-                          formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                          getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                         } ${fieldErrors["targetCriteria.ebitdaMin"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                         value={formatNumberWithCommas(formData.targetCriteria.ebitdaMin)}
                         onChange={(e) => {
@@ -2036,19 +2017,13 @@ export default function AcquireProfilePage() {
                     </Label>
                     <div className="relative flex-1">
                       <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                        {formData.selectedCurrency === "USD"
-                          ? "$"
-                          : formData.selectedCurrency === "EUR"
-                            ? "€"
-                            : formData.selectedCurrency === "GBP"
-                              ? "£"
-                              : formData.selectedCurrency}
+                        {getCurrencySymbol(formData.selectedCurrency)}
                       </div>
                       <Input
                         id="ebitdaMax"
                         type="text"
                         className={`border-[#d0d5dd] ${
-                          formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                          getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                         } ${fieldErrors["targetCriteria.ebitdaMax"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                         value={formatNumberWithCommas(formData.targetCriteria.ebitdaMax)}
                         onChange={(e) => {
@@ -2080,19 +2055,13 @@ export default function AcquireProfilePage() {
                     </Label>
                     <div className="relative flex-1">
                       <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                        {formData.selectedCurrency === "USD"
-                          ? "$"
-                          : formData.selectedCurrency === "EUR"
-                            ? "€"
-                            : formData.selectedCurrency === "GBP"
-                              ? "£"
-                              : formData.selectedCurrency}
+                        {getCurrencySymbol(formData.selectedCurrency)}
                       </div>
                       <Input
                         id="transactionSizeMin"
                         type="text"
                         className={`border-[#d0d5dd] ${
-                          formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                          getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                         } ${fieldErrors["targetCriteria.transactionSizeMin"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                         value={formatNumberWithCommas(formData.targetCriteria.transactionSizeMin)}
                         onChange={(e) => {
@@ -2117,19 +2086,13 @@ export default function AcquireProfilePage() {
                     </Label>
                     <div className="relative flex-1">
                       <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                        {formData.selectedCurrency === "USD"
-                          ? "$"
-                          : formData.selectedCurrency === "EUR"
-                            ? "€"
-                            : formData.selectedCurrency === "GBP"
-                              ? "£"
-                              : formData.selectedCurrency}
+                        {getCurrencySymbol(formData.selectedCurrency)}
                       </div>
                       <Input
                         id="transactionSizeMax"
                         type="text"
                         className={`border-[#d0d5dd] ${
-                          formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                          getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                         } ${fieldErrors["targetCriteria.transactionSizeMax"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                         value={formatNumberWithCommas(formData.targetCriteria.transactionSizeMax)}
                         onChange={(e) => {
@@ -26,6 +26,7 @@ import {
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { toast } from "@/components/ui/use-toast"
 
+import { CURRENCY_CODES, getCurrencySymbol } from "@/lib/currency"
 import { getGeoData, type GeoData, type Continent, type Region, type SubRegion } from "@/lib/geography-data"
 import { getIndustryData, type IndustryData, type Sector, type IndustryGroup, type Industry } from "@/lib/industry-data"
 
@@ -122,8 +123,6 @@ export default function CompanyProfilePage() {
   const [industrySearchTerm, setIndustrySearchTerm] = useState("")
 
   // Available currencies
-  const CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD"]
-
   // Extended form state for fields not in the CompanyProfile type
   const [extendedFormState, setExtendedFormState] = useState<ExtendedFormState>({
     selectedManagementPreferences: [],
@@ -1904,7 +1903,7 @@ export default function CompanyProfilePage() {
                           <SelectValue placeholder="Currency" />
                         </SelectTrigger>
                         <SelectContent>
-                          {CURRENCIES.map((currency) => (
+                          {CURRENCY_CODES.map((currency) => (
                             <SelectItem key={currency} value={currency}>
                               {currency}
                             </SelectItem>
@@ -1919,19 +1918,13 @@ export default function CompanyProfilePage() {
                         </Label>
                         <div className="relative flex-1">
                           <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                            {formData.selectedCurrency === "USD"
-                              ? "$"
-                              : formData.selectedCurrency === "EUR"
-                                ? "€"
-                                : formData.selectedCurrency === "GBP"
-                                  ? "£"
-                                  : formData.selectedCurrency}
+                            {getCurrencySymbol(formData.selectedCurrency)}
                           </div>
                           <Input
                             id="revenueMin"
                             type="text"
                             className={`border-[#d0d5dd] ${
-                              formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                              getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                             } ${fieldErrors["targetCriteria.revenueMin"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                             value={formatNumberWithCommas(formData.targetCriteria.revenueMin)}
                             onChange={(e) => {
@@ -1952,19 +1945,13 @@ export default function CompanyProfilePage() {
                         </Label>
                         <div className="relative flex-1">
                           <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                            {formData.selectedCurrency === "USD"
-                              ? "$"
-                              : formData.selectedCurrency === "EUR"
-                                ? "€"
-                                : formData.selectedCurrency === "GBP"
-                                  ? "£"
-                                  : formData.selectedCurrency}
+                            {getCurrencySymbol(formData.selectedCurrency)}
                           </div>
                           <Input
                             id="revenueMax"
                             type="text"
                             className={`border-[#d0d5dd] ${
-                              formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                              getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                             } ${fieldErrors["targetCriteria.revenueMax"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                             value={formatNumberWithCommas(formData.targetCriteria.revenueMax)}
                             onChange={(e) => {
@@ -1993,19 +1980,13 @@ export default function CompanyProfilePage() {
                         </Label>
                         <div className="relative flex-1">
                           <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                            {formData.selectedCurrency === "USD"
-                              ? "$"
-                              : formData.selectedCurrency === "EUR"
-                                ? "€"
-                                : formData.selectedCurrency === "GBP"
-                                  ? "£"
-                                  : formData.selectedCurrency}
+                            {getCurrencySymbol(formData.selectedCurrency)}
                           </div>
                           <Input
                             id="ebitdaMin"
                             type="text"
                             className={`border-[#d0d5dd] ${
-                              formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                              getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                             } ${fieldErrors["targetCriteria.ebitdaMin"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                             value={formatNumberWithCommas(formData.targetCriteria.ebitdaMin)}
                             onChange={(e) => {
@@ -2026,18 +2007,12 @@ export default function CompanyProfilePage() {
                         </Label>
                         <div className="relative flex-1">
                           <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                            {formData.selectedCurrency === "USD"
-                              ? "$"
-                              : formData.selectedCurrency === "EUR"
-                                ? "€"
-                                : formData.selectedCurrency === "GBP"
-                                  ? "£"
-                                  : formData.selectedCurrency}
+                            {getCurrencySymbol(formData.selectedCurrency)}
                           </div>
                           <Input
                             id="ebitdaMax"
                             type="text"
-                            className={`border-[#d0d5dd] ${formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"}`}
+                            className={`border-[#d0d5dd] ${getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"}`}
                             value={formatNumberWithCommas(formData.targetCriteria.ebitdaMax)}
                             onChange={(e) => {
                               const value = e.target.value.replace(/,/g, "")
@@ -2060,19 +2035,13 @@ export default function CompanyProfilePage() {
                         </Label>
                         <div className="relative flex-1">
                           <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                            {formData.selectedCurrency === "USD"
-                              ? "$"
-                              : formData.selectedCurrency === "EUR"
-                                ? "€"
-                                : formData.selectedCurrency === "GBP"
-                                  ? "£"
-                                  : formData.selectedCurrency}
+                            {getCurrencySymbol(formData.selectedCurrency)}
                           </div>
                           <Input
                             id="transactionSizeMin"
                             type="text"
                             className={`border-[#d0d5dd] ${
-                              formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"
+                              getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"
                             } ${fieldErrors["targetCriteria.transactionSizeMin"] ? "border-red-500 focus-visible:ring-red-500" : ""}`}
                             value={formatNumberWithCommas(formData.targetCriteria.transactionSizeMin)}
                             onChange={(e) => {
@@ -2099,18 +2068,12 @@ export default function CompanyProfilePage() {
                         </Label>
                         <div className="relative flex-1">
                           <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
-                            {formData.selectedCurrency === "USD"
-                              ? "$"
-                              : formData.selectedCurrency === "EUR"
-                                ? "€"
-                                : formData.selectedCurrency === "GBP"
-                                  ? "£"
-                                  : formData.selectedCurrency}
+                            {getCurrencySymbol(formData.selectedCurrency)}
                           </div>
                           <Input
                             id="transactionSizeMax"
                             type="text"
-                            className={`border-[#d0d5dd] ${formData.selectedCurrency.length > 2 ? "pl-12" : "pl-8"}`}
+                            className={`border-[#d0d5dd] ${getCurrencySymbol(formData.selectedCurrency).length > 1 ? "pl-12" : "pl-8"}`}
                             value={formatNumberWithCommas(formData.targetCriteria.transactionSizeMax)}
                             onChange={(e) => {
                               const value = e.target.value.replace(/,/g, "")
@@ -2236,6 +2199,13 @@ export default function CompanyProfilePage() {
                       Stop sending deals
                     </Label>
                   </div>
+                  <p className="text-sm text-gray-500">
+                    To keep receiving deals but hear about them less often, adjust your{" "}
+                    <Link href="/buyer/notifications" className="text-[#3aafa9] hover:underline">
+                      notification settings
+                    </Link>
+                    .
+                  </p>
 
                   <div className="flex items-end space-x-2">
                     <Checkbox
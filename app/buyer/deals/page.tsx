@@ -2,39 +2,34 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
-import { Search, Eye, LogOut, Briefcase, Bell } from "lucide-react"
+import { Search, Eye, LogOut, Briefcase, MessageSquare } from "lucide-react"
+import NotificationBell from "@/components/notifications/notification-bell"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import BuyerDealCard from "@/components/buyer/deal-card"
+import BuyerDealDetailsDialog from "@/components/buyer/deal-details-dialog"
+import BuyerDealQuestions from "@/components/buyer/deal-questions"
+import { Toaster } from "@/components/ui/toaster"
+import { getCriteriaMismatches, mapBuyerDeal, type BuyerDeal } from "@/lib/buyer-deals"
+import { parseCurrencyCode, type CurrencyCode } from "@/lib/currency"
+import type { TargetCriteria } from "@/types/company-profile"
+import { countUnreadAnswers } from "@/lib/deal-questions"
+import { getBuyerDealStatus } from "@/lib/deal-documents"
+import { downloadDealDocument, fetchDeal, fetchDealQuestions, trackDealInteraction } from "@/services/deal-api"
+import { startConversation } from "@/services/messages-api"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
+import { useDealEvents } from "@/hooks/use-deal-events"
+import { toast } from "@/components/ui/use-toast"
+import type { DealDocument, DealQuestion } from "@/types/deal"
 import Link from "next/link"
 
-interface Deal {
-  id: string
-  title: string
-  status: "active" | "pending" | "passed"
-  companyDescription: string
-  industry: string
-  geography: string
-  yearsInBusiness: number
-  trailingRevenue: number
-  trailingEbitda: number
-  averageGrowth: number
-  netIncome: number
-  askingPrice: number
-  businessModel: string
-  managementPreference: string
-  sellerPhone: string
-  sellerEmail: string
-  documents?: Document[]
-}
-
-interface Document {
-  id: string
-  name: string
-  url: string
-}
+// localStorage key holding the last deal edit each buyer has already seen, keyed by deal ID
+const SEEN_DEAL_UPDATES_KEY = "seenDealUpdates"
+// localStorage key holding when each buyer last read the seller's answers, keyed by deal ID
+const READ_DEAL_ANSWERS_KEY = "readDealAnswers"
 
 interface BuyerProfile {
   _id: string
@@ -54,16 +49,26 @@ export default function DealsPage() {
   const [authToken, setAuthToken] = useState<string | null>(null)
   const [buyerId, setBuyerId] = useState<string | null>(null)
   const [dealDetailsOpen, setDealDetailsOpen] = useState(false)
-  const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null)
+  const [selectedDeal, setSelectedDeal] = useState<BuyerDeal | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
   const [buyerProfile, setBuyerProfile] = useState<BuyerProfile | null>(null)
-  const [deals, setDeals] = useState<Deal[]>([])
+  const [deals, setDeals] = useState<BuyerDeal[]>([])
+  const [buyerCriteria, setBuyerCriteria] = useState<{
+    currency: CurrencyCode
+    targetCriteria?: TargetCriteria
+  } | null>(null)
   const [loading, setLoading] = useState(true)
   const [apiError, setApiError] = useState<string | null>(null)
   const [isInitialized, setIsInitialized] = useState(false)
+  const [seenDealUpdates, setSeenDealUpdates] = useState<Record<string, string>>({})
+  const [readDealAnswers, setReadDealAnswers] = useState<Record<string, string>>({})
+  const [questionsByDeal, setQuestionsByDeal] = useState<Record<string, DealQuestion[]>>({})
 
   const router = useRouter()
   const searchParams = useSearchParams()
+  const unreadMessages = useUnreadMessages()
+  // Deal opened from a notification link, so later refreshes don't open it again
+  const openedLinkedDeal = useRef<string | null>(null)
 
   // API functions
   const fetchDealsByStatus = async (status: "pending" | "active" | "passed") => {
@@ -77,23 +82,21 @@ export default function DealsPage() {
         return []
       }
 
-      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
-
-      // Map status to API endpoint
+      // Map status to the proxy route, which leaves out documents this buyer isn't entitled to
       let endpoint = ""
       switch (status) {
         case "pending":
-          endpoint = "/buyers/deals/pending"
+          endpoint = "/api/buyers/deals/pending"
           break
         case "active":
-          endpoint = "/buyers/deals/active"
+          endpoint = "/api/buyers/deals/active"
           break
         case "passed":
-          endpoint = "/buyers/deals/rejected"
+          endpoint = "/api/buyers/deals/rejected"
           break
       }
 
-      const url = `${apiUrl}${endpoint}`
+      const url = endpoint
 
       console.log(`Fetching ${status} deals from:`, url)
       console.log("Using token:", token.substring(0, 20) + "...")
@@ -118,28 +121,11 @@ export default function DealsPage() {
 
       const data = await response.json()
       console.log(`Raw API response for ${status}:`, data)
+      const currentBuyerId = localStorage.getItem("userId")
 
       // Map API response to component structure
       const mappedDeals = data.map((deal: any) => {
-        const mappedDeal = {
-          id: deal._id,
-          title: deal.title,
-          status: status, // Use the status we're fetching for
-          companyDescription: deal.companyDescription,
-          industry: deal.industrySector,
-          geography: deal.geographySelection,
-          yearsInBusiness: deal.yearsInBusiness,
-          trailingRevenue: deal.financialDetails?.trailingRevenueAmount || 0,
-          trailingEbitda: deal.financialDetails?.trailingEBITDAAmount || 0,
-          averageGrowth: deal.financialDetails?.avgRevenueGrowth || 0,
-          netIncome: deal.financialDetails?.netIncome || 0,
-          askingPrice: deal.financialDetails?.askingPrice || 0,
-          businessModel: getBusinessModelString(deal.businessModel),
-          managementPreference: getManagementPreferenceString(deal.managementPreferences),
-          sellerPhone: "Contact via platform",
-          sellerEmail: "Contact via platform",
-          documents: deal.documents || [],
-        }
+        const mappedDeal = mapBuyerDeal(deal, status, currentBuyerId)
         console.log("Mapped deal:", mappedDeal)
         return mappedDeal
       })
@@ -181,25 +167,6 @@ export default function DealsPage() {
     }
   }
 
-  // Helper functions
-  const getBusinessModelString = (businessModel: any) => {
-    if (!businessModel) return "Not specified"
-    const models = []
-    if (businessModel.recurringRevenue) models.push("Recurring Revenue")
-    if (businessModel.projectBased) models.push("Project-Based")
-    if (businessModel.assetLight) models.push("Asset Light")
-    if (businessModel.assetHeavy) models.push("Asset Heavy")
-    return models.join(", ") || "Not specified"
-  }
-
-  const getManagementPreferenceString = (managementPreferences: any) => {
-    if (!managementPreferences) return "Not specified"
-    const prefs = []
-    if (managementPreferences.retiringDivesting) prefs.push("Retiring/Divesting")
-    if (managementPreferences.staffStay) prefs.push("Staff willing to stay")
-    return prefs.join(", ") || "Not specified"
-  }
-
   // Update deal status via API
   const updateDealStatus = async (dealId: string, action: "activate" | "reject" | "set-pending") => {
     try {
@@ -210,11 +177,9 @@ export default function DealsPage() {
       setApiError(null)
       const token = localStorage.getItem("token")
       const currentBuyerId = localStorage.getItem("userId")
-      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
 
       console.log("Token exists:", !!token)
       console.log("Buyer ID:", currentBuyerId)
-      console.log("API URL:", apiUrl)
 
       if (!token) {
         const errorMsg = "Authentication token not found. Please log in again."
@@ -230,23 +195,19 @@ export default function DealsPage() {
         return false
       }
 
-      let endpoint = ""
       const method = "POST"
       let body: any = {}
 
-      // Use the correct endpoints from your backend
+      // Responses go through the route handler so the seller's pages hear about them
       switch (action) {
         case "activate":
-          endpoint = `/buyers/deals/${dealId}/activate`
-          body = { notes: "Buyer interested in deal" }
+          body = { action, notes: "Buyer interested in deal" }
           break
         case "reject":
-          endpoint = `/buyers/deals/${dealId}/reject`
-          body = { notes: "Deal passed by buyer" }
+          body = { action, notes: "Deal passed by buyer" }
           break
         case "set-pending":
-          endpoint = `/buyers/deals/${dealId}/set-pending`
-          body = { notes: "Deal set back to pending" }
+          body = { action, notes: "Deal set back to pending" }
           break
         default:
           const errorMsg = `Invalid action: ${action}`
@@ -255,7 +216,7 @@ export default function DealsPage() {
           return false
       }
 
-      const url = `${apiUrl}${endpoint}`
+      const url = `/api/deals/${dealId}/response`
       console.log(`=== Making API Request ===`)
       console.log(`URL: ${url}`)
       console.log(`Method: ${method}`)
@@ -400,22 +361,89 @@ export default function DealsPage() {
     }
   }, [searchParams, router, activeTab, isInitialized])
 
-  // Add a separate effect to handle page visibility changes
+  // Restore which deal updates this buyer has already seen
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (!document.hidden && isInitialized) {
-        console.log("Page became visible, refreshing data")
-        fetchAllDeals()
-        fetchBuyerProfile()
-      }
+    try {
+      const stored = localStorage.getItem(SEEN_DEAL_UPDATES_KEY)
+      if (stored) setSeenDealUpdates(JSON.parse(stored))
+      const storedAnswers = localStorage.getItem(READ_DEAL_ANSWERS_KEY)
+      if (storedAnswers) setReadDealAnswers(JSON.parse(storedAnswers))
+    } catch (error) {
+      console.error("Error reading seen deal updates:", error)
     }
+  }, [])
+
+  // Notification links name a tab and a deal to open
+  const linkedTab = searchParams?.get("tab")
+  const linkedDealId = searchParams?.get("deal")
+  useEffect(() => {
+    if (linkedTab === "pending" || linkedTab === "active" || linkedTab === "passed") handleTabChange(linkedTab)
+  }, [linkedTab])
 
-    document.addEventListener("visibilitychange", handleVisibilityChange)
+  useEffect(() => {
+    if (!linkedDealId || openedLinkedDeal.current === linkedDealId) return
+    const linkedDeal = deals.find((deal) => deal.id === linkedDealId)
+    if (!linkedDeal) return
+    openedLinkedDeal.current = linkedDealId
+    handleTabChange(linkedDeal.status)
+    handleViewDealDetails(linkedDeal)
+  }, [linkedDealId, deals])
+
+  // Load the Q&A of every active deal so unread answers show on the cards
+  const activeDealIds = deals
+    .filter((deal) => deal.status === "active")
+    .map((deal) => deal.id)
+    .join(",")
+  useEffect(() => {
+    if (!activeDealIds) return
+    activeDealIds.split(",").forEach((dealId) => {
+      fetchDealQuestions(dealId)
+        .then((questions) => setQuestionsByDeal((prev) => ({ ...prev, [dealId]: questions })))
+        .catch((error) => console.error("Error fetching questions:", error))
+    })
+  }, [activeDealIds])
+
+  // Apply pushed deal events in place instead of refetching every list
+  const refreshDeal = async (dealId: string, status: BuyerDeal["status"]) => {
+    try {
+      const refreshed = mapBuyerDeal(await fetchDeal(dealId), status, buyerId)
+      setDeals((prev) =>
+        prev.some((deal) => deal.id === dealId)
+          ? prev.map((deal) => (deal.id === dealId ? refreshed : deal))
+          : [refreshed, ...prev],
+      )
+    } catch (error) {
+      console.error(`Error refreshing deal ${dealId}:`, error)
+    }
+  }
 
-    return () => {
-      document.removeEventListener("visibilitychange", handleVisibilityChange)
+  useDealEvents("buyer", (event) => {
+    const existing = deals.find((deal) => deal.id === event.dealId)
+
+    switch (event.type) {
+      case "invitation":
+        if (event.buyerId === buyerId && !existing) refreshDeal(event.dealId, "pending")
+        break
+      case "response":
+        // This buyer responded from another tab or device; the status decides which documents they get
+        if (event.buyerId === buyerId) {
+          const status = getBuyerDealStatus({ [event.buyerId]: { response: event.response } }, event.buyerId)
+          refreshDeal(event.dealId, status === "rejected" ? "passed" : status || "pending")
+        }
+        break
+      case "status":
+        // Deals taken off the market or completed leave the buyer's lists
+        if (event.status !== "active") {
+          setDeals((prev) => prev.filter((deal) => deal.id !== event.dealId))
+        } else if (existing) {
+          refreshDeal(event.dealId, existing.status)
+        }
+        break
+      case "updated":
+        if (existing) refreshDeal(event.dealId, existing.status)
+        break
     }
-  }, [isInitialized])
+  })
 
   const checkProfileSubmission = async () => {
     try {
@@ -449,7 +477,11 @@ export default function DealsPage() {
       if (data && (data.exists === false || data.profileExists === false)) {
         console.log("No profile found, redirecting to profile page")
         router.push("/buyer/acquireprofile")
+        return
       }
+
+      // Deal amounts are shown and compared in the currency the buyer's target ranges use
+      setBuyerCriteria({ currency: parseCurrencyCode(data?.selectedCurrency), targetCriteria: data?.targetCriteria })
     } catch (error) {
       console.error("Error checking profile:", error)
     }
@@ -503,8 +535,48 @@ export default function DealsPage() {
     }
   }
 
-  const handleViewDealDetails = (deal: Deal) => {
+  const handleDownloadDocument = async (dealId: string, doc: DealDocument) => {
+    try {
+      await downloadDealDocument(dealId, doc)
+    } catch (error: any) {
+      console.error("Error downloading document:", error)
+      setApiError(error.message || "Failed to download document")
+    }
+  }
+
+  // A deal counts as updated when the seller edited it after this buyer was invited and last looked at it
+  const isDealUpdated = (deal: BuyerDeal) => {
+    if (!deal.lastEditedAt) return false
+    const editedAt = new Date(deal.lastEditedAt).getTime()
+    if (deal.invitedAt && editedAt <= new Date(deal.invitedAt).getTime()) return false
+    const seenAt = seenDealUpdates[deal.id]
+    return !seenAt || editedAt > new Date(seenAt).getTime()
+  }
+
+  const markDealUpdateSeen = (deal: BuyerDeal) => {
+    if (!deal.lastEditedAt || !isDealUpdated(deal)) return
+    const updated = { ...seenDealUpdates, [deal.id]: deal.lastEditedAt }
+    setSeenDealUpdates(updated)
+    localStorage.setItem(SEEN_DEAL_UPDATES_KEY, JSON.stringify(updated))
+  }
+
+  const getUnreadAnswers = (deal: BuyerDeal) =>
+    deal.status === "active" && buyerId
+      ? countUnreadAnswers(questionsByDeal[deal.id] || [], buyerId, readDealAnswers[deal.id])
+      : 0
+
+  const markAnswersRead = (deal: BuyerDeal) => {
+    if (getUnreadAnswers(deal) === 0) return
+    const updated = { ...readDealAnswers, [deal.id]: new Date().toISOString() }
+    setReadDealAnswers(updated)
+    localStorage.setItem(READ_DEAL_ANSWERS_KEY, JSON.stringify(updated))
+  }
+
+  const handleViewDealDetails = (deal: BuyerDeal) => {
+    markDealUpdateSeen(deal)
+    trackDealInteraction(deal.id, "view")
     if (deal.status === "active") {
+      markAnswersRead(deal)
       setSelectedDeal(deal)
       setDealDetailsOpen(true)
     } else {
@@ -512,7 +584,7 @@ export default function DealsPage() {
     }
   }
 
-  const handleViewCIMClick = (e: React.MouseEvent, deal: Deal) => {
+  const handleViewCIMClick = (e: React.MouseEvent, deal: BuyerDeal) => {
     e.stopPropagation()
 
     if (deal.status === "active") {
@@ -522,6 +594,20 @@ export default function DealsPage() {
     }
   }
 
+  // Open the 1:1 conversation with the deal's seller, creating it on first use
+  const handleMessageSeller = async (dealId: string) => {
+    try {
+      const conversation = await startConversation(dealId)
+      router.push(`/buyer/messages?conversation=${conversation._id}`)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start conversation",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleTabChange = (tab: string) => {
     setActiveTab(tab)
     setActiveTitle(`${tab.charAt(0).toUpperCase() + tab.slice(1)} Deals`)
@@ -659,12 +745,7 @@ export default function DealsPage() {
           </div>
 
           <div className="flex items-center space-x-4">
-            <div className="relative">
-              <Bell className="h-5 w-5 text-gray-500" />
-              <div className="absolute -right-1 -top-1 flex h-4 w-4 items-center justify-center rounded-full bg-red-500 text-xs text-white">
-                2
-              </div>
-            </div>
+            <NotificationBell role="buyer" settingsHref="/buyer/notifications" />
 
             <div className="flex items-center">
               <div className="mr-2 text-right">
@@ -704,6 +785,19 @@ export default function DealsPage() {
               <span>All Deals</span>
             </Link>
 
+            <Link
+              href="/buyer/messages"
+              className="mb-2 flex items-center rounded-md px-4 py-3 text-gray-700 hover:bg-gray-100"
+            >
+              <MessageSquare className="mr-3 h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-teal-500 px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Link>
+
             <Link
               href="/buyer/company-profile"
               className="mb-2 flex items-center rounded-md px-4 py-3 text-gray-700 hover:bg-gray-100"
@@ -829,57 +923,22 @@ export default function DealsPage() {
           ) : (
             <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
               {filteredDeals.map((deal) => (
-                <div
+                <BuyerDealCard
                   key={deal.id}
-                  className="rounded-lg border border-gray-200 bg-white shadow-sm cursor-pointer hover:shadow-md transition-shadow"
-                  onClick={() => handleViewDealDetails(deal)}
-                >
-                  <div className="flex items-center justify-between border-b border-gray-200 p-4">
-                    <h3 className="text-lg font-medium text-teal-500">{deal.title}</h3>
-                  </div>
-
-                  <div className="p-4">
-                    <h4 className="mb-2 font-medium text-gray-800">Overview</h4>
-                    <div className="mb-4 space-y-1 text-sm text-gray-600">
-                      <p>Company Description: {deal.companyDescription}</p>
-                      <p>Industry: {deal.industry}</p>
-                      <p>Geography: {deal.geography}</p>
-                      <p>Number of Years in Business: {deal.yearsInBusiness}</p>
-                    </div>
-
-                    <h4 className="mb-2 font-medium text-gray-800">Financial</h4>
-                    <div className="mb-4 grid grid-cols-2 gap-2 text-sm text-gray-600">
-                      <p>Trailing 12-Month Revenue: ${deal.trailingRevenue.toLocaleString()}</p>
-                      <p>Trailing 12-Month EBITDA: ${deal.trailingEbitda.toLocaleString()}</p>
-                      <p>Average 3-YEAR REVENUE GROWTH IN $: ${deal.averageGrowth.toLocaleString()}</p>
-                      <p>Net Income: ${deal.netIncome.toLocaleString()}</p>
-                      <p>Asking Price: ${deal.askingPrice.toLocaleString()}</p>
-                      <p>Business Mode: {deal.businessModel}</p>
-                      <p>Management Future Preferences: {deal.managementPreference}</p>
-                    </div>
-
-                    <h4 className="mb-2 font-medium text-gray-800">Seller Contact Information</h4>
-                    <div className="mb-4 space-y-1 text-sm text-gray-600">
-                      <p>Phone Number: {deal.sellerPhone}</p>
-                      <p>Email: {deal.sellerEmail}</p>
-                    </div>
-
-                    <div className="flex justify-end space-x-2" onClick={(e) => e.stopPropagation()}>
-                      <Button onClick={(e) => handleViewCIMClick(e, deal)} className="bg-teal-500 hover:bg-teal-600">
-                        {deal.status === "active" ? "View CIM" : "Go to CIM"}
-                      </Button>
-                      {deal.status !== "passed" && (
-                        <Button
-                          variant="outline"
-                          className="border-red-200 bg-[#E3515333] text-red-500 hover:bg-red-50"
-                          onClick={() => handlePassDeal(deal.id)}
-                        >
-                          Pass
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                </div>
+                  deal={deal}
+                  updated={isDealUpdated(deal)}
+                  unreadAnswers={getUnreadAnswers(deal)}
+                  currency={buyerCriteria?.currency}
+                  criteriaMismatches={
+                    buyerCriteria
+                      ? getCriteriaMismatches(deal, buyerCriteria.targetCriteria, buyerCriteria.currency)
+                      : []
+                  }
+                  onOpen={handleViewDealDetails}
+                  onViewCIM={handleViewCIMClick}
+                  onPass={handlePassDeal}
+                  onDownloadDocument={handleDownloadDocument}
+                />
               ))}
             </div>
           )}
@@ -913,105 +972,38 @@ export default function DealsPage() {
       </Dialog>
 
       {/* Deal Details Modal */}
-      <Dialog open={dealDetailsOpen} onOpenChange={setDealDetailsOpen}>
-        <DialogContent className="w-[523px] h-[583px] fixed  border-[0.5px] rounded-[6px] p-0 overflow-hidden overflow-y-auto">
-          <div className="p-6">
-            <DialogHeader>
-              <DialogTitle className="text-center text-teal-500 text-xl">Deal Details</DialogTitle>
-            </DialogHeader>
-
-            {selectedDeal && (
-              <div className="py-4">
-                <div className="mb-6">
-                  <h3 className="text-lg font-medium mb-3">Overview</h3>
-                  <div className="space-y-2 text-sm">
-                    <p>
-                      <span className="font-medium">Deal Title:</span> {selectedDeal.title}
-                    </p>
-                    <p>
-                      <span className="font-medium">Company Description:</span> {selectedDeal.companyDescription}
-                    </p>
-                    <p>
-                      <span className="font-medium">Industry:</span> {selectedDeal.industry}
-                    </p>
-                    <p>
-                      <span className="font-medium">Geography:</span> {selectedDeal.geography}
-                    </p>
-                    <p>
-                      <span className="font-medium">Number of Years in Business:</span> {selectedDeal.yearsInBusiness}
-                    </p>
-                  </div>
-                </div>
-
-                <div className="mb-6">
-                  <h3 className="text-lg font-medium mb-3">Financial</h3>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <p>
-                      <span className="font-medium">Trailing 12-Month Revenue:</span> $
-                      {selectedDeal.trailingRevenue.toLocaleString()}
-                    </p>
-                    <p>
-                      <span className="font-medium">Trailing 12-Month EBITDA:</span> $
-                      {selectedDeal.trailingEbitda.toLocaleString()}
-                    </p>
-                    <p>
-                      <span className="font-medium">Average 3-YEAR REVENUE GROWTH IN $:</span> $
-                      {selectedDeal.averageGrowth.toLocaleString()}
-                    </p>
-                    <p>
-                      <span className="font-medium">Net Income:</span> ${selectedDeal.netIncome.toLocaleString()}
-                    </p>
-                    <p>
-                      <span className="font-medium">Asking Price:</span> ${selectedDeal.askingPrice.toLocaleString()}
-                    </p>
-                    <p>
-                      <span className="font-medium">Business Model:</span> {selectedDeal.businessModel}
-                    </p>
-                    <p className="col-span-2">
-                      <span className="font-medium">Management Future Preferences:</span>{" "}
-                      {selectedDeal.managementPreference}
-                    </p>
-                  </div>
-                </div>
-
-                <div className="mb-6">
-                  <h3 className="text-lg font-medium mb-3">Seller Contact Information</h3>
-                  <div className="space-y-2 text-sm">
-                    <p>
-                      <span className="font-medium">Phone Number:</span> {selectedDeal.sellerPhone}
-                    </p>
-                    <p>
-                      <span className="font-medium">Email:</span> {selectedDeal.sellerEmail}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
-          </div>
-          <div className="flex justify-end space-x-4 p-4 mt-auto border-t border-gray-200">
-            <Button
-              variant="outline"
-              onClick={() => setDealDetailsOpen(false)}
-              className="border-[#3AAFA9] px-8 py-2 rounded-md bg-[#3AAFA91A] text-[#3AAFA9] hover:text-[#3AAFA9]"
-            >
-              Close
-            </Button>
-            {selectedDeal && selectedDeal.status !== "passed" && (
-              <Button
-                variant="outline"
-                className="border-red-200 text-red-500 hover:bg-red-50 px-8 py-2 hover:text-red-500 rounded-md bg-[#E3515333]"
-                onClick={() => {
-                  if (selectedDeal) {
-                    handlePassDeal(selectedDeal.id)
-                  }
-                }}
-              >
-                Pass
+      <BuyerDealDetailsDialog
+        deal={selectedDeal}
+        open={dealDetailsOpen}
+        onOpenChange={setDealDetailsOpen}
+        currency={buyerCriteria?.currency}
+        onPass={handlePassDeal}
+        onDownloadDocument={handleDownloadDocument}
+      >
+        {selectedDeal?.status === "active" && buyerId && (
+          <div className="mb-6">
+            <div className="mb-3 flex items-center justify-between">
+              <h3 className="text-lg font-medium">Questions for the Seller</h3>
+              <Button variant="outline" size="sm" onClick={() => handleMessageSeller(selectedDeal.id)}>
+                <MessageSquare className="mr-1 h-4 w-4" />
+                Message Seller
               </Button>
-            )}
+            </div>
+            <BuyerDealQuestions
+              dealId={selectedDeal.id}
+              buyerId={buyerId}
+              questions={questionsByDeal[selectedDeal.id] || []}
+              onAsked={(question) =>
+                setQuestionsByDeal((prev) => ({
+                  ...prev,
+                  [selectedDeal.id]: [...(prev[selectedDeal.id] || []), question],
+                }))
+              }
+            />
           </div>
-        </DialogContent>
-      </Dialog>
+        )}
+      </BuyerDealDetailsDialog>
+      <Toaster />
     </div>
   )
 }
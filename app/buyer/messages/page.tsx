@@ -0,0 +1,168 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Eye, LogOut, Briefcase, MessageSquare } from "lucide-react"
+import { Toaster } from "@/components/ui/toaster"
+import Inbox from "@/components/messages/inbox"
+
+interface BuyerProfile {
+  _id: string
+  fullName: string
+  email: string
+  companyName: string
+  role: string
+  profilePicture: string | null
+}
+
+export default function BuyerMessagesPage() {
+  const [buyerProfile, setBuyerProfile] = useState<BuyerProfile | null>(null)
+  const [unread, setUnread] = useState(0)
+
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  useEffect(() => {
+    const fetchBuyerProfile = async () => {
+      try {
+        const token = localStorage.getItem("token")
+        if (!token) {
+          router.push("/buyer/login")
+          return
+        }
+
+        const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+        const response = await fetch(`${apiUrl}/buyers/profile`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        })
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            localStorage.removeItem("token")
+            localStorage.removeItem("userId")
+            router.push("/buyer/login?session=expired")
+            return
+          }
+          throw new Error(`Failed to fetch buyer profile: ${response.status}`)
+        }
+
+        setBuyerProfile(await response.json())
+      } catch (error) {
+        console.error("Error fetching buyer profile:", error)
+      }
+    }
+    fetchBuyerProfile()
+  }, [router])
+
+  const handleLogout = () => {
+    localStorage.removeItem("token")
+    localStorage.removeItem("userId")
+    router.push("/buyer/login")
+  }
+
+  const getProfilePictureUrl = (path: string | null) => {
+    if (!path) return null
+
+    const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+    if (path.startsWith("http://") || path.startsWith("https://")) {
+      return path
+    }
+
+    const formattedPath = path.replace(/\\/g, "/")
+    return `${apiUrl}/${formattedPath.startsWith("/") ? formattedPath.substring(1) : formattedPath}`
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="flex items-center justify-between px-6 py-3">
+          <div className="flex items-center space-x-10 pt-3 pb-1">
+            <Link href="/buyer/deals">
+              <div className="flex items-center">
+                <img src="/logo.svg" alt="CIM Amplify" className="h-10" />
+              </div>
+            </Link>
+            <h1 className="text-2xl font-semibold text-gray-800">Messages</h1>
+          </div>
+
+          <div className="flex items-center">
+            <div className="mr-2 text-right">
+              <div className="text-sm font-medium">{buyerProfile?.fullName || "User"}</div>
+              <div className="text-xs text-gray-500">{buyerProfile?.companyName || "Company"}</div>
+            </div>
+            <div className="relative">
+              {buyerProfile?.profilePicture ? (
+                <img
+                  src={getProfilePictureUrl(buyerProfile.profilePicture) || "/placeholder.svg"}
+                  alt={buyerProfile.fullName}
+                  className="h-8 w-8 rounded-full object-cover"
+                  onError={(e) => {
+                    ;(e.target as HTMLImageElement).src = "/placeholder.svg"
+                  }}
+                />
+              ) : (
+                <div className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center">
+                  <span className="text-gray-600 text-sm">{buyerProfile?.fullName?.charAt(0) || "U"}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex">
+        {/* Sidebar */}
+        <aside className="w-56 border-r border-gray-200 bg-white">
+          <nav className="flex flex-col p-4">
+            <Link
+              href="/buyer/deals"
+              className="mb-2 flex items-center rounded-md px-4 py-3 text-gray-700 hover:bg-gray-100"
+            >
+              <Briefcase className="mr-3 h-5 w-5" />
+              <span>All Deals</span>
+            </Link>
+
+            <Link
+              href="/buyer/messages"
+              className="mb-2 flex items-center rounded-md bg-teal-500 px-4 py-3 text-white hover:bg-teal-600"
+            >
+              <MessageSquare className="mr-3 h-5 w-5" />
+              <span>Messages</span>
+              {unread > 0 && (
+                <span className="ml-auto rounded-full bg-white px-2 py-0.5 text-xs text-teal-600">{unread}</span>
+              )}
+            </Link>
+
+            <Link
+              href="/buyer/company-profile"
+              className="mb-2 flex items-center rounded-md px-4 py-3 text-gray-700 hover:bg-gray-100"
+            >
+              <Eye className="mr-3 h-5 w-5" />
+              <span>Company Profile</span>
+            </Link>
+
+            <button
+              onClick={handleLogout}
+              className="flex items-center rounded-md px-4 py-3 text-gray-700 hover:bg-gray-100 text-left w-full"
+            >
+              <LogOut className="mr-3 h-5 w-5" />
+              <span>Sign Out</span>
+            </button>
+          </nav>
+        </aside>
+
+        {/* Main content */}
+        <main className="flex-1 bg-gray-50 p-6">
+          <Inbox role="buyer" initialConversationId={searchParams.get("conversation")} onUnreadChange={setUnread} />
+        </main>
+      </div>
+      <Toaster />
+    </div>
+  )
+}
@@ -4,10 +4,12 @@ import type React from "react"
 
 import { useState, useEffect } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
-import { Search, Eye, LogOut, Briefcase, Bell } from "lucide-react"
+import { Search, Eye, LogOut, Briefcase } from "lucide-react"
+import NotificationBell from "@/components/notifications/notification-bell"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { getDealGeographies } from "@/lib/deal-form"
 import Link from "next/link"
 
 interface Deal {
@@ -100,7 +102,7 @@ export default function DealsPage() {
           status: mapApiStatusToLocal(deal.status),
           companyDescription: deal.companyDescription,
           industry: deal.industrySector,
-          geography: deal.geographySelection,
+          geography: getDealGeographies(deal).join(", "),
           yearsInBusiness: deal.yearsInBusiness,
           trailingRevenue: deal.financialDetails?.trailingRevenueAmount || 0,
           trailingEbitda: deal.financialDetails?.trailingEBITDAAmount || 0,
@@ -167,9 +169,8 @@ export default function DealsPage() {
         return false
       }
 
-      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
-      const endpoint = action === "reject" ? "reject" : "interest"
-      const url = `${apiUrl}/deal-tracking/${endpoint}/${dealId}`
+      // Responses go through the route handler so the seller's pages hear about them
+      const url = `/api/deals/${dealId}/response`
 
       const response = await fetch(url, {
         method: "POST",
@@ -178,6 +179,7 @@ export default function DealsPage() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          action: action === "reject" ? "pass" : "interest",
           notes: action === "reject" ? "Deal passed by buyer" : "Buyer interested in deal",
         }),
       })
@@ -489,12 +491,7 @@ export default function DealsPage() {
           </div>
 
           <div className="flex items-center space-x-4">
-            <div className="relative">
-              <Bell className="h-5 w-5 text-gray-500" />
-              <div className="absolute -right-1 -top-1 flex h-4 w-4 items-center justify-center rounded-full bg-red-500 text-xs text-white">
-                2
-              </div>
-            </div>
+            <NotificationBell role="buyer" settingsHref="/buyer/notifications" />
 
             <div className="flex items-center">
               <div className="mr-2 text-right">
@@ -5,7 +5,29 @@ import { useState, useEffect, useRef } from "react"
 import Image from "next/image"
 import Link from "next/link"
 import { useSearchParams, useRouter } from "next/navigation"
-import { Eye, Clock, LogOut, Search, Plus, Pencil, Check, X, Upload, FileText, Download } from "lucide-react"
+import {
+  Eye,
+  Clock,
+  LogOut,
+  Search,
+  Plus,
+  Pencil,
+  Check,
+  X,
+  Upload,
+  FileText,
+  Download,
+  FilePen,
+  Gift,
+  LayoutGrid,
+  Kanban,
+  Copy,
+  MessageSquare,
+} from "lucide-react"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
+import { useDealEvents } from "@/hooks/use-deal-events"
+import { useDealStatusSummaries } from "@/hooks/use-deal-status-summaries"
+import NotificationBell from "@/components/notifications/notification-bell"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -16,6 +38,25 @@ import SellerProtectedRoute from "@/components/seller/protected-route"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
+import DealForm from "@/components/seller/deal-form"
+import DealAnalytics from "@/components/seller/deal-analytics"
+import ExclusivityBadge from "@/components/seller/exclusivity-badge"
+import DealStageBadge from "@/components/deal-stage-badge"
+import DealBoard from "@/components/seller/deal-board"
+import { getDealStage, type DealStage, type DealStageChange } from "@/lib/deal-stages"
+import ExclusivityWarning from "@/components/seller/exclusivity-warning"
+import { downloadDealDocument, saveDealEdits } from "@/services/deal-api"
+import {
+  getDealCurrencies,
+  getDealGeographies,
+  isAutosaveDraft,
+  type DealFields,
+  type DealFieldChange,
+} from "@/lib/deal-form"
+import { formatCurrency } from "@/lib/currency"
+import { getValuationAmounts } from "@/lib/valuation"
+import ValuationPanel from "@/components/valuation-panel"
+import type { InvitationWave, MatchedBuyer } from "@/types/deal"
 
 // Updated interfaces to match API structure
 interface SellerProfile {
@@ -46,6 +87,7 @@ interface Deal {
   visibility?: string
   industrySector: string
   geographySelection: string
+  geographies?: string[]
   yearsInBusiness: number
   employeeCount?: number
   financialDetails: {
@@ -55,7 +97,9 @@ interface Deal {
     trailingEBITDAAmount?: number
     avgRevenueGrowth?: number
     netIncome?: number
+    netIncomeCurrency?: string
     askingPrice?: number
+    askingPriceCurrency?: string
     finalSalePrice?: number
   }
   businessModel: {
@@ -86,49 +130,10 @@ interface Deal {
     publishedAt?: string
     completedAt?: string
   }
-}
-
-// Updated interface to match the actual API response structure
-interface MatchedBuyer {
-  _id: string // This is the company profile ID
-  buyerId: string // This is the actual buyer ID we need to send
-  buyerName: string
-  buyerEmail: string
-  companyName: string
-  preferences: {
-    stopSendingDeals: boolean
-    dontShowMyDeals: boolean
-    dontSendDealsToMyCompetitors: boolean
-    allowBuyerLikeDeals: boolean
-  }
-  targetCriteria: {
-    countries: string[]
-    industrySectors: string[]
-    revenueMin?: number
-    revenueMax?: number
-    ebitdaMin?: number
-    ebitdaMax?: number
-    transactionSizeMin?: number
-    transactionSizeMax?: number
-    revenueGrowth?: number
-    minStakePercent?: number
-    minYearsInBusiness?: number
-    preferredBusinessModels: string[]
-    managementTeamPreference: string[]
-    description?: string
-  }
-  totalMatchScore: number
-  matchPercentage: number
-  matchDetails: {
-    industryMatch: boolean
-    geographyMatch: boolean
-    revenueMatch: boolean
-    ebitdaMatch: boolean
-    transactionSizeMatch: boolean
-    businessModelMatch: boolean
-    managementMatch: boolean
-    yearsMatch: boolean
-  }
+  invitationWaves?: InvitationWave[]
+  invitationStatus?: Record<string, { invitedAt: string; response?: string }>
+  stage?: DealStage
+  stageHistory?: DealStageChange[]
 }
 
 function DealCard({
@@ -136,11 +141,13 @@ function DealCard({
   onDocumentUpload,
   handleOffMarketClick,
   handleCompleteDealClick,
+  handleEditClick,
 }: {
   deal: Deal
   onDocumentUpload: (dealId: string) => void
   handleOffMarketClick: (deal: Deal) => void
   handleCompleteDealClick: (deal: Deal) => void
+  handleEditClick: (deal: Deal) => void
 }) {
   const router = useRouter()
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -163,17 +170,6 @@ function DealCard({
     return "Not specified"
   }
 
-  const formatCurrency = (amount = 0, currency = "USD($)"): string => {
-    const currencySymbol = currency.includes("USD")
-      ? "$"
-      : currency.includes("EUR")
-        ? "€"
-        : currency.includes("GBP")
-          ? "£"
-          : "$"
-    return `${currencySymbol}${amount.toLocaleString()}`
-  }
-
   const handleDocumentUploadInner = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files
     if (!files || files.length === 0) return
@@ -224,23 +220,40 @@ function DealCard({
     }
   }
 
-  const downloadDocument = (doc: DealDocument) => {
-    const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
-
-    // Create a download link
-    const link = document.createElement("a")
-    link.href = `${apiUrl}/uploads/deal-documents/${doc.filename}`
-    link.download = doc.originalName
-    link.target = "_blank"
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+  const downloadDocument = async (doc: DealDocument) => {
+    try {
+      await downloadDealDocument(deal._id, doc)
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to download document",
+        variant: "destructive",
+      })
+    }
   }
 
+  const currencies = getDealCurrencies(deal.financialDetails)
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-      <div className="p-4 border-b border-gray-200">
-        <h2 className="text-xl font-medium text-[#3aafa9]">Deal Details</h2>
+      <div className="p-4 border-b border-gray-200 space-y-2">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-medium text-[#3aafa9]">Deal Details</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-gray-500"
+            title="Start a new deal with this deal's settings; financials are not copied"
+            onClick={() => router.push(`/seller/seller-form?duplicateFrom=${deal._id}`)}
+          >
+            <Copy className="h-4 w-4 mr-1" />
+            Duplicate
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <DealStageBadge stage={getDealStage(deal)} />
+          <ExclusivityBadge deal={deal} />
+        </div>
       </div>
 
       {/* Overview Section */}
@@ -261,7 +274,7 @@ function DealCard({
           </div>
           <div>
             <span className="text-gray-500">Geography: </span>
-            <span>{deal.geographySelection}</span>
+            <span>{getDealGeographies(deal).join(", ")}</span>
           </div>
           <div>
             <span className="text-gray-500">Number of Years in Business: </span>
@@ -280,21 +293,11 @@ function DealCard({
         <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
           <div>
             <span className="text-gray-500">Trailing 12-Month Revenue: </span>
-            <span>
-              {formatCurrency(
-                deal.financialDetails.trailingRevenueAmount,
-                deal.financialDetails.trailingRevenueCurrency,
-              )}
-            </span>
+            <span>{formatCurrency(deal.financialDetails.trailingRevenueAmount, currencies.trailingRevenue)}</span>
           </div>
           <div>
             <span className="text-gray-500">Trailing 12-Month EBITDA: </span>
-            <span>
-              {formatCurrency(
-                deal.financialDetails.trailingEBITDAAmount,
-                deal.financialDetails.trailingRevenueCurrency,
-              )}
-            </span>
+            <span>{formatCurrency(deal.financialDetails.trailingEBITDAAmount, currencies.trailingEBITDA)}</span>
           </div>
           <div>
             <span className="text-gray-500">Average 3-YEAR REVENUE GROWTH IN %: </span>
@@ -302,15 +305,11 @@ function DealCard({
           </div>
           <div>
             <span className="text-gray-500">Net Income: </span>
-            <span>
-              {formatCurrency(deal.financialDetails.netIncome, deal.financialDetails.trailingRevenueCurrency)}
-            </span>
+            <span>{formatCurrency(deal.financialDetails.netIncome, currencies.netIncome)}</span>
           </div>
           <div>
             <span className="text-gray-500">Asking Price: </span>
-            <span>
-              {formatCurrency(deal.financialDetails.askingPrice, deal.financialDetails.trailingRevenueCurrency)}
-            </span>
+            <span>{formatCurrency(deal.financialDetails.askingPrice, currencies.askingPrice)}</span>
           </div>
           <div>
             <span className="text-gray-500">Business Model: </span>
@@ -323,6 +322,16 @@ function DealCard({
         </div>
       </div>
 
+      {/* Valuation Section */}
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium mb-3">Valuation</h3>
+        <ValuationPanel
+          amounts={getValuationAmounts(deal.financialDetails)}
+          sector={deal.industrySector}
+          role="seller"
+        />
+      </div>
+
       {/* Documents Section */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex justify-between items-center mb-3">
@@ -385,7 +394,11 @@ function DealCard({
 
       {/* Action Buttons */}
       <div className="flex p-4 gap-2">
-        <Button variant="outline" className="flex-1 py-2 border border-gray-200 text-gray-500">
+        <Button
+          variant="outline"
+          className="flex-1 py-2 border border-gray-200 text-gray-500"
+          onClick={() => handleEditClick(deal)}
+        >
           Edit
         </Button>
         {deal.status === "active" && (
@@ -404,6 +417,15 @@ function DealCard({
         >
           Off Market
         </Button>
+        {deal.status !== "completed" && (
+          <Button
+            variant="outline"
+            className="flex-1 py-2 border border-[#3aafa9] text-[#3aafa9]"
+            onClick={() => router.push(`/seller/deal/targeting?id=${deal._id}`)}
+          >
+            Buyers
+          </Button>
+        )}
         <Button
           className="flex-1 py-2 bg-[#3aafa9] text-white"
           onClick={() => router.push(`/seller/deal?id=${deal._id}`)}
@@ -417,14 +439,18 @@ function DealCard({
 
 export default function SellerDashboardPage() {
   const router = useRouter()
+  const unreadMessages = useUnreadMessages()
   const [deals, setDeals] = useState<Deal[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("")
+  const [viewMode, setViewMode] = useState<"grid" | "board">("grid")
   const [userProfile, setUserProfile] = useState<any>(null)
   const [sellerProfile, setSellerProfile] = useState<SellerProfile | null>(null)
   const [recentlyCreatedDeal, setRecentlyCreatedDeal] = useState<Deal | null>(null)
   const [matchedBuyers, setMatchedBuyers] = useState<MatchedBuyer[]>([])
+  // How many buyers each deal matches, for the analytics funnel
+  const [matchedCounts, setMatchedCounts] = useState<Record<string, number>>({})
   const [selectedBuyers, setSelectedBuyers] = useState<string[]>([])
   const [editingProfile, setEditingProfile] = useState<string | null>(null)
   const [profileName, setProfileName] = useState("")
@@ -436,6 +462,7 @@ export default function SellerDashboardPage() {
   const [sending, setSending] = useState(false)
   const [showBuyersForNewDeal, setShowBuyersForNewDeal] = useState(false)
 
+  const [dealBeingEdited, setDealBeingEdited] = useState<Deal | null>(null)
   const [offMarketDialogOpen, setOffMarketDialogOpen] = useState(false)
   const [currentDialogStep, setCurrentDialogStep] = useState(1)
   const [selectedDealForOffMarket, setSelectedDealForOffMarket] = useState<Deal | null>(null)
@@ -508,9 +535,10 @@ export default function SellerDashboardPage() {
         setShowBuyersForNewDeal(true)
         console.log("✅ Set recently created deal from URL:", foundDeal._id)
       }
-    } else if (deals.length > 0) {
+    } else if (deals.some((deal) => !isAutosaveDraft(deal))) {
       // Check if we have a very recently created deal (within last 2 minutes)
-      const mostRecentDeal = deals[0] // Deals are sorted by creation date
+      // Deals are sorted by creation date; autosaved drafts have not been submitted yet
+      const mostRecentDeal = deals.find((deal) => !isAutosaveDraft(deal))!
       const dealAge = new Date().getTime() - new Date(mostRecentDeal.timeline.createdAt).getTime()
       const twoMinutesInMs = 2 * 60 * 1000
 
@@ -599,6 +627,12 @@ export default function SellerDashboardPage() {
     fetchDeals()
   }, [router, refreshTrigger])
 
+  // Matches only change with the set of submitted deals, not with every in-place deal update
+  const matchableDealIds = deals
+    .filter((deal) => !isAutosaveDraft(deal))
+    .map((deal) => deal._id)
+    .join(",")
+
   // Fetch matching buyers for deals
   useEffect(() => {
     if (deals.length > 0) {
@@ -613,7 +647,10 @@ export default function SellerDashboardPage() {
             deals.map((d) => d._id),
           )
 
-          const buyerPromises = deals.map(async (deal) => {
+          // Drafts are not matched until they are submitted
+          const matchableDeals = deals.filter((deal) => !isAutosaveDraft(deal))
+
+          const buyerPromises = matchableDeals.map(async (deal) => {
             try {
               console.log(`📞 Fetching buyers for deal: ${deal._id}`)
               const response = await fetch(`${apiUrl}/deals/${deal._id}/matching-buyers`, {
@@ -658,6 +695,7 @@ export default function SellerDashboardPage() {
 
           const results = await Promise.all(buyerPromises)
           const allBuyers = results.flat()
+          setMatchedCounts(Object.fromEntries(matchableDeals.map((deal, index) => [deal._id, results[index].length])))
 
           // Remove duplicates based on _id
           const uniqueBuyers = allBuyers.filter(
@@ -688,14 +726,43 @@ export default function SellerDashboardPage() {
 
       fetchMatchingBuyers()
     }
-  }, [deals])
+  }, [matchableDealIds])
+
+  // Keep invitation responses and deal statuses current as buyers act, without reloading the deal list
+  useDealEvents("seller", (event) => {
+    if (event.type === "updated") return
+
+    setDeals((prevDeals) =>
+      prevDeals.map((deal) => {
+        if (deal._id !== event.dealId) return deal
+        if (event.type === "status") return { ...deal, status: event.status }
+
+        const invitation = deal.invitationStatus?.[event.buyerId]
+        return {
+          ...deal,
+          invitationStatus: {
+            ...deal.invitationStatus,
+            [event.buyerId]:
+              event.type === "invitation"
+                ? { invitedAt: event.at }
+                : { invitedAt: invitation?.invitedAt || event.at, response: event.response },
+          },
+        }
+      }),
+    )
+  })
 
   const handleLogout = () => {
     logout()
     router.push("/seller/login")
   }
 
-  const filteredDeals = deals.filter(
+  // Autosaved drafts are listed separately from published deals
+  const draftDeals = deals.filter((deal) => isAutosaveDraft(deal))
+  const publishedDeals = deals.filter((deal) => !isAutosaveDraft(deal))
+  const { summaries: statusSummaries, loading: statusSummariesLoading } = useDealStatusSummaries(publishedDeals)
+
+  const filteredDeals = publishedDeals.filter(
     (deal) =>
       deal.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
       deal.companyDescription.toLowerCase().includes(searchTerm.toLowerCase()),
@@ -736,7 +803,10 @@ export default function SellerDashboardPage() {
     }
 
     // Use the most recently created deal, or the first active deal
-    const dealId = recentlyCreatedDeal?._id || deals.find((deal) => deal.status === "active")?._id || deals[0]?._id
+    const dealId =
+      recentlyCreatedDeal?._id ||
+      deals.find((deal) => deal.status === "active")?._id ||
+      deals.find((deal) => !isAutosaveDraft(deal))?._id
 
     if (!dealId) {
       toast({
@@ -749,7 +819,6 @@ export default function SellerDashboardPage() {
 
     try {
       setSending(true)
-      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
       const token = localStorage.getItem("token")
 
       if (!token) {
@@ -808,9 +877,9 @@ export default function SellerDashboardPage() {
 
       const requestBody = { buyerIds: actualBuyerIds }
       console.log("📤 Request body:", JSON.stringify(requestBody, null, 2))
-      console.log("🌐 API URL:", `${apiUrl}/deals/${dealId}/target-buyers`)
 
-      const response = await fetch(`${apiUrl}/deals/${dealId}/target-buyers`, {
+      // Invites go through the route handler so the invited buyers' pages hear about them
+      const response = await fetch(`/api/deals/${dealId}/target-buyers`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -832,7 +901,7 @@ export default function SellerDashboardPage() {
           errorData = { message: errorText }
         }
 
-        throw new Error(errorData.message || `API Error: ${response.status} ${response.statusText}`)
+        throw new Error(errorData.error || `API Error: ${response.status} ${response.statusText}`)
       }
 
       const result = await response.json()
@@ -965,6 +1034,28 @@ export default function SellerDashboardPage() {
     setRefreshTrigger((prev) => prev + 1)
   }
 
+  // Save the edited fields and refresh the deal list
+  const handleEditSubmit = async (changes: Partial<DealFields>, diff: DealFieldChange[]) => {
+    if (!dealBeingEdited) return
+
+    try {
+      await saveDealEdits(dealBeingEdited._id, changes, diff.map((change) => change.label))
+      toast({
+        title: "Deal updated",
+        description: `${diff.length} field${diff.length === 1 ? "" : "s"} updated on "${dealBeingEdited.title}".`,
+      })
+      setDealBeingEdited(null)
+      setRefreshTrigger((prev) => prev + 1)
+    } catch (error: any) {
+      console.error("Error updating deal:", error)
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update deal",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleOffMarketClick = (deal: Deal) => {
     setSelectedDealForOffMarket(deal)
     setCurrentDialogStep(1)
@@ -1014,10 +1105,9 @@ export default function SellerDashboardPage() {
 
     try {
       const token = localStorage.getItem("token")
-      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
 
-      // Close the deal with the selected buyer
-      const closeResponse = await fetch(`${apiUrl}/deals/${selectedDealForCompletion._id}/close`, {
+      // Close the deal with the selected buyer, through the route handler so buyers on the deal hear about it
+      const closeResponse = await fetch(`/api/deals/${selectedDealForCompletion._id}/close`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${token}`,
@@ -1076,18 +1166,19 @@ export default function SellerDashboardPage() {
 
     try {
       const token = localStorage.getItem("token")
-      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
 
       // Prepare winningBuyerId: only send if buyerFromCIM is true
       const body: any = {
         finalSalePrice: Number.parseFloat(offMarketData.transactionValue),
+        // Kept on the deal so the rewards ledger knows whether a transaction bonus applies
+        buyerFromCIM: offMarketData.buyerFromCIM === true,
       }
       if (offMarketData.buyerFromCIM === true) {
         body.winningBuyerId = selectedWinningBuyer
       }
 
-      // Close the deal
-      const closeResponse = await fetch(`${apiUrl}/deals/${selectedDealForOffMarket._id}/close`, {
+      // Close the deal, through the route handler so buyers on the deal hear about it
+      const closeResponse = await fetch(`/api/deals/${selectedDealForOffMarket._id}/close`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${token}`,
@@ -1264,6 +1355,29 @@ export default function SellerDashboardPage() {
               <span>History</span>
             </Button>
 
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/rewards")}
+            >
+              <Gift className="h-5 w-5" />
+              <span>Rewards</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/messages")}
+            >
+              <MessageSquare className="h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Button>
+
             <Button
               variant="ghost"
               className="w-full justify-start gap-3 font-normal text-red-600 hover:text-red-700 hover:bg-red-50 mt-auto"
@@ -1294,6 +1408,7 @@ export default function SellerDashboardPage() {
               </div>
 
               <div className="flex items-center gap-3">
+                <NotificationBell role="seller" settingsHref="/seller/notifications" />
                 <div className="text-right">
                   <div className="font-medium flex items-center">
                     {editingProfile === "name" ? (
@@ -1389,7 +1504,7 @@ export default function SellerDashboardPage() {
                           <td className="py-2">{recentlyCreatedDeal.title}</td>
                           <td className="py-2">{recentlyCreatedDeal.companyDescription}</td>
                           <td className="py-2">{recentlyCreatedDeal.industrySector}</td>
-                          <td className="py-2">{recentlyCreatedDeal.geographySelection}</td>
+                          <td className="py-2">{getDealGeographies(recentlyCreatedDeal).join(", ")}</td>
                           <td className="py-2">{recentlyCreatedDeal.yearsInBusiness}</td>
                           <td className="py-2">${recentlyCreatedDeal.financialDetails.trailingRevenueAmount}</td>
                           <td className="py-2">
@@ -1526,19 +1641,29 @@ export default function SellerDashboardPage() {
                             <h4 className="font-medium mb-2">Target Criteria</h4>
                             <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
                               <div>
-                                <span className="text-gray-500">Revenue Range: </span>$
-                                {buyer.targetCriteria?.revenueMin?.toLocaleString() || 0} - $
-                                {buyer.targetCriteria?.revenueMax?.toLocaleString() || "∞"}
+                                <span className="text-gray-500">Revenue Range: </span>
+                                {formatCurrency(buyer.targetCriteria?.revenueMin, buyer.selectedCurrency)} -{" "}
+                                {buyer.targetCriteria?.revenueMax
+                                  ? formatCurrency(buyer.targetCriteria.revenueMax, buyer.selectedCurrency)
+                                  : "∞"}
                               </div>
                               <div>
-                                <span className="text-gray-500">EBITDA Range: </span>$
-                                {buyer.targetCriteria?.ebitdaMin?.toLocaleString() || 0} - $
-                                {buyer.targetCriteria?.ebitdaMax?.toLocaleString() || "∞"}
+                                <span className="text-gray-500">EBITDA Range: </span>
+                                {formatCurrency(buyer.targetCriteria?.ebitdaMin, buyer.selectedCurrency)} -{" "}
+                                {buyer.targetCriteria?.ebitdaMax
+                                  ? formatCurrency(buyer.targetCriteria.ebitdaMax, buyer.selectedCurrency)
+                                  : "∞"}
                               </div>
                               <div>
-                                <span className="text-gray-500">Transaction Size: </span>$
-                                {buyer.targetCriteria?.transactionSizeMin?.toLocaleString() || 0} - $
-                                {buyer.targetCriteria?.transactionSizeMax?.toLocaleString() || "∞"}
+                                <span className="text-gray-500">Transaction Size: </span>
+                                {formatCurrency(
+                                  buyer.targetCriteria?.transactionSizeMin,
+                                  buyer.selectedCurrency,
+                                )}{" "}
+                                -{" "}
+                                {buyer.targetCriteria?.transactionSizeMax
+                                  ? formatCurrency(buyer.targetCriteria.transactionSizeMax, buyer.selectedCurrency)
+                                  : "∞"}
                               </div>
                               <div>
                                 <span className="text-gray-500">Revenue Growth: </span>
@@ -1577,6 +1702,49 @@ export default function SellerDashboardPage() {
               </div>
             ) : null}
 
+            {/* My Drafts Section */}
+            {!loading && draftDeals.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <FilePen className="h-5 w-5 text-[#3aafa9]" />
+                  <h2 className="text-lg font-medium">My Drafts</h2>
+                  <span className="text-sm text-gray-500">({draftDeals.length})</span>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {draftDeals.map((draft) => (
+                    <div key={draft._id} className="flex items-center justify-between py-3">
+                      <div>
+                        <div className="font-medium">{draft.title || "Untitled draft"}</div>
+                        <div className="text-sm text-gray-500">
+                          {[draft.industrySector, getDealGeographies(draft).join(", ")].filter(Boolean).join(" · ") ||
+                            "No industry or geography selected yet"}
+                          {" · "}
+                          Last saved {new Date(draft.timeline.updatedAt).toLocaleString()}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="border-[#3aafa9] text-[#3aafa9] hover:bg-[#3aafa91a] hover:text-[#3aafa9]"
+                        onClick={() => router.push(`/seller/seller-form?draftId=${draft._id}`)}
+                      >
+                        Resume
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Deal Analytics Section */}
+            {!loading && (
+              <DealAnalytics
+                deals={publishedDeals}
+                summaries={statusSummaries}
+                matchedCounts={matchedCounts}
+                loading={statusSummariesLoading}
+              />
+            )}
+
             {/* Deals Section */}
             <div className="bg-white rounded-lg shadow">
               <div className="p-6 flex justify-between items-center">
@@ -1589,14 +1757,36 @@ export default function SellerDashboardPage() {
                     onChange={(e) => setSearchTerm(e.target.value)}
                   />
                 </div>
-                <Button
-                  variant="default"
-                  className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
-                  onClick={() => router.push("/seller/seller-form")}
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  New Deal
-                </Button>
+                <div className="flex items-center gap-2">
+                  <div className="flex rounded-md border border-gray-200">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Card view"
+                      className={viewMode === "grid" ? "bg-teal-100 text-teal-700" : ""}
+                      onClick={() => setViewMode("grid")}
+                    >
+                      <LayoutGrid className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Pipeline board"
+                      className={viewMode === "board" ? "bg-teal-100 text-teal-700" : ""}
+                      onClick={() => setViewMode("board")}
+                    >
+                      <Kanban className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    variant="default"
+                    className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
+                    onClick={() => router.push("/seller/seller-form")}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Deal
+                  </Button>
+                </div>
               </div>
 
               <div className="p-6">
@@ -1614,7 +1804,7 @@ export default function SellerDashboardPage() {
                       </div>
                     ))}
                   </div>
-                ) : error && deals.length === 0 ? (
+                ) : error && publishedDeals.length === 0 ? (
                   <div className="bg-white rounded-lg shadow p-6 text-center">
                     <div className="text-red-500 text-lg mb-2">Error loading deals</div>
                     <p className="text-gray-600 mb-4">{error}</p>
@@ -1627,6 +1817,18 @@ export default function SellerDashboardPage() {
                     </div>
                     <Button onClick={() => router.push("/seller/seller-form")}>Create Your First Deal</Button>
                   </div>
+                ) : viewMode === "board" ? (
+                  <DealBoard
+                    deals={filteredDeals}
+                    summaries={statusSummaries}
+                    onCompleteDrop={handleCompleteDealClick}
+                    onOffMarketDrop={handleOffMarketClick}
+                    onDealChange={(dealId, changes) =>
+                      setDeals((prevDeals) =>
+                        prevDeals.map((deal) => (deal._id === dealId ? { ...deal, ...changes } : deal)),
+                      )
+                    }
+                  />
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {filteredDeals.map((deal) => (
@@ -1636,6 +1838,7 @@ export default function SellerDashboardPage() {
                         onDocumentUpload={handleDocumentUpload}
                         handleOffMarketClick={handleOffMarketClick}
                         handleCompleteDealClick={handleCompleteDealClick}
+                        handleEditClick={setDealBeingEdited}
                       />
                     ))}
                   </div>
@@ -1644,6 +1847,14 @@ export default function SellerDashboardPage() {
             </div>
           </div>
         </div>
+        {/* Edit Deal Dialog */}
+        {dealBeingEdited && (
+          <DealForm
+            initialData={dealBeingEdited}
+            onClose={() => setDealBeingEdited(null)}
+            onSubmit={handleEditSubmit}
+          />
+        )}
         {/* Off Market Dialog */}
         <Dialog open={offMarketDialogOpen} onOpenChange={setOffMarketDialogOpen}>
           <DialogContent className="sm:max-w-md">
@@ -1652,6 +1863,9 @@ export default function SellerDashboardPage() {
                 <DialogHeader>
                   <DialogTitle className="text-center text-lg font-medium">Did the deal sell?</DialogTitle>
                 </DialogHeader>
+                {selectedDealForOffMarket && (
+                  <ExclusivityWarning deal={selectedDealForOffMarket} action="Taking this deal off market" />
+                )}
                 <div className="flex justify-center gap-4 mt-6">
                   <Button variant="outline" onClick={() => handleDialogResponse("dealSold", false)} className="px-8">
                     No
@@ -1795,6 +2009,9 @@ export default function SellerDashboardPage() {
               <DialogTitle className="text-center text-green-600 text-lg font-medium">Complete Deal</DialogTitle>
             </DialogHeader>
             <div className="space-y-6 mt-4">
+              {selectedDealForCompletion && (
+                <ExclusivityWarning deal={selectedDealForCompletion} action="Closing this deal" />
+              )}
               <div className="text-center text-gray-600">
                 Mark this deal as completed and update the final sale price.
               </div>
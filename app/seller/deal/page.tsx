@@ -1,13 +1,68 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import Image from "next/image"
-import { Eye, Clock, LogOut, ArrowLeft, User, FileText, Download, Users, Clock3, XCircle } from "lucide-react"
+import {
+  Eye,
+  Clock,
+  LogOut,
+  ArrowLeft,
+  User,
+  FileText,
+  Download,
+  Users,
+  Clock3,
+  XCircle,
+  Pencil,
+  Gift,
+  MessageSquare,
+} from "lucide-react"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
+import { useDealEvents } from "@/hooks/use-deal-events"
+import NotificationBell from "@/components/notifications/notification-bell"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "@/components/ui/use-toast"
 import { Toaster } from "@/components/ui/toaster"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import DealForm from "@/components/seller/deal-form"
+import EngagementTimeline from "@/components/seller/engagement-timeline"
+import SellerDealQuestions from "@/components/seller/deal-questions"
+import ExclusivityBadge from "@/components/seller/exclusivity-badge"
+import ExclusivityWarning from "@/components/seller/exclusivity-warning"
+import DealStageStepper from "@/components/seller/deal-stage-stepper"
+import { REWARD_TIERS, getExclusivity, getRewardTier, type RewardTier } from "@/lib/reward-tiers"
+import {
+  canTransitionStage,
+  getDealStage,
+  getStageConfig,
+  type DealStage,
+  type DealStageChange,
+} from "@/lib/deal-stages"
+import { buildEngagementTimeline, computeResponseStats, type TrackingEvent } from "@/lib/deal-engagement"
+import {
+  attachDealTeaser,
+  downloadDealDocument,
+  downloadDealTeaser,
+  fetchDealQuestions,
+  patchDeal,
+  saveDealEdits,
+  updateDealDocument,
+} from "@/services/deal-api"
+import { startConversation } from "@/services/messages-api"
+import { getBuyerWaveNumber } from "@/lib/invitation-waves"
+import { DOCUMENT_ACCESS_TIERS, getDocumentAccessTier } from "@/lib/deal-documents"
+import { countUnansweredQuestions } from "@/lib/deal-questions"
+import type { DealDocument, DealQuestion, DocumentAccessTier, InvitationWave } from "@/types/deal"
+import { getDealCurrencies, getDealGeographies, type DealFields, type DealFieldChange } from "@/lib/deal-form"
+import { formatCurrency } from "@/lib/currency"
+import { getValuationAmounts } from "@/lib/valuation"
+import ValuationPanel from "@/components/valuation-panel"
 import { useAuth } from "@/contexts/auth-context"
 import SellerProtectedRoute from "@/components/seller/protected-route"
 
@@ -21,15 +76,6 @@ interface SellerProfile {
   profilePicture: string | null
 }
 
-interface DealDocument {
-  filename: string
-  originalName: string
-  path: string
-  size: number
-  mimetype: string
-  uploadedAt: string
-}
-
 interface InvitationStatus {
   [buyerId: string]: {
     invitedAt: string
@@ -50,6 +96,7 @@ interface Deal {
   visibility?: string
   industrySector: string
   geographySelection: string
+  geographies?: string[]
   yearsInBusiness: number
   employeeCount?: number
   financialDetails: {
@@ -59,7 +106,9 @@ interface Deal {
     trailingEBITDAAmount?: number
     avgRevenueGrowth?: number
     netIncome?: number
+    netIncomeCurrency?: string
     askingPrice?: number
+    askingPriceCurrency?: string
     finalSalePrice?: number
   }
   businessModel: {
@@ -91,6 +140,9 @@ interface Deal {
     completedAt?: string
   }
   invitationStatus?: InvitationStatus
+  invitationWaves?: InvitationWave[]
+  stage?: DealStage
+  stageHistory?: DealStageChange[]
 }
 
 interface Buyer {
@@ -127,8 +179,16 @@ export default function DealDetailsPage() {
   const [loadingBuyers, setLoadingBuyers] = useState(false)
   const [userProfile, setUserProfile] = useState<any>(null)
   const [sellerProfile, setSellerProfile] = useState<SellerProfile | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  // Tier change waiting for the seller to confirm they are breaking exclusivity
+  const [pendingTier, setPendingTier] = useState<RewardTier | null>(null)
+  const [updatingStage, setUpdatingStage] = useState(false)
+  const [teaserAction, setTeaserAction] = useState<"download" | "attach" | null>(null)
+  const [trackingEvents, setTrackingEvents] = useState<TrackingEvent[]>([])
+  const [questions, setQuestions] = useState<DealQuestion[]>([])
 
   const router = useRouter()
+  const unreadMessages = useUnreadMessages()
   const searchParams = useSearchParams()
   const { logout } = useAuth()
   const dealId = searchParams.get("id")
@@ -211,6 +271,28 @@ export default function DealDetailsPage() {
     fetchDealDetails()
   }, [dealId, router])
 
+  // Save edits from the edit dialog and merge the updated deal into the page
+  const handleEditSubmit = async (changes: Partial<DealFields>, diff: DealFieldChange[]) => {
+    if (!deal) return
+
+    try {
+      const updatedDeal = await saveDealEdits(deal._id, changes, diff.map((change) => change.label))
+      setDeal((prev) => (prev ? { ...prev, ...updatedDeal } : prev))
+      setIsEditing(false)
+      toast({
+        title: "Deal updated",
+        description: `${diff.length} field${diff.length === 1 ? "" : "s"} updated.`,
+      })
+    } catch (error: any) {
+      console.error("Error updating deal:", error)
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update deal",
+        variant: "destructive",
+      })
+    }
+  }
+
   // Fetch status summary
   const fetchStatusSummary = async () => {
     try {
@@ -309,17 +391,131 @@ export default function DealDetailsPage() {
     }
   }
 
+  // Fetch tracked buyer interactions (views, downloads) for the engagement timeline
+  const fetchTrackingEvents = async () => {
+    try {
+      const token = localStorage.getItem("token")
+      const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+      const response = await fetch(`${apiUrl}/deal-tracking/deal/${dealId}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setTrackingEvents(Array.isArray(data) ? data : data.interactions || [])
+      } else {
+        console.error("Failed to fetch tracking events:", response.status)
+      }
+    } catch (error) {
+      console.error("Error fetching tracking events:", error)
+    }
+  }
+
   useEffect(() => {
     if (!dealId) return
 
     fetchStatusSummary()
+    fetchTrackingEvents()
+    fetchDealQuestions(dealId)
+      .then(setQuestions)
+      .catch((error) => console.error("Error fetching questions:", error))
   }, [dealId])
 
+  // Refresh the buyer lists and timeline when buyers are invited to or respond on this deal
+  useDealEvents("seller", (event) => {
+    if (event.dealId !== dealId) return
+
+    if (event.type === "status") {
+      setDeal((prev) => (prev ? { ...prev, status: event.status } : prev))
+    } else if (event.type === "invitation" || event.type === "response") {
+      fetchStatusSummary()
+      fetchTrackingEvents()
+    }
+  })
+
+  // Engagement timeline built from invitation status plus tracked interactions
+  const invitationStatus = statusSummary?.deal?.invitationStatus || deal?.invitationStatus
+  const engagementTimeline = buildEngagementTimeline(invitationStatus, trackingEvents)
+  const currencies = getDealCurrencies(deal?.financialDetails)
+  const responseStats = computeResponseStats(invitationStatus, engagementTimeline)
+  const buyerNames = Object.fromEntries(
+    [
+      ...(statusSummary?.buyersByStatus.active || []),
+      ...(statusSummary?.buyersByStatus.pending || []),
+      ...(statusSummary?.buyersByStatus.rejected || []),
+    ].map((buyer) => [
+      buyer.buyerId,
+      buyer.companyName && buyer.companyName !== "Company not available" ? buyer.companyName : buyer.buyerName,
+    ]),
+  )
+
   const handleLogout = () => {
     logout()
     router.push("/seller/login")
   }
 
+  const applyRewardTier = async (tier: RewardTier) => {
+    if (!deal) return
+
+    try {
+      const updatedDeal = await patchDeal(deal._id, { visibility: tier })
+      setDeal((prev) => (prev ? { ...prev, ...updatedDeal, visibility: tier } : prev))
+      toast({
+        title: "Reward tier updated",
+        description: `This deal is now on the ${REWARD_TIERS[tier].label} tier.`,
+      })
+    } catch (error: any) {
+      console.error("Error updating reward tier:", error)
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update reward tier",
+        variant: "destructive",
+      })
+    } finally {
+      setPendingTier(null)
+    }
+  }
+
+  // Changing tier inside the exclusivity window needs an explicit confirmation
+  const handleRewardTierChange = (tier: RewardTier) => {
+    if (!deal || tier === getRewardTier(deal.visibility)) return
+    if (getExclusivity(deal).active) {
+      setPendingTier(tier)
+    } else {
+      applyRewardTier(tier)
+    }
+  }
+
+  const handleStageChange = async (stage: DealStage) => {
+    if (!deal) return
+    const currentStage = getDealStage(deal)
+    if (!currentStage || !canTransitionStage(currentStage, stage)) return
+
+    try {
+      setUpdatingStage(true)
+      const stageHistory = [...(deal.stageHistory || []), { stage, changedAt: new Date().toISOString() }]
+      const updatedDeal = await patchDeal(deal._id, { stage, stageHistory })
+      setDeal((prev) => (prev ? { ...prev, ...updatedDeal, stage, stageHistory } : prev))
+      toast({
+        title: "Deal stage updated",
+        description: `This deal is now at ${getStageConfig(stage).label}.`,
+      })
+    } catch (error: any) {
+      console.error("Error updating deal stage:", error)
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update deal stage",
+        variant: "destructive",
+      })
+    } finally {
+      setUpdatingStage(false)
+    }
+  }
+
   // Helper functions
   const getBusinessModel = (model: Deal["businessModel"]): string => {
     const models = []
@@ -337,17 +533,6 @@ export default function DealDetailsPage() {
     return "Not specified"
   }
 
-  const formatCurrency = (amount = 0, currency = "USD($)"): string => {
-    const currencySymbol = currency.includes("USD")
-      ? "$"
-      : currency.includes("EUR")
-        ? "€"
-        : currency.includes("GBP")
-          ? "£"
-          : "$"
-    return `${currencySymbol}${amount.toLocaleString()}`
-  }
-
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -356,6 +541,12 @@ export default function DealDetailsPage() {
     })
   }
 
+  // Which invitation wave brought a buyer in; buyers invited by hand have none
+  const formatWave = (buyerId: string): string => {
+    const wave = getBuyerWaveNumber(deal?.invitationWaves, buyerId)
+    return wave ? `Wave ${wave}` : "—"
+  }
+
   const getStatusColor = (status: string): string => {
     if (!status) {
       return "bg-gray-100 text-gray-700"
@@ -378,15 +569,110 @@ export default function DealDetailsPage() {
     }
   }
 
-  const downloadDocument = (doc: DealDocument) => {
-    const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
-    const link = document.createElement("a")
-    link.href = `${apiUrl}/uploads/deal-documents/${doc.filename}`
-    link.download = doc.originalName
-    link.target = "_blank"
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+  const downloadDocument = async (doc: DealDocument) => {
+    if (!deal) return
+
+    try {
+      await downloadDealDocument(deal._id, doc)
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to download document",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Document setting saves still in flight, resolving to the documents the last of them saved
+  const documentUpdatesRef = useRef<Promise<DealDocument[]> | null>(null)
+
+  // Save a document's access or watermark settings, then merge the updated documents into the page. Saves PATCH the
+  // whole documents list, so they run one after another, each built on what the one before it saved; changes that
+  // depend on the document's current settings are passed as a function of the saved document.
+  const handleDocumentChange = (
+    doc: DealDocument,
+    changes: Partial<DealDocument> | ((saved: DealDocument) => Partial<DealDocument>),
+  ) => {
+    if (!deal) return
+
+    const dealId = deal._id
+    const update = (documentUpdatesRef.current || Promise.resolve(deal.documents)).then(async (documents) => {
+      try {
+        const saved = documents.find((item) => item.filename === doc.filename) || doc
+        const resolvedChanges = typeof changes === "function" ? changes(saved) : changes
+        const updatedDeal = await updateDealDocument(dealId, documents, doc.filename, resolvedChanges)
+        const savedDocuments: DealDocument[] = updatedDeal.documents || documents
+        setDeal((prev) => (prev ? { ...prev, documents: savedDocuments } : prev))
+        return savedDocuments
+      } catch (error: any) {
+        toast({
+          title: "Update failed",
+          description: error.message || "Failed to update document settings",
+          variant: "destructive",
+        })
+        return documents
+      }
+    })
+    documentUpdatesRef.current = update
+    update.then(() => {
+      if (documentUpdatesRef.current === update) documentUpdatesRef.current = null
+    })
+  }
+
+  // Open the 1:1 conversation with an active buyer, creating it on first use
+  const handleMessageBuyer = async (buyerId: string) => {
+    if (!deal) return
+
+    try {
+      const conversation = await startConversation(deal._id, buyerId)
+      router.push(`/seller/messages?conversation=${conversation._id}`)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start conversation",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDownloadTeaser = async () => {
+    if (!deal) return
+
+    setTeaserAction("download")
+    try {
+      await downloadDealTeaser(deal._id)
+    } catch (error: any) {
+      toast({
+        title: "Teaser failed",
+        description: error.message || "Failed to generate teaser",
+        variant: "destructive",
+      })
+    } finally {
+      setTeaserAction(null)
+    }
+  }
+
+  // Add the generated teaser to the deal's documents, visible to every invited buyer
+  const handleAttachTeaser = async () => {
+    if (!deal) return
+
+    setTeaserAction("attach")
+    try {
+      const updatedDeal = await attachDealTeaser(deal._id)
+      setDeal((prev) => (prev ? { ...prev, documents: updatedDeal.documents || prev.documents } : prev))
+      toast({
+        title: "Teaser attached",
+        description: "Invited buyers can now download the teaser before signing the NDA.",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Teaser failed",
+        description: error.message || "Failed to attach teaser",
+        variant: "destructive",
+      })
+    } finally {
+      setTeaserAction(null)
+    }
   }
 
   return (
@@ -436,6 +722,29 @@ export default function DealDetailsPage() {
               <span>History</span>
             </Button>
 
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/rewards")}
+            >
+              <Gift className="h-5 w-5" />
+              <span>Rewards</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/messages")}
+            >
+              <MessageSquare className="h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Button>
+
             <Button
               variant="ghost"
               className="w-full justify-start gap-3 font-normal text-red-600 hover:text-red-700 hover:bg-red-50 mt-auto"
@@ -459,6 +768,7 @@ export default function DealDetailsPage() {
             </div>
 
             <div className="flex items-center gap-3">
+              <NotificationBell role="seller" settingsHref="/seller/notifications" />
               <div className="text-right">
                 <div className="font-medium">{userProfile?.fullName || sellerProfile?.fullName || "User"}</div>
                 <div className="text-sm text-gray-500">
@@ -509,8 +819,30 @@ export default function DealDetailsPage() {
               <>
                 {/* Deal Overview */}
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
-                  <div className="p-4 border-b border-gray-200">
+                  <div className="p-4 border-b border-gray-200 flex justify-between items-center">
                     <h2 className="text-xl font-medium text-[#3aafa9]">Deal Details</h2>
+                    {deal.status !== "completed" && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => router.push(`/seller/deal/targeting?id=${deal._id}`)}
+                          className="flex items-center gap-2"
+                        >
+                          <Users className="h-4 w-4" />
+                          Target Buyers
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setIsEditing(true)}
+                          className="flex items-center gap-2"
+                        >
+                          <Pencil className="h-4 w-4" />
+                          Edit Deal
+                        </Button>
+                      </div>
+                    )}
                   </div>
 
                   {/* Overview Section */}
@@ -531,7 +863,7 @@ export default function DealDetailsPage() {
                       </div>
                       <div>
                         <span className="text-gray-500">Geography: </span>
-                        <span>{deal.geographySelection}</span>
+                        <span>{getDealGeographies(deal).join(", ")}</span>
                       </div>
                       <div>
                         <span className="text-gray-500">Number of Years in Business: </span>
@@ -544,6 +876,47 @@ export default function DealDetailsPage() {
                     </div>
                   </div>
 
+                  {/* Deal Stage Section */}
+                  {getDealStage(deal) && (
+                    <div className="p-4 border-b border-gray-200">
+                      <h3 className="text-lg font-medium mb-3">Deal Stage</h3>
+                      <DealStageStepper
+                        stage={getDealStage(deal) as DealStage}
+                        stageHistory={deal.stageHistory}
+                        updating={updatingStage}
+                        onChange={handleStageChange}
+                      />
+                    </div>
+                  )}
+
+                  {/* Reward Tier Section */}
+                  <div className="p-4 border-b border-gray-200">
+                    <div className="flex justify-between items-center mb-3">
+                      <h3 className="text-lg font-medium">Reward Tier</h3>
+                      {deal.status !== "completed" && (
+                        <Select
+                          value={getRewardTier(deal.visibility)}
+                          onValueChange={(value) => handleRewardTierChange(value as RewardTier)}
+                        >
+                          <SelectTrigger className="w-32 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(REWARD_TIERS) as RewardTier[]).map((tier) => (
+                              <SelectItem key={tier} value={tier}>
+                                {REWARD_TIERS[tier].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    <ExclusivityBadge deal={deal} />
+                    <p className="text-sm text-gray-600 mt-2">
+                      {REWARD_TIERS[getRewardTier(deal.visibility)].outreachRule}
+                    </p>
+                  </div>
+
                   {/* Financial Section */}
                   <div className="p-4 border-b border-gray-200">
                     <h3 className="text-lg font-medium mb-3">Financial</h3>
@@ -551,19 +924,13 @@ export default function DealDetailsPage() {
                       <div>
                         <span className="text-gray-500">Trailing 12-Month Revenue: </span>
                         <span>
-                          {formatCurrency(
-                            deal.financialDetails.trailingRevenueAmount,
-                            deal.financialDetails.trailingRevenueCurrency,
-                          )}
+                          {formatCurrency(deal.financialDetails.trailingRevenueAmount, currencies.trailingRevenue)}
                         </span>
                       </div>
                       <div>
                         <span className="text-gray-500">Trailing 12-Month EBITDA: </span>
                         <span>
-                          {formatCurrency(
-                            deal.financialDetails.trailingEBITDAAmount,
-                            deal.financialDetails.trailingRevenueCurrency,
-                          )}
+                          {formatCurrency(deal.financialDetails.trailingEBITDAAmount, currencies.trailingEBITDA)}
                         </span>
                       </div>
                       <div>
@@ -572,21 +939,11 @@ export default function DealDetailsPage() {
                       </div>
                       <div>
                         <span className="text-gray-500">Net Income: </span>
-                        <span>
-                          {formatCurrency(
-                            deal.financialDetails.netIncome,
-                            deal.financialDetails.trailingRevenueCurrency,
-                          )}
-                        </span>
+                        <span>{formatCurrency(deal.financialDetails.netIncome, currencies.netIncome)}</span>
                       </div>
                       <div>
                         <span className="text-gray-500">Asking Price: </span>
-                        <span>
-                          {formatCurrency(
-                            deal.financialDetails.askingPrice,
-                            deal.financialDetails.trailingRevenueCurrency,
-                          )}
-                        </span>
+                        <span>{formatCurrency(deal.financialDetails.askingPrice, currencies.askingPrice)}</span>
                       </div>
                       <div>
                         <span className="text-gray-500">Business Model: </span>
@@ -599,31 +956,139 @@ export default function DealDetailsPage() {
                     </div>
                   </div>
 
+                  {/* Valuation Section */}
+                  <div className="p-4 border-b border-gray-200">
+                    <h3 className="text-lg font-medium mb-3">Valuation</h3>
+                    <ValuationPanel
+                      amounts={getValuationAmounts(deal.financialDetails)}
+                      sector={deal.industrySector}
+                      role="seller"
+                    />
+                  </div>
+
                   {/* Documents Section */}
                   <div className="p-4">
-                    <h3 className="text-lg font-medium mb-3">Documents</h3>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                      <h3 className="text-lg font-medium">Documents</h3>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleDownloadTeaser}
+                          disabled={teaserAction !== null}
+                          className="flex items-center gap-1"
+                        >
+                          <Download className="h-3 w-3" />
+                          {teaserAction === "download" ? "Generating..." : "Download Teaser PDF"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={handleAttachTeaser}
+                          disabled={teaserAction !== null}
+                          className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white"
+                        >
+                          {teaserAction === "attach" ? "Attaching..." : "Attach as Teaser Document"}
+                        </Button>
+                      </div>
+                    </div>
                     {deal.documents && deal.documents.length > 0 ? (
                       <div className="space-y-2">
-                        {deal.documents.map((doc, index) => (
-                          <div
-                            key={index}
-                            className="flex items-center justify-between p-2 border border-gray-200 rounded"
-                          >
-                            <div className="flex items-center gap-2">
-                              <FileText className="h-4 w-4 text-gray-500" />
-                              <span className="text-sm">{doc.originalName}</span>
-                              <span className="text-xs text-gray-400">({(doc.size / 1024 / 1024).toFixed(2)} MB)</span>
+                        {deal.documents.map((doc, index) => {
+                          const accessTier = getDocumentAccessTier(doc)
+                          const allowedBuyerIds = doc.allowedBuyerIds || []
+
+                          return (
+                            <div key={index} className="p-2 border border-gray-200 rounded">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-2">
+                                  <FileText className="h-4 w-4 text-gray-500" />
+                                  <span className="text-sm">{doc.originalName}</span>
+                                  <span className="text-xs text-gray-400">
+                                    ({(doc.size / 1024 / 1024).toFixed(2)} MB)
+                                  </span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Select
+                                    value={accessTier}
+                                    onValueChange={(value) =>
+                                      handleDocumentChange(doc, { accessTier: value as DocumentAccessTier })
+                                    }
+                                  >
+                                    <SelectTrigger className="h-8 w-40 text-xs">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {DOCUMENT_ACCESS_TIERS.map((tier) => (
+                                        <SelectItem key={tier.value} value={tier.value}>
+                                          {tier.label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => downloadDocument(doc)}
+                                    className="flex items-center gap-1"
+                                  >
+                                    <Download className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              </div>
+                              <div className="flex items-center justify-between mt-1">
+                                <p className="text-xs text-gray-500">
+                                  {DOCUMENT_ACCESS_TIERS.find((tier) => tier.value === accessTier)?.description}
+                                </p>
+                                {doc.mimetype === "application/pdf" && (
+                                  <div className="flex items-center gap-2">
+                                    <Switch
+                                      id={`doc-${index}-watermark`}
+                                      checked={!!doc.watermark}
+                                      onCheckedChange={(checked) => handleDocumentChange(doc, { watermark: checked })}
+                                    />
+                                    <label htmlFor={`doc-${index}-watermark`} className="text-xs text-gray-600">
+                                      Watermark for buyers
+                                    </label>
+                                  </div>
+                                )}
+                              </div>
+
+                              {accessTier === "selected" && (
+                                <div className="mt-2 pl-6 space-y-1">
+                                  {statusSummary?.buyersByStatus.active.length ? (
+                                    statusSummary.buyersByStatus.active.map((buyer) => (
+                                      <div key={buyer.buyerId} className="flex items-center gap-2">
+                                        <Checkbox
+                                          id={`doc-${index}-buyer-${buyer.buyerId}`}
+                                          checked={allowedBuyerIds.includes(buyer.buyerId)}
+                                          onCheckedChange={(checked) =>
+                                            handleDocumentChange(doc, (saved) => {
+                                              const savedBuyerIds = (saved.allowedBuyerIds || []).filter(
+                                                (id) => id !== buyer.buyerId,
+                                              )
+                                              return {
+                                                allowedBuyerIds: checked
+                                                  ? [...savedBuyerIds, buyer.buyerId]
+                                                  : savedBuyerIds,
+                                              }
+                                            })
+                                          }
+                                        />
+                                        <label htmlFor={`doc-${index}-buyer-${buyer.buyerId}`} className="text-sm">
+                                          {buyer.companyName} ({buyer.buyerName})
+                                        </label>
+                                      </div>
+                                    ))
+                                  ) : (
+                                    <p className="text-xs text-gray-500">
+                                      No active buyers yet. Buyers appear here once they accept the deal.
+                                    </p>
+                                  )}
+                                </div>
+                              )}
                             </div>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => downloadDocument(doc)}
-                              className="flex items-center gap-1"
-                            >
-                              <Download className="h-3 w-3" />
-                            </Button>
-                          </div>
-                        ))}
+                          )
+                        })}
                       </div>
                     ) : (
                       <div className="border border-dashed border-[#3aafa9] rounded-md p-3 text-center text-gray-500">
@@ -692,7 +1157,9 @@ export default function DealDetailsPage() {
                                     <th className="pb-3 font-medium text-gray-600">Buyer</th>
                                     <th className="pb-3 font-medium text-gray-600">Company</th>
                                     <th className="pb-3 font-medium text-gray-600">Status</th>
+                                    <th className="pb-3 font-medium text-gray-600">Wave</th>
                                     <th className="pb-3 font-medium text-gray-600">Date</th>
+                                    <th className="pb-3 font-medium text-gray-600"></th>
                                   </tr>
                                 </thead>
                                 <tbody>
@@ -732,7 +1199,19 @@ export default function DealDetailsPage() {
                                           {buyer.status}
                                         </span>
                                       </td>
+                                      <td className="py-4">{formatWave(buyer.buyerId)}</td>
                                       <td className="py-4">{formatDate(buyer.invitedAt)}</td>
+                                      <td className="py-4">
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => handleMessageBuyer(buyer.buyerId)}
+                                          className="flex items-center gap-1"
+                                        >
+                                          <MessageSquare className="h-3 w-3" />
+                                          Message
+                                        </Button>
+                                      </td>
                                     </tr>
                                   ))}
                                 </tbody>
@@ -752,6 +1231,7 @@ export default function DealDetailsPage() {
                                     <th className="pb-3 font-medium text-gray-600">Buyer</th>
                                     <th className="pb-3 font-medium text-gray-600">Company</th>
                                     <th className="pb-3 font-medium text-gray-600">Status</th>
+                                    <th className="pb-3 font-medium text-gray-600">Wave</th>
                                     <th className="pb-3 font-medium text-gray-600">Date</th>
                                   </tr>
                                 </thead>
@@ -792,6 +1272,7 @@ export default function DealDetailsPage() {
                                           {buyer.status}
                                         </span>
                                       </td>
+                                      <td className="py-4">{formatWave(buyer.buyerId)}</td>
                                       <td className="py-4">{formatDate(buyer.invitedAt)}</td>
                                     </tr>
                                   ))}
@@ -812,6 +1293,7 @@ export default function DealDetailsPage() {
                                     <th className="pb-3 font-medium text-gray-600">Buyer</th>
                                     <th className="pb-3 font-medium text-gray-600">Company</th>
                                     <th className="pb-3 font-medium text-gray-600">Status</th>
+                                    <th className="pb-3 font-medium text-gray-600">Wave</th>
                                     <th className="pb-3 font-medium text-gray-600">Date</th>
                                   </tr>
                                 </thead>
@@ -852,6 +1334,7 @@ export default function DealDetailsPage() {
                                           {buyer.status}
                                         </span>
                                       </td>
+                                      <td className="py-4">{formatWave(buyer.buyerId)}</td>
                                       <td className="py-4">{formatDate(buyer.invitedAt)}</td>
                                     </tr>
                                   ))}
@@ -887,6 +1370,48 @@ export default function DealDetailsPage() {
                     )}
                   </div>
                 </div>
+
+                {/* Buyer Questions */}
+                <div className="bg-white rounded-lg shadow mb-6">
+                  <div className="p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-medium">
+                      Buyer Questions
+                      {countUnansweredQuestions(questions) > 0 && (
+                        <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                          {countUnansweredQuestions(questions)} unanswered
+                        </span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Answer privately to the buyer who asked, or share the answer with every active buyer.
+                    </p>
+                  </div>
+                  <div className="p-6">
+                    <SellerDealQuestions
+                      dealId={deal._id}
+                      questions={questions}
+                      onAnswered={(answered) =>
+                        setQuestions((prev) =>
+                          prev.map((question) => (question._id === answered._id ? answered : question)),
+                        )
+                      }
+                    />
+                  </div>
+                </div>
+
+                {/* Buyer Engagement */}
+                <div className="bg-white rounded-lg shadow mb-6">
+                  <div className="p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-medium">Buyer Engagement</h3>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Every invitation, view, response and download on this deal, with response times across the buyer
+                      pool.
+                    </p>
+                  </div>
+                  <div className="p-6">
+                    <EngagementTimeline timeline={engagementTimeline} stats={responseStats} buyerNames={buyerNames} />
+                  </div>
+                </div>
               </>
             ) : (
               <div className="bg-white rounded-lg shadow p-6 text-center">
@@ -897,6 +1422,28 @@ export default function DealDetailsPage() {
           </div>
         </div>
       </div>
+      <Dialog open={!!pendingTier} onOpenChange={(open) => !open && setPendingTier(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Change reward tier?</DialogTitle>
+          </DialogHeader>
+          {deal && <ExclusivityWarning deal={deal} action="Changing the reward tier" />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingTier(null)}>
+              Keep {REWARD_TIERS[getRewardTier(deal?.visibility)].label}
+            </Button>
+            <Button
+              className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
+              onClick={() => pendingTier && applyRewardTier(pendingTier)}
+            >
+              Switch to {pendingTier ? REWARD_TIERS[pendingTier].label : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {isEditing && deal && (
+        <DealForm initialData={deal} onClose={() => setIsEditing(false)} onSubmit={handleEditSubmit} />
+      )}
       <Toaster />
     </SellerProtectedRoute>
   )
@@ -0,0 +1,352 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { Eye, Clock, LogOut, ArrowLeft, Gift, MessageSquare } from "lucide-react"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Toaster } from "@/components/ui/toaster"
+import { toast } from "@/components/ui/use-toast"
+import BuyerTargeting from "@/components/seller/buyer-targeting"
+import InvitationWaves from "@/components/seller/invitation-waves"
+import { fetchMatchingBuyers } from "@/services/deal-api"
+import { REWARD_TIERS, getRewardTier } from "@/lib/reward-tiers"
+import type { InvitationWave, MatchedBuyer } from "@/types/deal"
+import { useAuth } from "@/contexts/auth-context"
+import SellerProtectedRoute from "@/components/seller/protected-route"
+
+interface SellerProfile {
+  _id: string
+  fullName: string
+  email: string
+  companyName: string
+  role: string
+  profilePicture: string | null
+}
+
+interface TargetingDeal {
+  _id: string
+  title: string
+  status: string
+  targetedBuyers?: string[]
+  invitationStatus?: Record<string, { invitedAt: string; response?: string }>
+  invitationWaves?: InvitationWave[]
+  visibility?: string
+}
+
+export default function DealTargetingPage() {
+  const [deal, setDeal] = useState<TargetingDeal | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [sellerProfile, setSellerProfile] = useState<SellerProfile | null>(null)
+  const [buyers, setBuyers] = useState<MatchedBuyer[]>([])
+  const [loadingBuyers, setLoadingBuyers] = useState(true)
+
+  const router = useRouter()
+  const unreadMessages = useUnreadMessages()
+  const searchParams = useSearchParams()
+  const { logout } = useAuth()
+  const dealId = searchParams.get("id")
+
+  // Fetch seller profile
+  useEffect(() => {
+    const fetchSellerProfile = async () => {
+      try {
+        const token = localStorage.getItem("token")
+        const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+        const response = await fetch(`${apiUrl}/sellers/profile`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+        })
+
+        if (response.ok) {
+          setSellerProfile(await response.json())
+        }
+      } catch (error) {
+        console.error("Error fetching seller profile:", error)
+      }
+    }
+    fetchSellerProfile()
+  }, [])
+
+  // Fetch the deal so already-invited buyers can be marked
+  useEffect(() => {
+    if (!dealId) {
+      router.push("/seller/dashboard")
+      return
+    }
+
+    const fetchDeal = async () => {
+      try {
+        setLoading(true)
+        const token = localStorage.getItem("token")
+        const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+        if (!token) {
+          router.push("/seller/login?error=no_token")
+          return
+        }
+
+        const response = await fetch(`${apiUrl}/deals/${dealId}`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+        })
+
+        if (!response.ok) {
+          throw new Error(`API Error: ${response.status} ${response.statusText}`)
+        }
+
+        setDeal(await response.json())
+        setError(null)
+      } catch (err: any) {
+        console.error("Error fetching deal:", err)
+        setError(err.message || "Failed to load deal")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDeal()
+  }, [dealId, router])
+
+  // Fetch the buyers matched to this deal
+  useEffect(() => {
+    if (!dealId) return
+
+    const loadBuyers = async () => {
+      try {
+        setLoadingBuyers(true)
+        setBuyers(await fetchMatchingBuyers(dealId))
+      } catch (error: any) {
+        console.error("Error fetching matching buyers:", error)
+        toast({
+          title: "Error loading buyers",
+          description: error.message || "Failed to load matching buyers. Please try again.",
+          variant: "destructive",
+        })
+      } finally {
+        setLoadingBuyers(false)
+      }
+    }
+
+    loadBuyers()
+  }, [dealId])
+
+  const invitedBuyerIds = deal
+    ? Array.from(new Set([...(deal.targetedBuyers || []), ...Object.keys(deal.invitationStatus || {})]))
+    : []
+
+  // Mark newly invited buyers without refetching the deal
+  const handleInvited = (buyerIds: string[]) => {
+    setDeal((prev) =>
+      prev ? { ...prev, targetedBuyers: Array.from(new Set([...(prev.targetedBuyers || []), ...buyerIds])) } : prev,
+    )
+  }
+
+  // Sent waves mean their buyers are now invited too
+  const handleWavesChange = (waves: InvitationWave[]) => {
+    const sentBuyerIds = waves.filter((wave) => wave.status === "sent").flatMap((wave) => wave.buyerIds)
+    setDeal((prev) =>
+      prev
+        ? {
+            ...prev,
+            invitationWaves: waves,
+            targetedBuyers: Array.from(new Set([...(prev.targetedBuyers || []), ...sentBuyerIds])),
+          }
+        : prev,
+    )
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/seller/login")
+  }
+
+  return (
+    <SellerProtectedRoute>
+      <div className="flex min-h-screen bg-gray-50">
+        {/* Sidebar */}
+        <div className="w-64 bg-white border-r border-gray-200 p-6 flex flex-col">
+          <div className="mb-8">
+            <Link href="/seller/dashboard">
+              <Image src="/logo.svg" alt="CIM Amplify Logo" width={150} height={50} className="h-auto" />
+            </Link>
+          </div>
+
+          <nav className="flex-1 space-y-6">
+            <Button
+              variant="secondary"
+              className="w-full justify-start gap-3 font-normal bg-teal-100 text-teal-700 hover:bg-teal-200"
+              onClick={() => router.push("/seller/dashboard")}
+            >
+              <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path
+                  d="M16.5 6L12 1.5L7.5 6M3.75 8.25H20.25M5.25 8.25V19.5C5.25 19.9142 5.58579 20.25 6 20.25H18C18.4142 20.25 18.75 19.9142 18.75 19.5V8.25"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+              <span>My Deals</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/view-profile")}
+            >
+              <Eye className="h-5 w-5" />
+              <span>View Profile</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/history")}
+            >
+              <Clock className="h-5 w-5" />
+              <span>History</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/rewards")}
+            >
+              <Gift className="h-5 w-5" />
+              <span>Rewards</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/messages")}
+            >
+              <MessageSquare className="h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal text-red-600 hover:text-red-700 hover:bg-red-50 mt-auto"
+              onClick={handleLogout}
+            >
+              <LogOut className="h-5 w-5" />
+              <span>Sign Out</span>
+            </Button>
+          </nav>
+        </div>
+
+        {/* Main content */}
+        <div className="flex-1">
+          {/* Header */}
+          <header className="bg-white border-b border-gray-200 p-6 flex justify-between items-center">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="mr-4"
+                onClick={() => router.push(dealId ? `/seller/deal?id=${dealId}` : "/seller/dashboard")}
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">Target Buyers</h1>
+                {deal && <p className="text-sm text-gray-500">{deal.title}</p>}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <div className="text-right">
+                <div className="font-medium">{sellerProfile?.fullName || "User"}</div>
+                <div className="text-sm text-gray-500">{sellerProfile?.companyName || "Company"}</div>
+              </div>
+              <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center text-white font-medium overflow-hidden">
+                {sellerProfile?.profilePicture ? (
+                  <img
+                    src={sellerProfile.profilePicture}
+                    alt={sellerProfile?.fullName}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  (sellerProfile?.fullName || "U").charAt(0)
+                )}
+              </div>
+            </div>
+          </header>
+
+          <div className="p-6">
+            {loading ? (
+              <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                <Skeleton className="h-8 w-1/3" />
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            ) : error || !deal ? (
+              <div className="bg-white rounded-lg shadow p-6 text-center">
+                <div className="text-red-500 text-lg mb-2">Error loading deal</div>
+                <p className="text-gray-600 mb-4">{error || "Deal not found"}</p>
+                <Button onClick={() => router.push("/seller/dashboard")}>Back to Dashboard</Button>
+              </div>
+            ) : (
+              <>
+                <div className="bg-white rounded-lg shadow mb-6">
+                  <div className="p-6 border-b border-gray-200">
+                    <h2 className="text-lg font-medium">Invitation Waves</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Invite the best-fit buyers first and open the deal to more buyers later. Scheduled waves go out
+                      automatically once their trigger is met.
+                    </p>
+                  </div>
+                  <div className="p-6">
+                    <InvitationWaves
+                      dealId={deal._id}
+                      buyers={buyers}
+                      invitedBuyerIds={invitedBuyerIds}
+                      waves={deal.invitationWaves || []}
+                      scheduledOutreach={REWARD_TIERS[getRewardTier(deal.visibility)].scheduledOutreach}
+                      onWavesChange={handleWavesChange}
+                    />
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow">
+                  <div className="p-6 border-b border-gray-200">
+                    <h2 className="text-lg font-medium">Matched Buyers</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Buyers matched to this deal, with how they score on each criterion. Invites go to this deal only.
+                    </p>
+                  </div>
+                  <div className="p-6">
+                    <BuyerTargeting
+                      dealId={deal._id}
+                      buyers={buyers}
+                      loading={loadingBuyers}
+                      invitedBuyerIds={invitedBuyerIds}
+                      onInvited={handleInvited}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+      <Toaster />
+    </SellerProtectedRoute>
+  )
+}
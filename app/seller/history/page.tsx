@@ -3,12 +3,19 @@
 import type React from "react"
 
 import { useState, useEffect, useRef } from "react"
-import { Search, Eye, Clock, Settings, LogOut, Pencil, Check, X } from "lucide-react"
+import { Search, Eye, Clock, Settings, LogOut, Pencil, Check, X, Gift, Download, MessageSquare } from "lucide-react"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { toast } from "@/components/ui/use-toast"
+import { Toaster } from "@/components/ui/toaster"
 import Image from "next/image"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
+import { buildHistoryCsv, buildHistoryExportRows, buildHistoryXlsx, type HistoryDeal } from "@/lib/deal-history-export"
+import { buildTrackRecordPdf } from "@/lib/track-record"
+import { saveFile } from "@/lib/utils"
 
 interface Deal {
   id: string
@@ -65,6 +72,9 @@ export default function DealsHistoryPage() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [deals, setDeals] = useState<Deal[]>([])
+  // Raw API deals, kept for exports that need the full financial details and timeline
+  const [completedDeals, setCompletedDeals] = useState<HistoryDeal[]>([])
+  const [isExporting, setIsExporting] = useState(false)
   const [isLoadingDeals, setIsLoadingDeals] = useState(true)
   const [dealsError, setDealsError] = useState<string | null>(null)
 
@@ -134,6 +144,7 @@ export default function DealsHistoryPage() {
               : "N/A",
           }))
           setDeals(mappedDeals)
+          setCompletedDeals(data)
         } else {
           setDealsError("Failed to fetch deals")
         }
@@ -153,8 +164,43 @@ export default function DealsHistoryPage() {
       (deal.description?.toLowerCase() || "").includes(searchTerm.toLowerCase()),
   )
 
+  type ExportFormat = "csv" | "xlsx" | "pdf"
+
+  // Exports follow the current search so advisors can pull a subset
+  const handleExport = async (format: ExportFormat) => {
+    const visibleIds = new Set(filteredDeals.map((deal) => deal.id))
+    const exportDeals = completedDeals.filter((deal) => visibleIds.has(deal._id))
+    const filename = `cim-amplify-deal-history-${new Date().toISOString().slice(0, 10)}`
+
+    try {
+      setIsExporting(true)
+      if (format === "csv") {
+        saveFile(buildHistoryCsv(buildHistoryExportRows(exportDeals)), `${filename}.csv`, "text/csv;charset=utf-8")
+      } else if (format === "xlsx") {
+        saveFile(
+          await buildHistoryXlsx(buildHistoryExportRows(exportDeals)),
+          `${filename}.xlsx`,
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        )
+      } else {
+        const pdf = await buildTrackRecordPdf(exportDeals, sellerProfile || {})
+        saveFile(pdf, `cim-amplify-track-record-${new Date().toISOString().slice(0, 10)}.pdf`, "application/pdf")
+      }
+    } catch (error: any) {
+      console.error("Export failed:", error)
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to export deal history",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   // Add router hook at the top of the component
   const router = useRouter()
+  const unreadMessages = useUnreadMessages()
 
   // Add handleLogout function
   const handleLogout = () => {
@@ -275,6 +321,27 @@ export default function DealsHistoryPage() {
             <span>History</span>
           </Button>
 
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-3 font-normal text-gray-600 hover:text-gray-900"
+            onClick={() => router.push("/seller/rewards")}
+          >
+            <Gift className="h-5 w-5" />
+            <span>Rewards</span>
+          </Button>
+
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-3 font-normal"
+            onClick={() => router.push("/seller/messages")}
+          >
+            <MessageSquare className="h-5 w-5" />
+            <span>Messages</span>
+            {unreadMessages > 0 && (
+              <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">{unreadMessages}</span>
+            )}
+          </Button>
+
           <Button
             variant="ghost"
             className="w-full justify-start gap-3 font-normal text-gray-600 hover:text-gray-900"
@@ -398,6 +465,24 @@ export default function DealsHistoryPage() {
             </div>
           ) : (
             <>
+              {filteredDeals.length > 0 && (
+                <div className="flex justify-end mb-4">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" disabled={isExporting} className="flex items-center gap-2">
+                        <Download className="h-4 w-4" />
+                        {isExporting ? "Exporting..." : "Export"}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleExport("csv")}>CSV spreadsheet</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport("xlsx")}>Excel workbook (XLSX)</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport("pdf")}>Track record (PDF)</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {filteredDeals.map((deal) => (
                   <DealCard key={deal.id} deal={deal} />
@@ -419,6 +504,7 @@ export default function DealsHistoryPage() {
           )}
         </main>
       </div>
+      <Toaster />
     </div>
   )
 }
@@ -0,0 +1,182 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { Eye, Clock, LogOut, Gift, MessageSquare, Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Toaster } from "@/components/ui/toaster"
+import { useAuth } from "@/contexts/auth-context"
+import SellerProtectedRoute from "@/components/seller/protected-route"
+import NotificationPreferencesForm from "@/components/notifications/notification-preferences"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
+
+interface SellerProfile {
+  _id: string
+  fullName: string
+  email: string
+  companyName: string
+  role: string
+  profilePicture: string | null
+}
+
+export default function SellerNotificationsPage() {
+  const [sellerProfile, setSellerProfile] = useState<SellerProfile | null>(null)
+
+  const router = useRouter()
+  const { logout } = useAuth()
+  const unreadMessages = useUnreadMessages()
+
+  // Fetch seller profile
+  useEffect(() => {
+    const fetchSellerProfile = async () => {
+      try {
+        const token = localStorage.getItem("token")
+        const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+        const response = await fetch(`${apiUrl}/sellers/profile`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+        })
+
+        if (response.ok) {
+          setSellerProfile(await response.json())
+        }
+      } catch (error) {
+        console.error("Error fetching seller profile:", error)
+      }
+    }
+    fetchSellerProfile()
+  }, [])
+
+  const handleLogout = () => {
+    logout()
+    router.push("/seller/login")
+  }
+
+  return (
+    <SellerProtectedRoute>
+      <div className="flex min-h-screen bg-gray-50">
+        {/* Sidebar */}
+        <div className="w-64 bg-white border-r border-gray-200 p-6 flex flex-col">
+          <div className="mb-8">
+            <Link href="/seller/dashboard">
+              <Image src="/logo.svg" alt="CIM Amplify Logo" width={150} height={50} className="h-auto" />
+            </Link>
+          </div>
+
+          <nav className="flex-1 space-y-6">
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/dashboard")}
+            >
+              <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path
+                  d="M16.5 6L12 1.5L7.5 6M3.75 8.25H20.25M5.25 8.25V19.5C5.25 19.9142 5.58579 20.25 6 20.25H18C18.4142 20.25 18.75 19.9142 18.75 19.5V8.25"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+              <span>My Deals</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/view-profile")}
+            >
+              <Eye className="h-5 w-5" />
+              <span>View Profile</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/history")}
+            >
+              <Clock className="h-5 w-5" />
+              <span>History</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/rewards")}
+            >
+              <Gift className="h-5 w-5" />
+              <span>Rewards</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/messages")}
+            >
+              <MessageSquare className="h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Button>
+
+            <Button
+              variant="secondary"
+              className="w-full justify-start gap-3 font-normal bg-teal-100 text-teal-700 hover:bg-teal-200"
+            >
+              <Bell className="h-5 w-5" />
+              <span>Notifications</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal text-red-600 hover:text-red-700 hover:bg-red-50 mt-auto"
+              onClick={handleLogout}
+            >
+              <LogOut className="h-5 w-5" />
+              <span>Sign Out</span>
+            </Button>
+          </nav>
+        </div>
+
+        {/* Main content */}
+        <div className="flex-1">
+          {/* Header */}
+          <header className="bg-white border-b border-gray-200 p-6 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-800">Notification Settings</h1>
+
+            <div className="flex items-center gap-3">
+              <div className="text-right">
+                <div className="font-medium">{sellerProfile?.fullName || "User"}</div>
+                <div className="text-sm text-gray-500">{sellerProfile?.companyName || "Company"}</div>
+              </div>
+              <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center text-white font-medium overflow-hidden">
+                {sellerProfile?.profilePicture ? (
+                  <img
+                    src={sellerProfile.profilePicture}
+                    alt={sellerProfile?.fullName}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  (sellerProfile?.fullName || "U").charAt(0)
+                )}
+              </div>
+            </div>
+          </header>
+
+          <div className="p-6">
+            <NotificationPreferencesForm role="seller" />
+          </div>
+        </div>
+      </div>
+      <Toaster />
+    </SellerProtectedRoute>
+  )
+}
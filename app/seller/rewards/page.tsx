@@ -0,0 +1,360 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { Eye, Clock, LogOut, Gift, Download, MessageSquare } from "lucide-react"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "@/components/ui/use-toast"
+import { Toaster } from "@/components/ui/toaster"
+import { useAuth } from "@/contexts/auth-context"
+import SellerProtectedRoute from "@/components/seller/protected-route"
+import { REWARD_TIERS } from "@/lib/reward-tiers"
+import {
+  buildRewardsLedger,
+  formatRewardAmount,
+  getLedgerTotals,
+  type LedgerDeal,
+  type LedgerEntry,
+  type RewardPayoutStatus,
+} from "@/lib/rewards-ledger"
+import { buildRewardsStatementPdf } from "@/lib/rewards-statement"
+import { saveFile } from "@/lib/utils"
+
+interface SellerProfile {
+  _id: string
+  fullName: string
+  email: string
+  companyName: string
+  role: string
+  profilePicture: string | null
+}
+
+const PAYOUT_STYLES: Record<RewardPayoutStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  paid: "bg-green-100 text-green-800",
+}
+
+export default function SellerRewardsPage() {
+  const [entries, setEntries] = useState<LedgerEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [sellerProfile, setSellerProfile] = useState<SellerProfile | null>(null)
+  const [downloading, setDownloading] = useState(false)
+
+  const router = useRouter()
+  const unreadMessages = useUnreadMessages()
+  const { logout } = useAuth()
+
+  // Fetch seller profile
+  useEffect(() => {
+    const fetchSellerProfile = async () => {
+      try {
+        const token = localStorage.getItem("token")
+        const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+        const response = await fetch(`${apiUrl}/sellers/profile`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+        })
+
+        if (response.ok) {
+          setSellerProfile(await response.json())
+        }
+      } catch (error) {
+        console.error("Error fetching seller profile:", error)
+      }
+    }
+    fetchSellerProfile()
+  }, [])
+
+  // Posted deals earn the gift card; completed deals carry the sale price and buyer source for bonuses
+  useEffect(() => {
+    const fetchLedgerDeals = async () => {
+      try {
+        setLoading(true)
+        const token = localStorage.getItem("token")
+        const apiUrl = localStorage.getItem("apiUrl") || "https://api.cimamplify.com"
+
+        if (!token) {
+          router.push("/seller/login?error=no_token")
+          return
+        }
+
+        const headers = {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        }
+        const [myDealsResponse, completedResponse] = await Promise.all([
+          fetch(`${apiUrl}/deals/my-deals`, { headers }),
+          fetch(`${apiUrl}/deals/completed`, { headers }),
+        ])
+
+        if (!myDealsResponse.ok && !completedResponse.ok) {
+          throw new Error(`API Error: ${myDealsResponse.status} ${myDealsResponse.statusText}`)
+        }
+
+        const myDeals: LedgerDeal[] = myDealsResponse.ok ? await myDealsResponse.json() : []
+        const completedDeals: LedgerDeal[] = completedResponse.ok ? await completedResponse.json() : []
+        setEntries(buildRewardsLedger([...myDeals, ...completedDeals]))
+        setError(null)
+      } catch (err: any) {
+        console.error("Error fetching rewards:", err)
+        setError(err.message || "Failed to load rewards")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchLedgerDeals()
+  }, [router])
+
+  const totals = getLedgerTotals(entries)
+
+  const handleDownloadStatement = async () => {
+    try {
+      setDownloading(true)
+      const pdf = await buildRewardsStatementPdf(entries, totals, sellerProfile || {})
+      saveFile(pdf, `cim-amplify-rewards-${new Date().toISOString().slice(0, 10)}.pdf`, "application/pdf")
+    } catch (error: any) {
+      console.error("Error generating statement:", error)
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to generate rewards statement",
+        variant: "destructive",
+      })
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/seller/login")
+  }
+
+  const renderStatus = (status: RewardPayoutStatus | null) =>
+    status ? (
+      <span className={`px-3 py-1 rounded-full text-xs capitalize ${PAYOUT_STYLES[status]}`}>{status}</span>
+    ) : (
+      <span className="text-gray-400">—</span>
+    )
+
+  return (
+    <SellerProtectedRoute>
+      <div className="flex min-h-screen bg-gray-50">
+        {/* Sidebar */}
+        <div className="w-64 bg-white border-r border-gray-200 p-6 flex flex-col">
+          <div className="mb-8">
+            <Link href="/seller/dashboard">
+              <Image src="/logo.svg" alt="CIM Amplify Logo" width={150} height={50} className="h-auto" />
+            </Link>
+          </div>
+
+          <nav className="flex-1 space-y-6">
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/dashboard")}
+            >
+              <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path
+                  d="M16.5 6L12 1.5L7.5 6M3.75 8.25H20.25M5.25 8.25V19.5C5.25 19.9142 5.58579 20.25 6 20.25H18C18.4142 20.25 18.75 19.9142 18.75 19.5V8.25"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+              <span>My Deals</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/view-profile")}
+            >
+              <Eye className="h-5 w-5" />
+              <span>View Profile</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/history")}
+            >
+              <Clock className="h-5 w-5" />
+              <span>History</span>
+            </Button>
+
+            <Button
+              variant="secondary"
+              className="w-full justify-start gap-3 font-normal bg-teal-100 text-teal-700 hover:bg-teal-200"
+            >
+              <Gift className="h-5 w-5" />
+              <span>Rewards</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/messages")}
+            >
+              <MessageSquare className="h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal text-red-600 hover:text-red-700 hover:bg-red-50 mt-auto"
+              onClick={handleLogout}
+            >
+              <LogOut className="h-5 w-5" />
+              <span>Sign Out</span>
+            </Button>
+          </nav>
+        </div>
+
+        {/* Main content */}
+        <div className="flex-1">
+          {/* Header */}
+          <header className="bg-white border-b border-gray-200 p-6 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-800">Rewards</h1>
+
+            <div className="flex items-center gap-3">
+              <div className="text-right">
+                <div className="font-medium">{sellerProfile?.fullName || "User"}</div>
+                <div className="text-sm text-gray-500">{sellerProfile?.companyName || "Company"}</div>
+              </div>
+              <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center text-white font-medium overflow-hidden">
+                {sellerProfile?.profilePicture ? (
+                  <img
+                    src={sellerProfile.profilePicture}
+                    alt={sellerProfile?.fullName}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  (sellerProfile?.fullName || "U").charAt(0)
+                )}
+              </div>
+            </div>
+          </header>
+
+          <div className="p-6 space-y-6">
+            {loading ? (
+              <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                <Skeleton className="h-8 w-1/3" />
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            ) : error ? (
+              <div className="bg-white rounded-lg shadow p-6 text-center">
+                <div className="text-red-500 text-lg mb-2">Error loading rewards</div>
+                <p className="text-gray-600 mb-4">{error}</p>
+                <Button onClick={() => window.location.reload()} variant="outline">
+                  Try Again
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {[
+                    { label: "Total earned", value: totals.earned },
+                    { label: "Paid", value: totals.paid },
+                    { label: "Pending", value: totals.pending },
+                  ].map((card) => (
+                    <div key={card.label} className="bg-white rounded-lg shadow p-6">
+                      <div className="text-sm text-gray-500">{card.label}</div>
+                      <div className="text-2xl font-semibold">{formatRewardAmount(card.value)}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="bg-white rounded-lg shadow">
+                  <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+                    <div>
+                      <h2 className="text-lg font-medium">Rewards Ledger</h2>
+                      <p className="text-sm text-gray-500 mt-1">
+                        A gift card for every deal you post, plus a bonus per full $1M of transaction value when a Bloom
+                        or Fruit deal sells to a buyer from CIM Amplify.
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={handleDownloadStatement}
+                      disabled={downloading}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      {downloading ? "Preparing..." : "Download Statement"}
+                    </Button>
+                  </div>
+
+                  <div className="p-6 overflow-x-auto">
+                    {entries.length === 0 ? (
+                      <div className="text-center py-6 text-gray-500">Post a deal to start earning rewards.</div>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left border-b border-gray-200">
+                            <th className="pb-3 font-medium text-gray-600">Deal</th>
+                            <th className="pb-3 font-medium text-gray-600">Tier</th>
+                            <th className="pb-3 font-medium text-gray-600">Final Sale Price</th>
+                            <th className="pb-3 font-medium text-gray-600">Gift Card</th>
+                            <th className="pb-3 font-medium text-gray-600">Status</th>
+                            <th className="pb-3 font-medium text-gray-600">Transaction Bonus</th>
+                            <th className="pb-3 font-medium text-gray-600">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {entries.map((entry) => (
+                            <tr key={entry.dealId} className="border-b border-gray-100">
+                              <td className="py-4">
+                                <p className="font-medium">{entry.title}</p>
+                                <p className="text-xs text-gray-500">
+                                  {entry.closedAt
+                                    ? `Closed ${new Date(entry.closedAt).toLocaleDateString()}`
+                                    : entry.postedAt
+                                      ? `Posted ${new Date(entry.postedAt).toLocaleDateString()}`
+                                      : ""}
+                                </p>
+                              </td>
+                              <td className="py-4">{REWARD_TIERS[entry.tier].label}</td>
+                              <td className="py-4">
+                                {entry.finalSalePrice ? `$${entry.finalSalePrice.toLocaleString()}` : "—"}
+                                {entry.closedAt && !entry.buyerFromCIM && (
+                                  <p className="text-xs text-gray-500">Buyer not from CIM Amplify</p>
+                                )}
+                              </td>
+                              <td className="py-4">{formatRewardAmount(entry.baseAmount)}</td>
+                              <td className="py-4">{renderStatus(entry.baseStatus)}</td>
+                              <td className="py-4">
+                                {entry.bonusStatus ? formatRewardAmount(entry.bonusAmount) : "—"}
+                              </td>
+                              <td className="py-4">{renderStatus(entry.bonusStatus)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+      <Toaster />
+    </SellerProtectedRoute>
+  )
+}
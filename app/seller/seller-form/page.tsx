@@ -2,129 +2,80 @@
 import Image from "next/image"
 import type React from "react"
 import { useState, useEffect, useRef } from "react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Card } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { toast } from "@/components/ui/use-toast"
 import { Toaster } from "@/components/ui/toaster"
-import { ChevronDown } from "lucide-react"
-import { getGeoData, type Continent, type Region, type SubRegion } from "@/lib/geography-data"
-import { getIndustryData, type Sector, type IndustryGroup, type Industry, type SubIndustry } from "@/lib/industry-data"
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
-import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
-import { submitDeal } from "@/services/api"
-
-interface SellerFormData {
-  dealTitle: string
-  companyDescription: string
-  geographySelections: string[]
-  industrySelections: string[]
-  yearsInBusiness: number
-  trailingRevenue: number
-  trailingEBITDA: number
-  revenueGrowth: number
-  currency: string
-  netIncome: number
-  askingPrice: number
-  businessModels: string[]
-  managementPreferences: string[]
-  capitalAvailability: string
-  minPriorAcquisitions: number
-  minTransactionSize: number
-  documents: File[]
-}
-
-interface GeoItem {
-  id: string
-  name: string
-  path: string
-}
-
-interface IndustryItem {
-  id: string
-  name: string
-  path: string
-}
+import { getGeoData, flattenGeoData, type Continent, type GeoItem } from "@/lib/geography-data"
+import { getIndustryData, flattenIndustryData, type Sector, type IndustryItem } from "@/lib/industry-data"
+import GeographySelector from "@/components/seller/geography-selector"
+import IndustrySelector from "@/components/seller/industry-selector"
+import { submitDeal, updateDeal, getDealById } from "@/services/api"
+import { uploadDealDocument } from "@/services/deal-api"
+import { getDocumentKey, type DocumentUploadState } from "@/lib/deal-documents"
+import DocumentDropzone from "@/components/seller/document-dropzone"
+import BuyerPreview from "@/components/seller/buyer-preview"
+import {
+  AUTOSAVE_DRAFT_TAG,
+  buildDealFields,
+  emptySellerFormData,
+  mapDealToFormData,
+  type DealAmountField,
+  type SellerFormData,
+} from "@/lib/deal-form"
+import type { CurrencyCode } from "@/lib/currency"
+import CurrencySelect from "@/components/currency-select"
+import {
+  applyDealTemplate,
+  getDealTemplate,
+  getDealTemplates,
+  saveDealTemplate,
+  stripConfidentialFields,
+  type DealTemplate,
+} from "@/lib/deal-templates"
+
+type AutosaveStatus = "idle" | "saving" | "saved" | "error"
+
+// Delay between the last edit and the autosave request
+const AUTOSAVE_DELAY_MS = 2000
 
 export default function SellerFormPage() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [isLoading, setIsLoading] = useState(true)
   const [geoData, setGeoData] = useState<Continent[]>([])
   const [industryData, setIndustryData] = useState<Sector[]>([])
   const [flatGeoData, setFlatGeoData] = useState<GeoItem[]>([])
   const [flatIndustryData, setFlatIndustryData] = useState<IndustryItem[]>([])
-  const [geoSearchTerm, setGeoSearchTerm] = useState("")
-  const [industrySearchTerm, setIndustrySearchTerm] = useState("")
-  const [geoOpen, setGeoOpen] = useState(false)
-  const [industryOpen, setIndustryOpen] = useState(false)
   const [selectedReward, setSelectedReward] = useState<string | null>(null)
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [fileError, setFileError] = useState<string | null>(null)
-  const fileInputRef = useRef<HTMLInputElement>(null)
-
-  const [formData, setFormData] = useState<SellerFormData>({
-    dealTitle: "",
-    companyDescription: "",
-    geographySelections: [],
-    industrySelections: [],
-    yearsInBusiness: 0,
-    trailingRevenue: 0,
-    trailingEBITDA: 0,
-    revenueGrowth: 0,
-    currency: "USD($)",
-    netIncome: 0,
-    askingPrice: 0,
-    businessModels: [],
-    managementPreferences: [],
-    capitalAvailability: "ready",
-    minPriorAcquisitions: 0,
-    minTransactionSize: 0,
-    documents: [],
-  })
 
-  // Flatten geography data for searchable dropdown
-  const flattenGeoData = (items: Continent[] | Region[] | SubRegion[], parentPath = "", result: GeoItem[] = []) => {
-    items.forEach((item) => {
-      const path = parentPath ? `${parentPath} > ${item.name}` : item.name
-      result.push({ id: item.id, name: item.name, path })
-
-      if ("regions" in item && item.regions) {
-        flattenGeoData(item.regions, path, result)
-      }
-      if ("subRegions" in item && item.subRegions) {
-        flattenGeoData(item.subRegions, path, result)
-      }
-    })
-    return result
-  }
-
-  // Flatten industry data for searchable dropdown
-  const flattenIndustryData = (
-    items: Sector[] | IndustryGroup[] | Industry[] | SubIndustry[],
-    parentPath = "",
-    result: IndustryItem[] = [],
-  ) => {
-    
-    items.forEach((item) => {
-      const path = parentPath ? `${parentPath} > ${item.name}` : item.name
-      result.push({ id: item.id, name: item.name, path })
-
-      if ("industryGroups" in item && item.industryGroups) {
-        flattenIndustryData(item.industryGroups, path, result)
-      }
-      if ("industries" in item && item.industries) {
-        flattenIndustryData(item.industries, path, result)
-      }
-      if ("subIndustries" in item && item.subIndustries) {
-        flattenIndustryData(item.subIndustries, path, result)
-      }
-    })
-    return result
-  }
+  // Document uploads run after the deal exists, keyed by getDocumentKey
+  const [createdDealId, setCreatedDealId] = useState<string | null>(null)
+  const [documentUploads, setDocumentUploads] = useState<Record<string, DocumentUploadState>>({})
+  // Latest upload state outside React's render cycle, for retries that finish while another is still running
+  const documentUploadsRef = useRef<Record<string, DocumentUploadState>>({})
+
+  // Draft autosave state
+  const [draftId, setDraftId] = useState<string | null>(searchParams?.get("draftId") || null)
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>("idle")
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const draftIdRef = useRef<string | null>(draftId)
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const lastSavedSnapshotRef = useRef<string | null>(null)
+  const isSubmittingRef = useRef(false)
+
+  const [formData, setFormData] = useState<SellerFormData>(emptySellerFormData)
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false)
+  const [templateName, setTemplateName] = useState("")
+  const [templates, setTemplates] = useState<DealTemplate[]>([])
+  const [previewOpen, setPreviewOpen] = useState(false)
 
   // Fetch geography and industry data
   useEffect(() => {
@@ -135,8 +86,59 @@ export default function SellerFormPage() {
         setIndustryData(industryResponse.sectors)
 
         // Flatten the hierarchical data for searchable dropdowns
-        setFlatGeoData(flattenGeoData(geoResponse.continents))
-        setFlatIndustryData(flattenIndustryData(industryResponse.sectors))
+        const flatGeo = flattenGeoData(geoResponse.continents)
+        const flatIndustry = flattenIndustryData(industryResponse.sectors)
+        setFlatGeoData(flatGeo)
+        setFlatIndustryData(flatIndustry)
+
+        // Resume a saved draft if one was requested
+        if (draftIdRef.current) {
+          try {
+            const draft = await getDealById(draftIdRef.current)
+            setFormData(mapDealToFormData(draft, flatGeo, flatIndustry))
+            setSelectedReward(draft.visibility || null)
+            if (draft.timeline?.updatedAt) {
+              setLastSavedAt(new Date(draft.timeline.updatedAt))
+              setAutosaveStatus("saved")
+            }
+          } catch (error) {
+            console.error("Error loading draft:", error)
+            draftIdRef.current = null
+            setDraftId(null)
+            toast({
+              title: "Draft not found",
+              description: "We couldn't load your saved draft. Starting a new deal instead.",
+              variant: "destructive",
+            })
+          }
+        } else if (searchParams?.get("duplicateFrom")) {
+          // Start a new deal from an existing one, minus its confidential financials
+          try {
+            const source = await getDealById(searchParams.get("duplicateFrom") as string)
+            const copied = stripConfidentialFields(mapDealToFormData(source, flatGeo, flatIndustry))
+            setFormData({ ...copied, dealTitle: `Copy of ${copied.dealTitle}` })
+            setSelectedReward(source.visibility || null)
+          } catch (error) {
+            console.error("Error loading deal to duplicate:", error)
+            toast({
+              title: "Deal not found",
+              description: "We couldn't load the deal to duplicate. Starting a new deal instead.",
+              variant: "destructive",
+            })
+          }
+        } else if (searchParams?.get("templateId")) {
+          const template = getDealTemplate(searchParams.get("templateId") as string)
+          if (template) {
+            setFormData(applyDealTemplate(template))
+            setSelectedReward(template.rewardTier)
+          } else {
+            toast({
+              title: "Template not found",
+              description: "That template no longer exists. Starting a new deal instead.",
+              variant: "destructive",
+            })
+          }
+        }
       } catch (error) {
         console.error("Error fetching data:", error)
         toast({
@@ -150,6 +152,7 @@ export default function SellerFormPage() {
     }
 
     fetchData()
+    setTemplates(getDealTemplates())
 
     // Check if user is authenticated
     const token = localStorage.getItem("token")
@@ -177,6 +180,10 @@ export default function SellerFormPage() {
     setFormData((prev) => ({ ...prev, [fieldName]: value }))
   }
 
+  const handleCurrencyChange = (field: DealAmountField, currency: CurrencyCode) => {
+    setFormData((prev) => ({ ...prev, currencies: { ...prev.currencies, [field]: currency } }))
+  }
+
   // Handle checkbox changes for business models and management preferences
   const handleCheckboxChange = (
     checked: boolean,
@@ -192,23 +199,9 @@ export default function SellerFormPage() {
     })
   }
 
-  // Handle geography selection - single selection only
-  const handleGeoSelection = (id: string) => {
-    setFormData((prev) => {
-      // If the same item is clicked, deselect it
-      if (prev.geographySelections.includes(id)) {
-        return {
-          ...prev,
-          geographySelections: [],
-        }
-      }
-      // Otherwise, replace the current selection with the new one
-      return {
-        ...prev,
-        geographySelections: [id],
-      }
-    })
-    setGeoOpen(false)
+  // Handle geography selection - any number of continents, regions or sub-regions
+  const handleGeoChange = (ids: string[]) => {
+    setFormData((prev) => ({ ...prev, geographySelections: ids }))
   }
 
   // Handle industry selection
@@ -227,31 +220,160 @@ export default function SellerFormPage() {
         industrySelections: [...prev.industrySelections, id],
       }
     })
-    setIndustryOpen(false)
   }
 
-  // Handle file selection
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0]
+  // Handle documents added through the dropzone (already validated)
+  const handleAddDocuments = (files: File[]) => {
+    setFormData((prev) => ({ ...prev, documents: [...prev.documents, ...files] }))
+  }
 
-      // Check file size (10MB limit)
-      if (file.size > 10 * 1024 * 1024) {
-        setFileError("File size exceeds 10MB limit")
-        return
-      }
+  const handleRemoveDocument = (file: File) => {
+    setFormData((prev) => ({ ...prev, documents: prev.documents.filter((doc) => doc !== file) }))
+  }
 
-      setSelectedFile(file)
-      setFileError(null)
+  // Upload a single document to the created deal, tracking its progress
+  const uploadDocument = async (dealId: string, file: File) => {
+    const key = getDocumentKey(file)
+    const setUpload = (upload: DocumentUploadState) => {
+      documentUploadsRef.current = { ...documentUploadsRef.current, [key]: upload }
+      setDocumentUploads(documentUploadsRef.current)
+    }
 
-      // Add to documents array
-      setFormData((prev) => ({
-        ...prev,
-        documents: [...prev.documents, file],
-      }))
+    setUpload({ status: "uploading", progress: 0 })
+    try {
+      await uploadDealDocument(dealId, file, (progress) => setUpload({ status: "uploading", progress }))
+      setUpload({ status: "uploaded", progress: 100 })
+      return true
+    } catch (error: any) {
+      console.error(`Error uploading ${file.name}:`, error)
+      setUpload({ status: "failed", progress: 0, error: error.message || "Upload failed" })
+      return false
     }
   }
 
+  // Notify the seller and move on to the dashboard once the deal and its documents are in
+  const finishSubmission = (dealId: string | null) => {
+    toast({
+      title: "Success",
+      description: "Your deal has been submitted successfully.",
+    })
+
+    setTimeout(() => {
+      router.push(dealId ? `/seller/dashboard?newDeal=${dealId}&success=true` : "/seller/dashboard")
+    }, 2000)
+  }
+
+  // Retry a failed upload against the already created deal, without submitting the deal again
+  const handleRetryDocument = async (file: File) => {
+    if (!createdDealId) return
+
+    const uploaded = await uploadDocument(createdDealId, file)
+    const allUploaded = formData.documents.every(
+      (doc) => documentUploadsRef.current[getDocumentKey(doc)]?.status === "uploaded",
+    )
+    if (uploaded && allUploaded) finishSubmission(createdDealId)
+  }
+
+  // Compose the deal payload from the current form state; autosaved drafts are tagged so they stay in My Drafts
+  const buildDealPayload = (autosave = false) => ({
+    ...buildDealFields(formData, flatGeoData, flatIndustryData),
+    dealType: "acquisition", // or let user select
+    status: "draft",
+    visibility: selectedReward || "seed",
+    targetedBuyers: [],
+    tags: autosave ? [AUTOSAVE_DRAFT_TAG] : [],
+    isPublic: false,
+    isFeatured: false,
+    stakePercentage: 100,
+    documents: [],
+  })
+
+  // Save the current form state as a draft deal, creating it on the first save
+  const saveDraft = async () => {
+    if (isSubmittingRef.current) return
+
+    const payload = buildDealPayload(true)
+    const snapshot = JSON.stringify(payload)
+    if (snapshot === lastSavedSnapshotRef.current) return
+
+    try {
+      setAutosaveStatus("saving")
+
+      if (draftIdRef.current) {
+        await updateDeal(draftIdRef.current, payload)
+      } else {
+        const created = await submitDeal(payload)
+        const createdId = created?._id || created?.id
+        if (createdId) {
+          draftIdRef.current = createdId
+          setDraftId(createdId)
+          // Keep the draft ID in the URL so a refresh resumes the same draft
+          router.replace(`/seller/seller-form?draftId=${createdId}`)
+        }
+      }
+
+      lastSavedSnapshotRef.current = snapshot
+      setLastSavedAt(new Date())
+      setAutosaveStatus("saved")
+    } catch (error) {
+      console.error("Draft autosave error:", error)
+      setAutosaveStatus("error")
+    }
+  }
+
+  // Keep a handle on the latest saveDraft so timers and listeners never use stale form state
+  const saveDraftRef = useRef(saveDraft)
+  saveDraftRef.current = saveDraft
+
+  // Saves run one after another so the first save can create the draft before later ones update it
+  const queueDraftSave = () => {
+    saveQueueRef.current = saveQueueRef.current.then(() => saveDraftRef.current())
+    return saveQueueRef.current
+  }
+
+  // Debounced autosave whenever the form or reward tier changes
+  useEffect(() => {
+    if (isLoading || isSubmittingRef.current) return
+
+    const snapshot = JSON.stringify(buildDealPayload(true))
+
+    // The first render after loading is the baseline, not an edit
+    if (lastSavedSnapshotRef.current === null) {
+      lastSavedSnapshotRef.current = snapshot
+      return
+    }
+    if (snapshot === lastSavedSnapshotRef.current) return
+
+    // A new draft needs at least a title before it is created
+    if (!draftIdRef.current && !formData.dealTitle.trim()) return
+
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current)
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null
+      queueDraftSave()
+    }, AUTOSAVE_DELAY_MS)
+  }, [formData, selectedReward, isLoading])
+
+  // Flush a pending autosave when the tab is hidden or the page unmounts
+  useEffect(() => {
+    const flushPendingSave = () => {
+      if (!autosaveTimerRef.current) return
+      clearTimeout(autosaveTimerRef.current)
+      autosaveTimerRef.current = null
+      queueDraftSave()
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushPendingSave()
+    }
+
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      flushPendingSave()
+    }
+  }, [])
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -261,7 +383,7 @@ export default function SellerFormPage() {
       // Validate form
       if (!formData.dealTitle.trim()) throw new Error("Deal title is required")
       if (!formData.companyDescription.trim()) throw new Error("Company description is required")
-      if (formData.geographySelections.length === 0) throw new Error("Please select a geography")
+      if (formData.geographySelections.length === 0) throw new Error("Please select at least one geography")
       if (formData.industrySelections.length === 0) throw new Error("Please select at least one industry")
 
       // Get token and sellerId from localStorage
@@ -269,69 +391,46 @@ export default function SellerFormPage() {
       const sellerId = localStorage.getItem("userId")
       if (!token || !sellerId) throw new Error("Authentication required")
 
-      // Map business models to booleans
-      const businessModel = {
-        recurringRevenue: formData.businessModels.includes("recurring-revenue"),
-        projectBased: formData.businessModels.includes("project-based"),
-        assetLight: formData.businessModels.includes("asset-light"),
-        assetHeavy: formData.businessModels.includes("asset-heavy"),
+      // Stop autosaving and let any in-flight draft save finish first
+      isSubmittingRef.current = true
+      if (autosaveTimerRef.current) {
+        clearTimeout(autosaveTimerRef.current)
+        autosaveTimerRef.current = null
       }
+      await saveQueueRef.current
 
-      // Map management preferences to booleans
-      const managementPreferences = {
-        retiringDivesting: formData.managementPreferences.includes("retiring-divesting"),
-        staffStay: formData.managementPreferences.includes("key-staff-stay"),
-      }
-
-      // Compose the payload
-      const payload = {
-        title: formData.dealTitle,
-        companyDescription: formData.companyDescription,
-        dealType: "acquisition", // or let user select
-        status: "draft",
-        visibility: selectedReward || "seed",
-        industrySector: flatIndustryData.find((item) => item.id === formData.industrySelections[0])?.name || "",
-        geographySelection: flatGeoData.find((item) => item.id === formData.geographySelections[0])?.name || "",
-        yearsInBusiness: formData.yearsInBusiness,
-        financialDetails: {
-          trailingRevenueCurrency: formData.currency,
-          trailingRevenueAmount: formData.trailingRevenue,
-          trailingEBITDACurrency: formData.currency,
-          trailingEBITDAAmount: formData.trailingEBITDA,
-          avgRevenueGrowth: formData.revenueGrowth,
-          netIncome: formData.netIncome,
-          askingPrice: formData.askingPrice,
-        },
-        businessModel,
-        managementPreferences,
-        buyerFit: {
-          capitalAvailability:
-            formData.capitalAvailability === "ready" ? "Ready to deploy immediately" : "Need to raise",
-          minPriorAcquisitions: formData.minPriorAcquisitions,
-          minTransactionSize: formData.minTransactionSize,
-        },
-        targetedBuyers: [],
-        tags: [],
-        isPublic: false,
-        isFeatured: false,
-        stakePercentage: 100,
-        documents: [],
-      }
+      // Submitting sends the deal as before and clears the autosave tag, so it leaves the drafts list
+      const payload = buildDealPayload()
 
       console.log("Submitting deal payload:", payload)
 
-      // Submit to API (add token if needed)
-      await submitDeal(payload)
+      // Publish the existing draft, or create the deal if it was never autosaved
+      const result = draftIdRef.current ? await updateDeal(draftIdRef.current, payload) : await submitDeal(payload)
+      const dealId = draftIdRef.current || result?._id || result?.id
 
-      toast({
-        title: "Success",
-        description: "Your deal has been submitted successfully.",
-      })
+      // Upload the picked documents one by one now that the deal exists
+      if (dealId && formData.documents.length > 0) {
+        setCreatedDealId(dealId)
+        setIsLoading(false)
+
+        let failedCount = 0
+        for (const file of formData.documents) {
+          if (!(await uploadDocument(dealId, file))) failedCount++
+        }
+
+        if (failedCount > 0) {
+          toast({
+            title: "Some documents failed to upload",
+            description: `Your deal was created, but ${failedCount} document(s) didn't upload. Retry them below.`,
+            variant: "destructive",
+          })
+          return
+        }
+      }
 
-      setTimeout(() => {
-        router.push("/seller/dashboard")
-      }, 2000)
+      finishSubmission(dealId)
     } catch (error: any) {
+      isSubmittingRef.current = false
       console.error("Form submission error:", error)
       toast({
         title: "Submission Failed",
@@ -343,21 +442,48 @@ export default function SellerFormPage() {
     }
   }
 
-  // Get selected geography name (single selection)
-  const getSelectedGeoNames = () => {
-    if (formData.geographySelections.length === 0) return ""
-    const item = flatGeoData.find((item) => item.id === formData.geographySelections[0])
-    return item ? item.name : formData.geographySelections[0]
+  const handleSaveTemplate = () => {
+    if (!templateName.trim()) return
+    try {
+      const template = saveDealTemplate(templateName, formData, selectedReward)
+      toast({
+        title: "Template saved",
+        description: `"${template.name}" is available from your profile and when starting a new deal.`,
+      })
+      setTemplateDialogOpen(false)
+      setTemplateName("")
+      setTemplates(getDealTemplates())
+    } catch (error) {
+      console.error("Error saving template:", error)
+      toast({
+        title: "Template not saved",
+        description: "Failed to save this deal as a template. Please try again.",
+        variant: "destructive",
+      })
+    }
   }
 
-  // Get selected industry names
-  const getSelectedIndustryNames = () => {
-    return formData.industrySelections
-      .map((id) => {
-        const item = flatIndustryData.find((item) => item.id === id)
-        return item ? item.name : id
-      })
-      .join(", ")
+  const handleTemplateSelect = (templateId: string) => {
+    const template = templates.find((item) => item.id === templateId)
+    if (!template) return
+    setFormData(applyDealTemplate(template))
+    setSelectedReward(template.rewardTier)
+  }
+
+  // Describe the autosave state for the status line above the form
+  const getAutosaveLabel = () => {
+    switch (autosaveStatus) {
+      case "saving":
+        return "Saving draft..."
+      case "saved":
+        return lastSavedAt
+          ? `Draft saved at ${lastSavedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+          : "Draft saved"
+      case "error":
+        return "Couldn't save draft. We'll retry on your next change."
+      default:
+        return draftId ? "Draft" : "Add a deal title to start autosaving your draft"
+    }
   }
 
   if (isLoading) {
@@ -371,6 +497,31 @@ export default function SellerFormPage() {
   return (
     <div className="container mx-auto py-8 px-4 max-w-5xl bg-white">
       <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Draft autosave status */}
+        <div className="flex justify-end items-center gap-4">
+          {/* Templates can only seed a brand new deal, not overwrite a draft in progress */}
+          {!draftId && templates.length > 0 && (
+            <Select onValueChange={handleTemplateSelect}>
+              <SelectTrigger className="w-56 h-9 mr-auto">
+                <SelectValue placeholder="Start from a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <p className={`text-xs ${autosaveStatus === "error" ? "text-red-500" : "text-gray-500"}`}>
+            {getAutosaveLabel()}
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={() => setTemplateDialogOpen(true)}>
+            Save as Template
+          </Button>
+        </div>
+
         {/* Seller Rewards */}
         <div className="bg-[#f0f7fa] p-6 rounded-lg">
           <h2 className="text-lg font-semibold mb-4">Seller Rewards - Click to choose</h2>
@@ -504,101 +655,21 @@ export default function SellerFormPage() {
               {/* Geography Selector */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Geography Selector</label>
-                <Popover open={geoOpen} onOpenChange={setGeoOpen}>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      role="combobox"
-                      aria-expanded={geoOpen}
-                      className="w-full justify-between"
-                    >
-                      {formData.geographySelections.length > 0 ? getSelectedGeoNames() : "Search here..."}
-                      <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-full p-0" align="start">
-                    <Command>
-                      <CommandInput
-                        placeholder="Search geography..."
-                        value={geoSearchTerm}
-                        onValueChange={setGeoSearchTerm}
-                      />
-                      <CommandList>
-                        <CommandEmpty>No results found.</CommandEmpty>
-                        <CommandGroup>
-                          {flatGeoData
-                            .filter(
-                              (item) =>
-                                item.name.toLowerCase().includes(geoSearchTerm.toLowerCase()) ||
-                                item.path.toLowerCase().includes(geoSearchTerm.toLowerCase()),
-                            )
-                            .map((item) => (
-                              <CommandItem key={item.id} value={item.id} onSelect={() => handleGeoSelection(item.id)}>
-                                <div className="flex items-center mr-2">
-                                  <div
-                                    className={`w-4 h-4 rounded-full border-2 ${formData.geographySelections.includes(item.id) ? "bg-[#3aafa9] border-[#3aafa9]" : "border-gray-300"}`}
-                                  >
-                                    {formData.geographySelections.includes(item.id) && (
-                                      <div className="w-2 h-2 bg-white rounded-full m-0.5"></div>
-                                    )}
-                                  </div>
-                                </div>
-                                <span>{item.path}</span>
-                              </CommandItem>
-                            ))}
-                        </CommandGroup>
-                      </CommandList>
-                    </Command>
-                  </PopoverContent>
-                </Popover>
+                <GeographySelector
+                  continents={geoData}
+                  selected={formData.geographySelections}
+                  onChange={handleGeoChange}
+                />
               </div>
 
               {/* Industry Selector */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Industry Selector</label>
-                <Popover open={industryOpen} onOpenChange={setIndustryOpen}>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      role="combobox"
-                      aria-expanded={industryOpen}
-                      className="w-full justify-between"
-                    >
-                      {formData.industrySelections.length > 0 ? getSelectedIndustryNames() : "Select Industry"}
-                      <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-full p-0" align="start">
-                    <Command>
-                      <CommandInput
-                        placeholder="Search industry..."
-                        value={industrySearchTerm}
-                        onValueChange={setIndustrySearchTerm}
-                      />
-                      <CommandList>
-                        <CommandEmpty>No results found.</CommandEmpty>
-                        <CommandGroup>
-                          {flatIndustryData
-                            .filter(
-                              (item) =>
-                                item.name.toLowerCase().includes(industrySearchTerm.toLowerCase()) ||
-                                item.path.toLowerCase().includes(industrySearchTerm.toLowerCase()),
-                            )
-                            .map((item) => (
-                              <CommandItem
-                                key={item.id}
-                                value={item.id}
-                                onSelect={() => handleIndustrySelection(item.id)}
-                              >
-                                <Checkbox checked={formData.industrySelections.includes(item.id)} className="mr-2" />
-                                <span>{item.path}</span>
-                              </CommandItem>
-                            ))}
-                        </CommandGroup>
-                      </CommandList>
-                    </Command>
-                  </PopoverContent>
-                </Popover>
+                <IndustrySelector
+                  items={flatIndustryData}
+                  selected={formData.industrySelections}
+                  onSelect={handleIndustrySelection}
+                />
               </div>
             </div>
 
@@ -628,7 +699,7 @@ export default function SellerFormPage() {
                 <label htmlFor="trailingRevenue" className="block text-sm font-medium text-gray-700 mb-1">
                   Trailing 12 Month Revenue
                 </label>
-                <div className="flex">
+                <div className="flex gap-2">
                   <Input
                     id="trailingRevenue"
                     type="number"
@@ -637,42 +708,37 @@ export default function SellerFormPage() {
                     onChange={(e) => handleNumberChange(e, "trailingRevenue")}
                     className="w-full"
                   />
+                  <CurrencySelect
+                    value={formData.currencies.trailingRevenue}
+                    onChange={(currency) => handleCurrencyChange("trailingRevenue", currency)}
+                    className="w-24"
+                  />
                 </div>
               </div>
 
               <div>
-                <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-1">
-                  Currency
+                <label htmlFor="trailingEBITDA" className="block text-sm font-medium text-gray-700 mb-1">
+                  Trailing 12 Month EBITDA
                 </label>
-                <Select value={formData.currency} onValueChange={(value) => handleSelectChange(value, "currency")}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select currency" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="USD($)">USD($)</SelectItem>
-                    <SelectItem value="EUR(€)">EUR(€)</SelectItem>
-                    <SelectItem value="GBP(£)">GBP(£)</SelectItem>
-                    <SelectItem value="CAD($)">CAD($)</SelectItem>
-                    <SelectItem value="AUD($)">AUD($)</SelectItem>
-                  </SelectContent>
-                </Select>
+                <div className="flex gap-2">
+                  <Input
+                    id="trailingEBITDA"
+                    type="number"
+                    min="0"
+                    value={formData.trailingEBITDA || ""}
+                    onChange={(e) => handleNumberChange(e, "trailingEBITDA")}
+                    className="w-full"
+                  />
+                  <CurrencySelect
+                    value={formData.currencies.trailingEBITDA}
+                    onChange={(currency) => handleCurrencyChange("trailingEBITDA", currency)}
+                    className="w-24"
+                  />
+                </div>
               </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label htmlFor="trailingEBITDA" className="block text-sm font-medium text-gray-700 mb-1">
-                  Trailing 12 Month EBITDA
-                </label>
-                <Input
-                  id="trailingEBITDA"
-                  type="number"
-                  min="0"
-                  value={formData.trailingEBITDA || ""}
-                  onChange={(e) => handleNumberChange(e, "trailingEBITDA")}
-                  className="w-full"
-                />
-              </div>
 
               <div>
                 <label htmlFor="revenueGrowth" className="block text-sm font-medium text-gray-700 mb-1">
@@ -700,28 +766,42 @@ export default function SellerFormPage() {
               <label htmlFor="netIncome" className="block text-sm font-medium text-gray-700 mb-1">
                 Net Income (Optional)
               </label>
-              <Input
-                id="netIncome"
-                type="number"
-                min="0"
-                value={formData.netIncome || ""}
-                onChange={(e) => handleNumberChange(e, "netIncome")}
-                className="w-full"
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="netIncome"
+                  type="number"
+                  min="0"
+                  value={formData.netIncome || ""}
+                  onChange={(e) => handleNumberChange(e, "netIncome")}
+                  className="w-full"
+                />
+                <CurrencySelect
+                  value={formData.currencies.netIncome}
+                  onChange={(currency) => handleCurrencyChange("netIncome", currency)}
+                  className="w-24"
+                />
+              </div>
             </div>
 
             <div>
               <label htmlFor="askingPrice" className="block text-sm font-medium text-gray-700 mb-1">
                 Asking Price (Optional)
               </label>
-              <Input
-                id="askingPrice"
-                type="number"
-                min="0"
-                value={formData.askingPrice || ""}
-                onChange={(e) => handleNumberChange(e, "askingPrice")}
-                className="w-full"
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="askingPrice"
+                  type="number"
+                  min="0"
+                  value={formData.askingPrice || ""}
+                  onChange={(e) => handleNumberChange(e, "askingPrice")}
+                  className="w-full"
+                />
+                <CurrencySelect
+                  value={formData.currencies.askingPrice}
+                  onChange={(currency) => handleCurrencyChange("askingPrice", currency)}
+                  className="w-24"
+                />
+              </div>
             </div>
           </div>
 
@@ -882,35 +962,14 @@ export default function SellerFormPage() {
         <section className="bg-[#f9f9f9] p-6 rounded-lg">
           <h2 className="text-xl font-semibold mb-6">Documents</h2>
 
-          <div className="border-2 border-dashed border-gray-300 rounded-md p-6 text-center">
-            <p className="text-sm text-gray-600 mb-4">
-              Buyers have agreed to a bulletproof global NDA allowing them to see directly to your CIM or similar.
-            </p>
-
-            <div className="mb-4 flex flex-col items-center">
-              <p className="text-sm mb-2">Click to upload</p>
-              <p className="text-xs text-gray-500 mb-4">.PDF, .DOCX, .XLSX, .PPTX, .HTML</p>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => fileInputRef.current?.click()}
-                className="border-gray-300"
-              >
-                Select File
-              </Button>
-              <input ref={fileInputRef} id="file-upload" type="file" onChange={handleFileChange} className="hidden" />
-            </div>
-
-            {selectedFile && <p className="text-sm text-gray-600">Selected: {selectedFile.name}</p>}
-
-            {fileError && <p className="text-sm text-red-500 mt-2">{fileError}</p>}
-
-            <p className="text-xs text-gray-500 mt-2">
-              Upload your Confidential Information Memorandum or other deal documents.
-            </p>
-          </div>
-
-          
+          <DocumentDropzone
+            files={formData.documents}
+            uploads={documentUploads}
+            onAddFiles={handleAddDocuments}
+            onRemoveFile={handleRemoveDocument}
+            onRetryFile={handleRetryDocument}
+            locked={!!createdDealId}
+          />
         </section>
 
         {/* Seller Matching and Buyer Selection */}
@@ -928,17 +987,75 @@ export default function SellerFormPage() {
         </section>
 
         {/* Submit Button */}
-        <div className="flex justify-end">
-          <Button
-            type="submit"
-            className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white px-8 py-2 rounded-md"
-            disabled={isLoading}
-          >
-            {isLoading ? "Submitting..." : "Submit"}
-          </Button>
+        <div className="flex justify-end gap-3">
+          {!createdDealId && (
+            <Button type="button" variant="outline" onClick={() => setPreviewOpen(true)}>
+              Preview as Buyer
+            </Button>
+          )}
+          {createdDealId ? (
+            // The deal already exists; failed documents can still be added later from the dashboard
+            <Button
+              type="button"
+              className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white px-8 py-2 rounded-md"
+              disabled={Object.values(documentUploads).some((upload) => upload.status === "uploading")}
+              onClick={() => router.push(`/seller/dashboard?newDeal=${createdDealId}&success=true`)}
+            >
+              Continue to Dashboard
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white px-8 py-2 rounded-md"
+              disabled={isLoading}
+            >
+              {isLoading ? "Submitting..." : "Submit"}
+            </Button>
+          )}
         </div>
       </form>
 
+      <BuyerPreview
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+        formData={formData}
+        flatGeoData={flatGeoData}
+        flatIndustryData={flatIndustryData}
+      />
+
+      {/* Save as Template Dialog */}
+      <Dialog open={templateDialogOpen} onOpenChange={setTemplateDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Templates keep the geography, industry, business model, management, buyer fit, currency and reward tier
+              settings. The deal title, financial figures and documents are not saved.
+            </p>
+            <Input
+              placeholder="Template name, e.g. Regional HVAC services"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setTemplateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
+              disabled={!templateName.trim()}
+              onClick={handleSaveTemplate}
+            >
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Toaster />
     </div>
   )
@@ -5,7 +5,8 @@ import Image from "next/image"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { getSellerProfile } from "@/services/api"
-import { Pencil, HandshakeIcon, History, Settings, LogOut, Search } from "lucide-react"
+import { Pencil, HandshakeIcon, History, Settings, LogOut, Search, Gift, MessageSquare } from "lucide-react"
+import { useUnreadMessages } from "@/hooks/use-unread-messages"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -13,6 +14,7 @@ import { toast } from "@/components/ui/use-toast"
 import { Toaster } from "@/components/ui/toaster"
 import { useAuth } from "@/contexts/auth-context"
 import SellerProtectedRoute from "@/components/seller/protected-route"
+import DealTemplatesManager from "@/components/seller/deal-templates-manager"
 
 interface SellerProfile {
   id: string
@@ -30,6 +32,7 @@ export default function ViewProfilePage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const router = useRouter()
+  const unreadMessages = useUnreadMessages()
   const { logout } = useAuth()
 
   useEffect(() => {
@@ -122,6 +125,29 @@ export default function ViewProfilePage() {
               <span>History</span>
             </Button>
 
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/rewards")}
+            >
+              <Gift className="h-5 w-5" />
+              <span>Rewards</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-3 font-normal"
+              onClick={() => router.push("/seller/messages")}
+            >
+              <MessageSquare className="h-5 w-5" />
+              <span>Messages</span>
+              {unreadMessages > 0 && (
+                <span className="ml-auto rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                  {unreadMessages}
+                </span>
+              )}
+            </Button>
+
             <Button
               variant="ghost"
               className="w-full justify-start gap-3 font-normal"
@@ -297,6 +323,9 @@ export default function ViewProfilePage() {
                     </div>
                   </div>
                 </div>
+
+                {/* Deal templates */}
+                <DealTemplatesManager />
               </div>
             )}
           </div>
@@ -0,0 +1,142 @@
+"use client"
+
+import type React from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { formatDealAmount, getConvertedCurrencies, type BuyerDeal } from "@/lib/buyer-deals"
+import type { DealDocument } from "@/types/deal"
+
+interface BuyerDealCardProps {
+  deal: BuyerDeal
+  // Whether the seller changed the deal since this buyer last looked
+  updated: boolean
+  // Seller answers this buyer hasn't read yet
+  unreadAnswers?: number
+  // The buyer's preferred currency; amounts show as the seller entered them when unset
+  currency?: string | null
+  // Deal figures outside the buyer's target ranges
+  criteriaMismatches?: string[]
+  onOpen: (deal: BuyerDeal) => void
+  onViewCIM: (e: React.MouseEvent, deal: BuyerDeal) => void
+  onPass: (dealId: string) => void
+  onDownloadDocument: (dealId: string, doc: DealDocument) => void
+}
+
+// One deal on the buyer deals page; also rendered by the seller's buyer preview
+export default function BuyerDealCard({
+  deal,
+  updated,
+  unreadAnswers = 0,
+  currency,
+  criteriaMismatches = [],
+  onOpen,
+  onViewCIM,
+  onPass,
+  onDownloadDocument,
+}: BuyerDealCardProps) {
+  const convertedFrom = getConvertedCurrencies(deal, currency)
+
+  return (
+    <div
+      className="rounded-lg border border-gray-200 bg-white shadow-sm cursor-pointer hover:shadow-md transition-shadow"
+      onClick={() => onOpen(deal)}
+    >
+      <div className="flex items-center justify-between border-b border-gray-200 p-4">
+        <h3 className="text-lg font-medium text-teal-500">{deal.title}</h3>
+        <div className="flex items-center gap-1">
+          {unreadAnswers > 0 && (
+            <span className="rounded-full bg-teal-100 px-2 py-0.5 text-xs font-medium text-teal-700">
+              {unreadAnswers} new {unreadAnswers === 1 ? "answer" : "answers"}
+            </span>
+          )}
+          {updated && (
+            <span
+              className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700"
+              title={
+                deal.lastEditedFields?.length
+                  ? `Changed: ${deal.lastEditedFields.join(", ")}`
+                  : "The seller changed this deal"
+              }
+            >
+              Deal updated
+            </span>
+          )}
+          {criteriaMismatches.length > 0 && (
+            <span
+              className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600"
+              title={`Outside your target range for ${criteriaMismatches.join(", ")}`}
+            >
+              Outside your criteria
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4">
+        <h4 className="mb-2 font-medium text-gray-800">Overview</h4>
+        <div className="mb-4 space-y-1 text-sm text-gray-600">
+          <p>Company Description: {deal.companyDescription}</p>
+          <p>Industry: {deal.industry}</p>
+          <p>Geography: {deal.geography}</p>
+          <p>Number of Years in Business: {deal.yearsInBusiness}</p>
+        </div>
+
+        <h4 className="mb-2 font-medium text-gray-800">Financial</h4>
+        {convertedFrom.length > 0 && (
+          <p className="mb-2 text-xs text-gray-400">
+            Converted to {currency} from {convertedFrom.join(", ")} at indicative rates
+          </p>
+        )}
+        <div className="mb-4 grid grid-cols-2 gap-2 text-sm text-gray-600">
+          <p>Trailing 12-Month Revenue: {formatDealAmount(deal, "trailingRevenue", currency)}</p>
+          <p>Trailing 12-Month EBITDA: {formatDealAmount(deal, "trailingEbitda", currency)}</p>
+          <p>Average 3-YEAR REVENUE GROWTH IN $: ${deal.averageGrowth.toLocaleString()}</p>
+          <p>Net Income: {formatDealAmount(deal, "netIncome", currency)}</p>
+          <p>Asking Price: {formatDealAmount(deal, "askingPrice", currency)}</p>
+          <p>Business Mode: {deal.businessModel}</p>
+          <p>Management Future Preferences: {deal.managementPreference}</p>
+        </div>
+
+        <h4 className="mb-2 font-medium text-gray-800">Seller Contact Information</h4>
+        <div className="mb-4 space-y-1 text-sm text-gray-600">
+          <p>Phone Number: {deal.sellerPhone}</p>
+          <p>Email: {deal.sellerEmail}</p>
+        </div>
+
+        {deal.documents && deal.documents.length > 0 && (
+          <>
+            <h4 className="mb-2 font-medium text-gray-800">Documents</h4>
+            <div className="mb-4 space-y-1 text-sm" onClick={(e) => e.stopPropagation()}>
+              {deal.documents.map((doc) => (
+                <button
+                  key={doc.filename}
+                  type="button"
+                  onClick={() => onDownloadDocument(deal.id, doc)}
+                  className="flex items-center gap-1 text-teal-600 hover:underline"
+                >
+                  <Download className="h-3 w-3" />
+                  {doc.originalName}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2" onClick={(e) => e.stopPropagation()}>
+          <Button onClick={(e) => onViewCIM(e, deal)} className="bg-teal-500 hover:bg-teal-600">
+            {deal.status === "active" ? "View CIM" : "Go to CIM"}
+          </Button>
+          {deal.status !== "passed" && (
+            <Button
+              variant="outline"
+              className="border-red-200 bg-[#E3515333] text-red-500 hover:bg-red-50"
+              onClick={() => onPass(deal.id)}
+            >
+              Pass
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import type React from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import DealStageBadge from "@/components/deal-stage-badge"
+import ValuationPanel from "@/components/valuation-panel"
+import {
+  formatDealAmount,
+  getBuyerDealValuationAmounts,
+  getConvertedCurrencies,
+  type BuyerDeal,
+} from "@/lib/buyer-deals"
+import type { DealDocument } from "@/types/deal"
+
+interface BuyerDealDetailsDialogProps {
+  deal: BuyerDeal | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The buyer's preferred currency; amounts show as the seller entered them when unset
+  currency?: string | null
+  // Who is looking; the seller's buyer preview opens this dialog too
+  viewerRole?: "buyer" | "seller"
+  onPass: (dealId: string) => void
+  onDownloadDocument: (dealId: string, doc: DealDocument) => void
+  // Extra sections below the documents, such as the buyer's Q&A with the seller
+  children?: React.ReactNode
+}
+
+// Full deal details an active buyer sees; also rendered by the seller's buyer preview
+export default function BuyerDealDetailsDialog({
+  deal,
+  open,
+  onOpenChange,
+  currency,
+  viewerRole = "buyer",
+  onPass,
+  onDownloadDocument,
+  children,
+}: BuyerDealDetailsDialogProps) {
+  const convertedFrom = deal ? getConvertedCurrencies(deal, currency) : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[523px] h-[583px] fixed  border-[0.5px] rounded-[6px] p-0 overflow-hidden overflow-y-auto">
+        <div className="p-6">
+          <DialogHeader>
+            <DialogTitle className="text-center text-teal-500 text-xl">Deal Details</DialogTitle>
+          </DialogHeader>
+
+          {deal && (
+            <div className="py-4">
+              {deal.lastEditedAt && deal.lastEditedFields && deal.lastEditedFields.length > 0 && (
+                <div className="mb-4 rounded-md bg-amber-50 p-3 text-sm text-amber-700">
+                  Updated by the seller on {new Date(deal.lastEditedAt).toLocaleDateString()}:{" "}
+                  {deal.lastEditedFields.join(", ")}
+                </div>
+              )}
+              {deal.stage && (
+                <div className="mb-4 flex items-center gap-2 text-sm">
+                  <span className="font-medium">Deal Stage:</span>
+                  <DealStageBadge stage={deal.stage} />
+                </div>
+              )}
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-3">Overview</h3>
+                <div className="space-y-2 text-sm">
+                  <p>
+                    <span className="font-medium">Deal Title:</span> {deal.title}
+                  </p>
+                  <p>
+                    <span className="font-medium">Company Description:</span> {deal.companyDescription}
+                  </p>
+                  <p>
+                    <span className="font-medium">Industry:</span> {deal.industry}
+                  </p>
+                  <p>
+                    <span className="font-medium">Geography:</span> {deal.geography}
+                  </p>
+                  <p>
+                    <span className="font-medium">Number of Years in Business:</span> {deal.yearsInBusiness}
+                  </p>
+                </div>
+              </div>
+
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-3">Financial</h3>
+                {convertedFrom.length > 0 && (
+                  <p className="mb-3 text-xs text-gray-400">
+                    Converted to {currency} from {convertedFrom.join(", ")} at indicative rates
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <p>
+                    <span className="font-medium">Trailing 12-Month Revenue:</span>{" "}
+                    {formatDealAmount(deal, "trailingRevenue", currency)}
+                  </p>
+                  <p>
+                    <span className="font-medium">Trailing 12-Month EBITDA:</span>{" "}
+                    {formatDealAmount(deal, "trailingEbitda", currency)}
+                  </p>
+                  <p>
+                    <span className="font-medium">Average 3-YEAR REVENUE GROWTH IN $:</span> $
+                    {deal.averageGrowth.toLocaleString()}
+                  </p>
+                  <p>
+                    <span className="font-medium">Net Income:</span> {formatDealAmount(deal, "netIncome", currency)}
+                  </p>
+                  <p>
+                    <span className="font-medium">Asking Price:</span> {formatDealAmount(deal, "askingPrice", currency)}
+                  </p>
+                  <p>
+                    <span className="font-medium">Business Model:</span> {deal.businessModel}
+                  </p>
+                  <p className="col-span-2">
+                    <span className="font-medium">Management Future Preferences:</span> {deal.managementPreference}
+                  </p>
+                </div>
+              </div>
+
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-3">Valuation</h3>
+                <ValuationPanel amounts={getBuyerDealValuationAmounts(deal)} sector={deal.industry} role={viewerRole} />
+              </div>
+
+              {deal.documents && deal.documents.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-medium mb-3">Documents</h3>
+                  <div className="space-y-2 text-sm">
+                    {deal.documents.map((doc) => (
+                      <div
+                        key={doc.filename}
+                        className="flex items-center justify-between p-2 border border-gray-200 rounded"
+                      >
+                        <span>{doc.originalName}</span>
+                        <Button variant="ghost" size="sm" onClick={() => onDownloadDocument(deal.id, doc)}>
+                          <Download className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {children}
+
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-3">Seller Contact Information</h3>
+                <div className="space-y-2 text-sm">
+                  <p>
+                    <span className="font-medium">Phone Number:</span> {deal.sellerPhone}
+                  </p>
+                  <p>
+                    <span className="font-medium">Email:</span> {deal.sellerEmail}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end space-x-4 p-4 mt-auto border-t border-gray-200">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-[#3AAFA9] px-8 py-2 rounded-md bg-[#3AAFA91A] text-[#3AAFA9] hover:text-[#3AAFA9]"
+          >
+            Close
+          </Button>
+          {deal && deal.status !== "passed" && (
+            <Button
+              variant="outline"
+              className="border-red-200 text-red-500 hover:bg-red-50 px-8 py-2 hover:text-red-500 rounded-md bg-[#E3515333]"
+              onClick={() => onPass(deal.id)}
+            >
+              Pass
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
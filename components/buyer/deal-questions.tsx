@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { getBuyerVisibleQuestions, sortQuestions } from "@/lib/deal-questions"
+import { askDealQuestion } from "@/services/deal-api"
+import type { DealQuestion } from "@/types/deal"
+
+interface BuyerDealQuestionsProps {
+  dealId: string
+  buyerId: string
+  questions: DealQuestion[]
+  onAsked: (question: DealQuestion) => void
+}
+
+// An active buyer's view of a deal's Q&A: their own questions and answers the seller shared with everyone
+export default function BuyerDealQuestions({ dealId, buyerId, questions, onAsked }: BuyerDealQuestionsProps) {
+  const [draft, setDraft] = useState("")
+  const [sending, setSending] = useState(false)
+
+  const visibleQuestions = sortQuestions(getBuyerVisibleQuestions(questions, buyerId))
+
+  const handleAsk = async () => {
+    if (!draft.trim()) return
+
+    setSending(true)
+    try {
+      onAsked(await askDealQuestion(dealId, draft.trim()))
+      setDraft("")
+    } catch (error: any) {
+      toast({
+        title: "Question not sent",
+        description: error.message || "Failed to send question",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {visibleQuestions.length === 0 ? (
+        <p className="text-gray-500">No questions yet. Ask the seller anything about this deal.</p>
+      ) : (
+        visibleQuestions.map((question) => (
+          <div key={question._id} className="rounded border border-gray-200 p-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{question.question}</span>
+              {question.buyerId !== buyerId && (
+                <span className="shrink-0 text-xs text-gray-400">Asked by another buyer</span>
+              )}
+            </div>
+            {question.answer ? (
+              <p className="mt-1 text-gray-700">
+                <span className="font-medium text-teal-600">Seller:</span> {question.answer}
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">Waiting for the seller to answer</p>
+            )}
+          </div>
+        ))
+      )}
+
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Ask the seller a question"
+        rows={3}
+      />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={handleAsk}
+          disabled={sending || !draft.trim()}
+          className="bg-teal-500 hover:bg-teal-600"
+        >
+          {sending ? "Sending..." : "Ask Question"}
+        </Button>
+      </div>
+    </div>
+  )
+}
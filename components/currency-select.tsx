@@ -0,0 +1,29 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CURRENCY_CODES, getCurrencyName, parseCurrencyCode, type CurrencyCode } from "@/lib/currency"
+
+interface CurrencySelectProps {
+  value?: string | null
+  onChange: (currency: CurrencyCode) => void
+  id?: string
+  className?: string
+}
+
+// ISO 4217 picker shared by the seller deal forms and buyer criteria; legacy "USD($)" values show as their code
+export default function CurrencySelect({ value, onChange, id, className }: CurrencySelectProps) {
+  return (
+    <Select value={parseCurrencyCode(value)} onValueChange={(code) => onChange(code as CurrencyCode)}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Currency">{parseCurrencyCode(value)}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCY_CODES.map((code) => (
+          <SelectItem key={code} value={code}>
+            {code} · {getCurrencyName(code)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
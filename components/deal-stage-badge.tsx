@@ -0,0 +1,23 @@
+"use client"
+
+import { getStageConfig, type DealStage } from "@/lib/deal-stages"
+
+interface DealStageBadgeProps {
+  stage: DealStage | null
+  className?: string
+}
+
+// Shared by seller and buyer views; renders nothing for deals without a stage
+export default function DealStageBadge({ stage, className = "" }: DealStageBadgeProps) {
+  if (!stage) return null
+  const config = getStageConfig(stage)
+
+  return (
+    <span
+      className={`px-2 py-1 rounded text-xs font-medium ${config.badgeClassName} ${className}`}
+      title={config.description}
+    >
+      {config.label}
+    </span>
+  )
+}
@@ -0,0 +1,320 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CheckCheck, Download, EyeOff, Paperclip, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { DOCUMENT_ACCEPT, validateDealDocument } from "@/lib/deal-documents"
+import {
+  getCounterpartName,
+  getLastReadMessageId,
+  getTotalUnread,
+  groupConversationsByDeal,
+  isBuyerHidden,
+} from "@/lib/messages"
+import {
+  downloadMessageAttachment,
+  fetchConversations,
+  fetchMessages,
+  markConversationRead,
+  revealBuyerIdentity,
+  sendMessage,
+} from "@/services/messages-api"
+import type { Conversation, Message, MessageSenderRole } from "@/types/message"
+
+interface InboxProps {
+  role: MessageSenderRole
+  // Conversation to open first, e.g. one just started from a deal
+  initialConversationId?: string | null
+  onUnreadChange?: (unread: number) => void
+}
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+
+// 1:1 conversations between a seller and the buyers who activated their deals, grouped by deal
+export default function Inbox({ role, initialConversationId, onUnreadChange }: InboxProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(initialConversationId || null)
+  const [messages, setMessages] = useState<Message[]>([])
+  const [loadingMessages, setLoadingMessages] = useState(false)
+  const [draft, setDraft] = useState("")
+  const [files, setFiles] = useState<File[]>([])
+  const [sending, setSending] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const selected = conversations.find((conversation) => conversation._id === selectedId) || null
+
+  useEffect(() => {
+    fetchConversations()
+      .then((loaded) => {
+        setConversations(loaded)
+        if (!initialConversationId && loaded.length > 0) {
+          setSelectedId(groupConversationsByDeal(loaded)[0].conversations[0]._id)
+        }
+      })
+      .catch((error) => {
+        console.error("Error fetching conversations:", error)
+        toast({ title: "Error", description: "Failed to load conversations", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  useEffect(() => {
+    onUnreadChange?.(getTotalUnread(conversations))
+  }, [conversations])
+
+  // Load the open conversation and mark it read, which clears its badge and shows the sender a read receipt
+  useEffect(() => {
+    if (!selectedId) return
+
+    setLoadingMessages(true)
+    fetchMessages(selectedId)
+      .then(setMessages)
+      .catch((error) => console.error("Error fetching messages:", error))
+      .finally(() => setLoadingMessages(false))
+
+    markConversationRead(selectedId)
+      .then(() =>
+        setConversations((prev) =>
+          prev.map((conversation) =>
+            conversation._id === selectedId ? { ...conversation, unreadCount: 0 } : conversation,
+          ),
+        ),
+      )
+      .catch((error) => console.error("Error marking conversation read:", error))
+  }, [selectedId])
+
+  const handleFilesPicked = (picked: FileList | null) => {
+    const accepted: File[] = []
+    Array.from(picked || []).forEach((file) => {
+      const error = validateDealDocument(file)
+      if (error) {
+        toast({ title: "File not attached", description: error, variant: "destructive" })
+      } else {
+        accepted.push(file)
+      }
+    })
+    setFiles((prev) => [...prev, ...accepted])
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleSend = async () => {
+    if (!selected || (!draft.trim() && files.length === 0)) return
+
+    setSending(true)
+    try {
+      const message = await sendMessage(selected._id, draft.trim(), files)
+      setMessages((prev) => [...prev, message])
+      setConversations((prev) =>
+        prev.map((conversation) =>
+          conversation._id === selected._id
+            ? { ...conversation, lastMessage: message.body, lastMessageAt: message.sentAt }
+            : conversation,
+        ),
+      )
+      setDraft("")
+      setFiles([])
+    } catch (error: any) {
+      toast({
+        title: "Message not sent",
+        description: error.message || "Failed to send message",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleReveal = async () => {
+    if (!selected) return
+
+    try {
+      const updated = await revealBuyerIdentity(selected._id)
+      setConversations((prev) =>
+        prev.map((conversation) => (conversation._id === updated._id ? { ...conversation, ...updated } : conversation)),
+      )
+      toast({ title: "Identity revealed", description: "The seller can now see your name and company." })
+    } catch (error: any) {
+      toast({
+        title: "Reveal failed",
+        description: error.message || "Failed to reveal identity",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDownload = (message: Message, attachment: Message["attachments"][number]) =>
+    downloadMessageAttachment(message.conversationId, attachment).catch((error: any) =>
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to download attachment",
+        variant: "destructive",
+      }),
+    )
+
+  const lastReadMessageId = getLastReadMessageId(messages, role)
+
+  if (loading) {
+    return <div className="p-6 text-gray-500">Loading conversations...</div>
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="rounded-lg bg-white p-6 text-center text-gray-500 shadow">
+        {role === "seller"
+          ? "No conversations yet. Message an active buyer from one of your deals to start one."
+          : "No conversations yet. Message the seller from one of your active deals to start one."}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-10rem)] overflow-hidden rounded-lg bg-white shadow">
+      {/* Conversation list */}
+      <div className="w-80 shrink-0 overflow-y-auto border-r border-gray-200">
+        {groupConversationsByDeal(conversations).map((group) => (
+          <div key={group.dealId}>
+            <div className="bg-gray-50 px-4 py-2 text-xs font-medium uppercase text-gray-500">{group.dealTitle}</div>
+            {group.conversations.map((conversation) => (
+              <button
+                key={conversation._id}
+                type="button"
+                onClick={() => setSelectedId(conversation._id)}
+                className={`w-full border-b border-gray-100 px-4 py-3 text-left hover:bg-gray-50 ${
+                  conversation._id === selectedId ? "bg-teal-50" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1 truncate font-medium">
+                    {role === "seller" && isBuyerHidden(conversation) && <EyeOff className="h-3 w-3 text-gray-400" />}
+                    {getCounterpartName(conversation, role)}
+                  </span>
+                  {conversation.unreadCount > 0 && (
+                    <span className="rounded-full bg-[#3aafa9] px-2 py-0.5 text-xs text-white">
+                      {conversation.unreadCount}
+                    </span>
+                  )}
+                </div>
+                {conversation.lastMessage && (
+                  <p className="truncate text-sm text-gray-500">{conversation.lastMessage}</p>
+                )}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Thread */}
+      {selected ? (
+        <div className="flex flex-1 flex-col">
+          <div className="border-b border-gray-200 px-6 py-4">
+            <div className="font-medium">{getCounterpartName(selected, role)}</div>
+            <div className="text-sm text-gray-500">{selected.dealTitle}</div>
+          </div>
+
+          {role === "buyer" && isBuyerHidden(selected) && (
+            <div className="flex items-center justify-between gap-2 border-b border-yellow-200 bg-yellow-50 px-6 py-3 text-sm text-yellow-800">
+              <span>The seller sees you as an anonymous buyer, as your profile keeps your deals private.</span>
+              <Button size="sm" variant="outline" onClick={handleReveal}>
+                Reveal my identity
+              </Button>
+            </div>
+          )}
+
+          <div className="flex-1 space-y-3 overflow-y-auto px-6 py-4">
+            {loadingMessages ? (
+              <div className="text-gray-500">Loading messages...</div>
+            ) : messages.length === 0 ? (
+              <div className="text-gray-500">No messages yet.</div>
+            ) : (
+              messages.map((message) => {
+                const own = message.senderRole === role
+                return (
+                  <div key={message._id} className={`flex flex-col ${own ? "items-end" : "items-start"}`}>
+                    <div
+                      className={`max-w-[70%] rounded-lg px-4 py-2 text-sm ${
+                        own ? "bg-[#3aafa9] text-white" : "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {message.body && <p className="whitespace-pre-wrap">{message.body}</p>}
+                      {message.attachments.map((attachment) => (
+                        <button
+                          key={attachment.filename}
+                          type="button"
+                          onClick={() => handleDownload(message, attachment)}
+                          className="mt-1 flex items-center gap-1 underline"
+                        >
+                          <Download className="h-3 w-3" />
+                          {attachment.originalName}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="mt-1 flex items-center gap-1 text-xs text-gray-400">
+                      {formatTime(message.sentAt)}
+                      {message._id === lastReadMessageId && message.readAt && (
+                        <span className="flex items-center gap-1 text-teal-600">
+                          <CheckCheck className="h-3 w-3" />
+                          Read {formatTime(message.readAt)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )
+              })
+            )}
+          </div>
+
+          <div className="border-t border-gray-200 p-4">
+            {files.length > 0 && (
+              <div className="mb-2 flex flex-wrap gap-2">
+                {files.map((file, index) => (
+                  <span
+                    key={`${file.name}-${index}`}
+                    className="flex items-center gap-1 rounded bg-gray-100 px-2 py-1 text-xs text-gray-700"
+                  >
+                    {file.name}
+                    <button type="button" onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex items-end gap-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Write a message"
+                rows={2}
+                className="flex-1"
+              />
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={DOCUMENT_ACCEPT}
+                className="hidden"
+                onChange={(e) => handleFilesPicked(e.target.files)}
+              />
+              <Button variant="outline" size="icon" onClick={() => fileInputRef.current?.click()}>
+                <Paperclip className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={handleSend}
+                disabled={sending || (!draft.trim() && files.length === 0)}
+                className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white"
+              >
+                {sending ? "Sending..." : "Send"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-1 items-center justify-center text-gray-500">Select a conversation</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  NOTIFICATION_LABELS,
+  countUnreadNotifications,
+  getNotificationHref,
+  getNotificationPreferences,
+  isChannelEnabled,
+  type NotificationPreferencesRole,
+} from "@/lib/notifications"
+import {
+  fetchNotificationPreferences,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/services/notifications-api"
+import type { AppNotification, NotificationPreferences } from "@/types/notification"
+
+interface NotificationBellProps {
+  // Whose saved preferences decide which notifications show; without one, every notification shows
+  role?: NotificationPreferencesRole
+  settingsHref?: string
+}
+
+// Bell with the unread count; opens the caller's notifications, each linking into the deal it is about
+export default function NotificationBell({ role, settingsHref }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [open, setOpen] = useState(false)
+  const router = useRouter()
+
+  useEffect(() => {
+    const refresh = () => {
+      if (document.hidden || !localStorage.getItem("token")) return
+      fetchNotifications()
+        .then(setNotifications)
+        .catch((error) => console.error("Error fetching notifications:", error))
+    }
+
+    refresh()
+    document.addEventListener("visibilitychange", refresh)
+    return () => document.removeEventListener("visibilitychange", refresh)
+  }, [])
+
+  useEffect(() => {
+    if (!role || !localStorage.getItem("token")) return
+    fetchNotificationPreferences()
+      .then((saved) => setPreferences(getNotificationPreferences(role, saved)))
+      .catch((error) => console.error("Error fetching notification preferences:", error))
+  }, [role])
+
+  // Events turned off in-app stay out of the list and the unread count
+  const visibleNotifications = preferences
+    ? notifications.filter((notification) => isChannelEnabled(preferences, notification.type, "inApp"))
+    : notifications
+  const unread = countUnreadNotifications(visibleNotifications)
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read) {
+      setNotifications((prev) => prev.map((item) => (item._id === notification._id ? { ...item, read: true } : item)))
+      markNotificationRead(notification._id).catch((error) => console.error("Error marking notification read:", error))
+    }
+
+    const href = getNotificationHref(notification)
+    if (href) {
+      setOpen(false)
+      router.push(href)
+    }
+  }
+
+  const handleMarkAllRead = () => {
+    setNotifications((prev) => prev.map((item) => ({ ...item, read: true })))
+    markAllNotificationsRead().catch((error) => console.error("Error marking notifications read:", error))
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="relative">
+          <Bell className="h-5 w-5 text-gray-500" />
+          {unread > 0 && (
+            <div className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-xs text-white">
+              {unread}
+            </div>
+          )}
+          <span className="sr-only">Notifications</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+          <span className="font-medium">Notifications</span>
+          {unread > 0 && (
+            <Button variant="ghost" size="sm" className="h-auto p-0 text-xs text-teal-600" onClick={handleMarkAllRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {visibleNotifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up.</p>
+          ) : (
+            visibleNotifications.map((notification) => (
+              <button
+                key={notification._id}
+                type="button"
+                onClick={() => handleOpenNotification(notification)}
+                className={`w-full border-b border-gray-100 px-4 py-3 text-left hover:bg-gray-50 ${
+                  notification.read ? "" : "bg-teal-50"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span className="font-medium text-teal-700">{NOTIFICATION_LABELS[notification.type]}</span>
+                  <span>{new Date(notification.createdAt).toLocaleDateString()}</span>
+                </div>
+                <p className="mt-1 text-sm text-gray-800">{notification.message}</p>
+                {notification.dealTitle && <p className="text-xs text-gray-500">{notification.dealTitle}</p>}
+              </button>
+            ))
+          )}
+        </div>
+        {settingsHref && (
+          <button
+            type="button"
+            onClick={() => {
+              setOpen(false)
+              router.push(settingsHref)
+            }}
+            className="w-full px-4 py-2 text-center text-xs text-teal-600 hover:bg-gray-50"
+          >
+            Notification settings
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import type { RenderedDigest } from "@/lib/notification-digest"
+import {
+  DIGEST_FREQUENCY_OPTIONS,
+  NOTIFICATION_LABELS,
+  NOTIFICATION_PREFERENCE_EVENTS,
+  getNotificationPreferences,
+  type NotificationPreferencesRole,
+} from "@/lib/notifications"
+import {
+  fetchDigestPreview,
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+  sendDigest,
+} from "@/services/notifications-api"
+import type {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+} from "@/types/notification"
+
+const CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: "inApp", label: "In-app" },
+  { key: "email", label: "Email" },
+]
+
+// Per-event channels plus the digest frequency, with a preview of the digest email as it would go out now
+export default function NotificationPreferencesForm({ role }: { role: NotificationPreferencesRole }) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() => getNotificationPreferences(role))
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [preview, setPreview] = useState<RenderedDigest | null>(null)
+  const [digestAction, setDigestAction] = useState<"preview" | "send" | null>(null)
+
+  useEffect(() => {
+    fetchNotificationPreferences()
+      .then((saved) => setPreferences(getNotificationPreferences(role, saved)))
+      .catch((error) => {
+        console.error("Error fetching notification preferences:", error)
+        toast({ title: "Error", description: "Failed to load notification preferences", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [role])
+
+  const handleChannelChange = (type: NotificationType, channel: NotificationChannel, enabled: boolean) =>
+    setPreferences((prev) => ({
+      ...prev,
+      channels: {
+        ...prev.channels,
+        [type]: { inApp: true, email: true, ...prev.channels[type], [channel]: enabled },
+      },
+    }))
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await saveNotificationPreferences(preferences)
+      setPreview(null)
+      toast({ title: "Preferences saved", description: "Your notification settings have been updated." })
+    } catch (error: any) {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save notification preferences",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Previews and sends render from the saved preferences on the server, not unsaved edits
+  const handlePreview = async () => {
+    setDigestAction("preview")
+    try {
+      setPreview(await fetchDigestPreview(role))
+    } catch (error: any) {
+      toast({
+        title: "Preview failed",
+        description: error.message || "Failed to render digest",
+        variant: "destructive",
+      })
+    } finally {
+      setDigestAction(null)
+    }
+  }
+
+  const handleSend = async () => {
+    setDigestAction("send")
+    try {
+      const { to } = await sendDigest(role)
+      toast({ title: "Digest sent", description: `The digest was emailed to ${to}.` })
+    } catch (error: any) {
+      toast({ title: "Send failed", description: error.message || "Failed to send digest", variant: "destructive" })
+    } finally {
+      setDigestAction(null)
+    }
+  }
+
+  if (loading) {
+    return <div className="p-6 text-gray-500">Loading preferences...</div>
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="rounded-lg bg-white p-6 shadow">
+        <h2 className="text-lg font-medium">Notifications</h2>
+        <p className="mb-4 text-sm text-gray-500">Choose where you hear about each kind of event.</p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-500">
+              <th className="py-2 font-medium">Event</th>
+              {CHANNELS.map((channel) => (
+                <th key={channel.key} className="w-24 py-2 text-center font-medium">
+                  {channel.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {NOTIFICATION_PREFERENCE_EVENTS[role].map((type) => (
+              <tr key={type} className="border-b border-gray-100">
+                <td className="py-3">{NOTIFICATION_LABELS[type]}</td>
+                {CHANNELS.map((channel) => (
+                  <td key={channel.key} className="py-3 text-center">
+                    <Checkbox
+                      aria-label={`${NOTIFICATION_LABELS[type]} ${channel.label}`}
+                      checked={preferences.channels[type]?.[channel.key] ?? true}
+                      onCheckedChange={(checked) => handleChannelChange(type, channel.key, checked === true)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-6 space-y-2">
+          <Label htmlFor="digestFrequency">{role === "buyer" ? "New deal alerts" : "Buyer response alerts"}</Label>
+          <Select
+            value={preferences.digestFrequency}
+            onValueChange={(value) =>
+              setPreferences((prev) => ({ ...prev, digestFrequency: value as DigestFrequency }))
+            }
+          >
+            <SelectTrigger id="digestFrequency" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_FREQUENCY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {role === "buyer"
+              ? "How often we email you about deals you're invited to."
+              : "How often we email you when buyers accept or pass on your deals."}
+          </p>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <Button onClick={handleSave} disabled={saving} className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white">
+            {saving ? "Saving..." : "Save Preferences"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-lg bg-white p-6 shadow">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium">Digest email</h2>
+            <p className="text-sm text-gray-500">See the digest as it would be sent now, using your saved settings.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePreview} disabled={digestAction !== null}>
+              {digestAction === "preview" ? "Rendering..." : "Preview Digest"}
+            </Button>
+            <Button variant="outline" onClick={handleSend} disabled={digestAction !== null}>
+              {digestAction === "send" ? "Sending..." : "Email Me a Copy"}
+            </Button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="mt-4 overflow-hidden rounded-md border border-gray-200">
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-2 text-sm">
+              <span className="text-gray-500">Subject:</span> {preview.subject}
+            </div>
+            <iframe title="Digest preview" srcDoc={preview.html} sandbox="" className="h-96 w-full" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { AlertTriangle, CheckCircle2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "@/components/ui/use-toast"
+import BuyerDealCard from "@/components/buyer/deal-card"
+import BuyerDealDetailsDialog from "@/components/buyer/deal-details-dialog"
+import { mapBuyerDeal, type BuyerDeal } from "@/lib/buyer-deals"
+import { findAnonymityIssues, type SellerIdentity } from "@/lib/deal-anonymity"
+import { buildDealFields, type SellerFormData } from "@/lib/deal-form"
+import { getDocumentKey } from "@/lib/deal-documents"
+import type { GeoItem } from "@/lib/geography-data"
+import type { IndustryItem } from "@/lib/industry-data"
+import type { DealDocument } from "@/types/deal"
+import { getSellerProfile } from "@/services/api"
+
+interface BuyerPreviewProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  formData: SellerFormData
+  flatGeoData: GeoItem[]
+  flatIndustryData: IndustryItem[]
+}
+
+// The unsaved deal as a buyer would see it, before (teaser) and after accepting the NDA
+export default function BuyerPreview({
+  open,
+  onOpenChange,
+  formData,
+  flatGeoData,
+  flatIndustryData,
+}: BuyerPreviewProps) {
+  const [identity, setIdentity] = useState<SellerIdentity>({})
+  const [detailsOpen, setDetailsOpen] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    getSellerProfile()
+      .then((profile) => setIdentity(profile || {}))
+      .catch(() => setIdentity({}))
+  }, [open])
+
+  const previewDeal = useMemo(() => {
+    // Picked files are uploaded after publishing with the default access tier, so they preview as post-NDA documents
+    const documents: DealDocument[] = formData.documents.map((file) => ({
+      filename: getDocumentKey(file),
+      originalName: file.name,
+      path: "",
+      size: file.size,
+      mimetype: file.type,
+      uploadedAt: new Date().toISOString(),
+    }))
+    return { _id: "preview", status: "active", documents, ...buildDealFields(formData, flatGeoData, flatIndustryData) }
+  }, [formData, flatGeoData, flatIndustryData])
+
+  const teaserDeal = mapBuyerDeal(previewDeal, "pending", null)
+  const activeDeal = mapBuyerDeal(previewDeal, "active", null)
+
+  const anonymityIssues = findAnonymityIssues(
+    { "Deal Title": formData.dealTitle, "Company Description": formData.companyDescription },
+    identity,
+  )
+
+  const notInPreview = () =>
+    toast({
+      title: "Preview only",
+      description: "Buyers can use this once the deal is published.",
+    })
+
+  const renderCard = (deal: BuyerDeal) => (
+    <div className="max-w-xl">
+      <BuyerDealCard
+        deal={deal}
+        updated={false}
+        onOpen={(clicked) => (clicked.status === "active" ? setDetailsOpen(true) : notInPreview())}
+        onViewCIM={(e, clicked) => {
+          e.stopPropagation()
+          if (clicked.status === "active") setDetailsOpen(true)
+          else notInPreview()
+        }}
+        onPass={notInPreview}
+        onDownloadDocument={notInPreview}
+      />
+    </div>
+  )
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>What buyers will see</DialogTitle>
+          </DialogHeader>
+
+          <Tabs defaultValue="teaser">
+            <TabsList>
+              <TabsTrigger value="teaser">Teaser (before NDA)</TabsTrigger>
+              <TabsTrigger value="nda">After NDA</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="teaser" className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Every invited buyer sees this card in their pending deals. Opening it takes them to the terms of access,
+                not the full details.
+              </p>
+              {anonymityIssues.length > 0 ? (
+                <div className="flex gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <div>
+                    <div className="font-medium">This teaser may identify the business</div>
+                    <ul className="list-disc pl-4">
+                      {anonymityIssues.map((issue, index) => (
+                        <li key={index}>
+                          {issue.reason} in {issue.field}: &quot;{issue.match}&quot;
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  No contact details or names found in the title and description.
+                </div>
+              )}
+              {renderCard(teaserDeal)}
+            </TabsContent>
+
+            <TabsContent value="nda" className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Buyers who accept the terms see the deal as active, with post-NDA documents and the full details dialog.
+              </p>
+              {renderCard(activeDeal)}
+              <Button variant="outline" onClick={() => setDetailsOpen(true)}>
+                Open Deal Details
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <BuyerDealDetailsDialog
+        deal={activeDeal}
+        open={detailsOpen}
+        onOpenChange={setDetailsOpen}
+        viewerRole="seller"
+        onPass={notInPreview}
+        onDownloadDocument={notInPreview}
+      />
+    </>
+  )
+}
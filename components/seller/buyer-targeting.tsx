@@ -0,0 +1,245 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Check, Send, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { toast } from "@/components/ui/use-toast"
+import {
+  BUYER_SORT_OPTIONS,
+  MATCH_CRITERIA,
+  countMatchedCriteria,
+  filterAndSortBuyers,
+  type BuyerSortKey,
+  type MatchCriterion,
+} from "@/lib/buyer-matching"
+import { targetBuyers } from "@/services/deal-api"
+import type { MatchedBuyer } from "@/types/deal"
+
+interface BuyerTargetingProps {
+  dealId: string
+  buyers: MatchedBuyer[]
+  loading: boolean
+  // Buyer user IDs already invited to this deal
+  invitedBuyerIds: string[]
+  onInvited: (buyerIds: string[]) => void
+}
+
+export default function BuyerTargeting({ dealId, buyers, loading, invitedBuyerIds, onInvited }: BuyerTargetingProps) {
+  const [requiredCriteria, setRequiredCriteria] = useState<MatchCriterion[]>([])
+  const [sortKey, setSortKey] = useState<BuyerSortKey>("matchPercentage")
+  const [hideInvited, setHideInvited] = useState(false)
+  const [selectedBuyerIds, setSelectedBuyerIds] = useState<string[]>([])
+  const [sending, setSending] = useState(false)
+
+  const visibleBuyers = useMemo(
+    () =>
+      filterAndSortBuyers(buyers, requiredCriteria, sortKey).filter(
+        (buyer) => !hideInvited || !invitedBuyerIds.includes(buyer.buyerId),
+      ),
+    [buyers, requiredCriteria, sortKey, hideInvited, invitedBuyerIds],
+  )
+  const selectableBuyerIds = visibleBuyers
+    .filter((buyer) => buyer.buyerId && !invitedBuyerIds.includes(buyer.buyerId))
+    .map((buyer) => buyer.buyerId)
+  const allSelected =
+    selectableBuyerIds.length > 0 && selectableBuyerIds.every((buyerId) => selectedBuyerIds.includes(buyerId))
+
+  const toggleCriterion = (key: MatchCriterion) => {
+    setRequiredCriteria((prev) => (prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]))
+  }
+
+  const toggleBuyer = (buyerId: string) => {
+    setSelectedBuyerIds((prev) => (prev.includes(buyerId) ? prev.filter((id) => id !== buyerId) : [...prev, buyerId]))
+  }
+
+  const toggleAll = () => {
+    setSelectedBuyerIds((prev) =>
+      allSelected
+        ? prev.filter((buyerId) => !selectableBuyerIds.includes(buyerId))
+        : Array.from(new Set([...prev, ...selectableBuyerIds])),
+    )
+  }
+
+  const handleInvite = async (buyerIds: string[]) => {
+    if (buyerIds.length === 0) return
+
+    try {
+      setSending(true)
+      await targetBuyers(dealId, buyerIds)
+      toast({
+        title: "Invites sent successfully",
+        description: `Sent invites to ${buyerIds.length} buyer(s)`,
+      })
+      setSelectedBuyerIds((prev) => prev.filter((buyerId) => !buyerIds.includes(buyerId)))
+      onInvited(buyerIds)
+    } catch (error: any) {
+      console.error("Error sending invites:", error)
+      toast({
+        title: "Error sending invites",
+        description: error.message || "Failed to send invites. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="space-y-3">
+        <div className="text-sm font-medium text-gray-700">Only show buyers matching</div>
+        <div className="flex flex-wrap gap-2">
+          {MATCH_CRITERIA.map(({ key, label }) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => toggleCriterion(key)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                requiredCriteria.includes(key)
+                  ? "bg-[#3aafa9] border-[#3aafa9] text-white"
+                  : "border-gray-300 text-gray-600 hover:bg-gray-50"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-gray-600">Sort by</Label>
+            <Select value={sortKey} onValueChange={(value) => setSortKey(value as BuyerSortKey)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUYER_SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="hide-invited" checked={hideInvited} onCheckedChange={setHideInvited} />
+            <Label htmlFor="hide-invited" className="text-sm text-gray-600">
+              Hide invited buyers
+            </Label>
+          </div>
+        </div>
+
+        <Button
+          className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
+          onClick={() => handleInvite(selectedBuyerIds)}
+          disabled={selectedBuyerIds.length === 0 || sending}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {sending ? "Sending..." : `Invite Selected (${selectedBuyerIds.length})`}
+        </Button>
+      </div>
+
+      {/* Buyers */}
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : visibleBuyers.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          {buyers.length === 0 ? "No buyers match this deal yet." : "No buyers match the selected criteria."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b border-gray-200">
+                <th className="pb-3 pr-3">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={toggleAll}
+                    disabled={selectableBuyerIds.length === 0}
+                    aria-label="Select all buyers"
+                  />
+                </th>
+                <th className="pb-3 font-medium text-gray-600">Buyer</th>
+                <th className="pb-3 font-medium text-gray-600">Match</th>
+                {MATCH_CRITERIA.map(({ key, label }) => (
+                  <th key={key} className="pb-3 px-1 font-medium text-gray-600 text-center text-xs">
+                    {label}
+                  </th>
+                ))}
+                <th className="pb-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleBuyers.map((buyer) => {
+                const invited = invitedBuyerIds.includes(buyer.buyerId)
+
+                return (
+                  <tr key={buyer._id} className="border-b border-gray-100">
+                    <td className="py-3 pr-3">
+                      <Checkbox
+                        checked={selectedBuyerIds.includes(buyer.buyerId)}
+                        onCheckedChange={() => toggleBuyer(buyer.buyerId)}
+                        disabled={invited || !buyer.buyerId}
+                        aria-label={`Select ${buyer.companyName}`}
+                      />
+                    </td>
+                    <td className="py-3">
+                      <p className="font-medium">{buyer.companyName || "Unknown Company"}</p>
+                      <p className="text-gray-500">
+                        {buyer.buyerName || "Unknown"} · {buyer.buyerEmail || "Not provided"}
+                      </p>
+                    </td>
+                    <td className="py-3">
+                      <span className="bg-teal-100 text-teal-800 text-xs px-2 py-1 rounded whitespace-nowrap">
+                        {buyer.matchPercentage ?? "N/A"}%
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {countMatchedCriteria(buyer)}/{MATCH_CRITERIA.length} criteria
+                      </div>
+                    </td>
+                    {MATCH_CRITERIA.map(({ key, label }) => (
+                      <td key={key} className="py-3 px-1 text-center">
+                        {buyer.matchDetails?.[key] ? (
+                          <Check className="h-4 w-4 text-green-600 mx-auto" aria-label={`${label} matches`} />
+                        ) : (
+                          <X className="h-4 w-4 text-gray-300 mx-auto" aria-label={`${label} does not match`} />
+                        )}
+                      </td>
+                    ))}
+                    <td className="py-3 text-right">
+                      {invited ? (
+                        <span className="px-3 py-1 rounded-full text-xs bg-gray-100 text-gray-600">Invited</span>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-[#3aafa9] text-[#3aafa9] hover:bg-[#3aafa91a] hover:text-[#3aafa9]"
+                          onClick={() => handleInvite([buyer.buyerId])}
+                          disabled={sending || !buyer.buyerId}
+                        >
+                          Invite
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
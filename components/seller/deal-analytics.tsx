@@ -0,0 +1,177 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, LabelList, Line, LineChart, XAxis, YAxis } from "recharts"
+import { BarChart3 } from "lucide-react"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  buildDealComparison,
+  buildDealFunnel,
+  buildResponseTrend,
+  type DealAnalyticsInput,
+  type DealStatusSummary,
+} from "@/lib/deal-analytics"
+
+interface DealAnalyticsProps {
+  deals: { _id: string; title: string }[]
+  // Loaded by the dashboard, which already needs them for the board and the buyer matching
+  summaries: Record<string, DealStatusSummary>
+  matchedCounts: Record<string, number>
+  loading: boolean
+}
+
+const funnelConfig = {
+  count: { label: "Buyers", color: "#3aafa9" },
+} satisfies ChartConfig
+
+const trendConfig = {
+  invited: { label: "Invited", color: "#94a3b8" },
+  accepted: { label: "Accepted", color: "#3aafa9" },
+  passed: { label: "Passed", color: "#ef4444" },
+} satisfies ChartConfig
+
+const comparisonConfig = {
+  matched: { label: "Matched", color: "#cbd5e1" },
+  targeted: { label: "Targeted", color: "#7dd3cf" },
+  active: { label: "Active", color: "#3aafa9" },
+} satisfies ChartConfig
+
+const formatWeek = (week: string) =>
+  new Date(week).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })
+
+export default function DealAnalytics({ deals, summaries, matchedCounts, loading }: DealAnalyticsProps) {
+  const [selectedDealId, setSelectedDealId] = useState("")
+
+  const analytics = useMemo<DealAnalyticsInput[]>(
+    () =>
+      deals
+        .filter((deal) => summaries[deal._id])
+        .map((deal) => ({ summary: summaries[deal._id], matchedCount: matchedCounts[deal._id] || 0 })),
+    [deals, summaries, matchedCounts],
+  )
+
+  // The first deal is shown until the seller picks another
+  const selected = analytics.find((item) => item.summary.deal._id === selectedDealId) || analytics[0]
+  const funnel = useMemo(() => (selected ? buildDealFunnel(selected) : []), [selected])
+  const trend = useMemo(() => buildResponseTrend(analytics.map((item) => item.summary)), [analytics])
+  const comparison = useMemo(() => buildDealComparison(analytics), [analytics])
+
+  if (deals.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-8">
+      <div className="flex items-center gap-2">
+        <BarChart3 className="h-5 w-5 text-[#3aafa9]" />
+        <h2 className="text-lg font-medium">Deal Analytics</h2>
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Skeleton className="h-64 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : analytics.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">Analytics are not available right now.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-md font-medium">Buyer Funnel</h3>
+                <Select value={selected?.summary.deal._id} onValueChange={setSelectedDealId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {analytics.map((item) => (
+                      <SelectItem key={item.summary.deal._id} value={item.summary.deal._id}>
+                        {item.summary.deal.title || "Untitled deal"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ChartContainer config={funnelConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={funnel} layout="vertical" margin={{ left: 8, right: 32 }}>
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={72} />
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4}>
+                    <LabelList dataKey="count" position="right" className="fill-foreground" />
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div>
+              <h3 className="text-md font-medium mb-2 leading-10">Buyer Responses by Week</h3>
+              {trend.length === 0 ? (
+                <div className="h-64 flex items-center justify-center text-gray-500">No invitations sent yet.</div>
+              ) : (
+                <ChartContainer config={trendConfig} className="h-64 w-full aspect-auto">
+                  <LineChart data={trend} margin={{ left: 8, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week" tickLine={false} axisLine={false} tickFormatter={formatWeek} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatWeek(week)}`} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="invited" type="monotone" stroke="var(--color-invited)" strokeWidth={2} dot={false} />
+                    <Line
+                      dataKey="accepted"
+                      type="monotone"
+                      stroke="var(--color-accepted)"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                    <Line dataKey="passed" type="monotone" stroke="var(--color-passed)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </div>
+          </div>
+
+          {comparison.length > 1 && (
+            <div>
+              <h3 className="text-md font-medium mb-2">Deal Comparison</h3>
+              <ChartContainer config={comparisonConfig} className="h-72 w-full aspect-auto">
+                <BarChart data={comparison} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="title"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(title: string) => (title.length > 18 ? `${title.slice(0, 18)}…` : title)}
+                  />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="matched" fill="var(--color-matched)" radius={4} />
+                  <Bar dataKey="targeted" fill="var(--color-targeted)" radius={4} />
+                  <Bar dataKey="active" fill="var(--color-active)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+              <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-500">
+                {comparison.map((row) => (
+                  <span key={row.dealId}>
+                    {row.title || "Untitled deal"}: {row.responseRate}% response rate
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { GripVertical } from "lucide-react"
+import { toast } from "@/components/ui/use-toast"
+import {
+  DEAL_STAGES,
+  canTransitionStage,
+  getDealStage,
+  getStageConfig,
+  type DealStage,
+  type DealStageChange,
+} from "@/lib/deal-stages"
+import type { DealStatusSummary } from "@/lib/deal-analytics"
+import { patchDeal } from "@/services/deal-api"
+
+interface BoardDeal {
+  _id: string
+  title: string
+  status: string
+  stage?: DealStage
+  stageHistory?: DealStageChange[]
+  invitationStatus?: Record<string, { invitedAt: string; response?: string }>
+}
+
+type BoardColumnKey = DealStage | "off-market" | "completed"
+
+interface DealBoardProps<T extends BoardDeal> {
+  deals: T[]
+  // Status summaries by deal ID, loaded by the dashboard
+  summaries: Record<string, DealStatusSummary>
+  // Closing a deal needs the same questions as the card buttons, so those drops open the existing dialogs
+  onCompleteDrop: (deal: T) => void
+  onOffMarketDrop: (deal: T) => void
+  onDealChange: (dealId: string, changes: Partial<BoardDeal>) => void
+}
+
+const BOARD_COLUMNS: { key: BoardColumnKey; label: string }[] = [
+  ...DEAL_STAGES.map((stage) => ({ key: stage.key, label: stage.label })),
+  { key: "off-market", label: "Off Market" },
+  { key: "completed", label: "Completed" },
+]
+
+const getBoardColumn = (deal: BoardDeal): BoardColumnKey => {
+  if (deal.status === "off-market" || deal.status === "completed") return deal.status
+  return getDealStage(deal) || DEAL_STAGES[0].key
+}
+
+// Pipeline view of the seller's deals with one column per stage; dragging a card changes its stage or status
+export default function DealBoard<T extends BoardDeal>({
+  deals,
+  summaries,
+  onCompleteDrop,
+  onOffMarketDrop,
+  onDealChange,
+}: DealBoardProps<T>) {
+  const router = useRouter()
+  const [draggedDealId, setDraggedDealId] = useState<string | null>(null)
+  const [hoveredColumn, setHoveredColumn] = useState<BoardColumnKey | null>(null)
+
+  const draggedDeal = deals.find((deal) => deal._id === draggedDealId)
+
+  // Live deals follow the stage model, off-market deals can be reopened at any stage, completed deals stay put
+  const canDrop = (deal: BoardDeal, column: BoardColumnKey) => {
+    const from = getBoardColumn(deal)
+    if (from === column || from === "completed") return false
+    if (column === "off-market" || column === "completed" || from === "off-market") return true
+    return canTransitionStage(from, column)
+  }
+
+  const handleDrop = async (column: BoardColumnKey) => {
+    const deal = draggedDeal
+    setDraggedDealId(null)
+    setHoveredColumn(null)
+    if (!deal || !canDrop(deal, column)) return
+
+    if (column === "completed") return onCompleteDrop(deal)
+    if (column === "off-market") return onOffMarketDrop(deal)
+
+    const changes: Partial<BoardDeal> = {
+      stage: column,
+      stageHistory: [...(deal.stageHistory || []), { stage: column, changedAt: new Date().toISOString() }],
+    }
+    if (deal.status !== "active") changes.status = "active"
+
+    try {
+      await patchDeal(deal._id, changes)
+      onDealChange(deal._id, changes)
+      toast({
+        title: "Deal stage updated",
+        description: `${deal.title} is now at ${getStageConfig(column).label}.`,
+      })
+    } catch (error: any) {
+      console.error("Error moving deal:", error)
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to move deal",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {BOARD_COLUMNS.map((column) => {
+        const columnDeals = deals.filter((deal) => getBoardColumn(deal) === column.key)
+        const droppable = !!draggedDeal && canDrop(draggedDeal, column.key)
+
+        return (
+          <div
+            key={column.key}
+            onDragOver={(event) => {
+              if (!droppable) return
+              event.preventDefault()
+              setHoveredColumn(column.key)
+            }}
+            onDragLeave={() => setHoveredColumn((current) => (current === column.key ? null : current))}
+            onDrop={(event) => {
+              event.preventDefault()
+              handleDrop(column.key)
+            }}
+            className={`flex w-60 shrink-0 flex-col rounded-lg border p-3 transition-colors ${
+              hoveredColumn === column.key
+                ? "border-[#3aafa9] bg-teal-50"
+                : droppable
+                  ? "border-dashed border-[#3aafa9] bg-gray-50"
+                  : "border-gray-200 bg-gray-50"
+            }`}
+          >
+            <div className="mb-3 flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-700">{column.label}</h3>
+              <span className="rounded-full bg-white px-2 text-xs text-gray-500">{columnDeals.length}</span>
+            </div>
+
+            <div className="flex min-h-24 flex-col gap-2">
+              {columnDeals.map((deal) => {
+                const summary = summaries[deal._id]?.summary
+                return (
+                  <div
+                    key={deal._id}
+                    draggable={deal.status !== "completed"}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move"
+                      event.dataTransfer.setData("text/plain", deal._id)
+                      setDraggedDealId(deal._id)
+                    }}
+                    onDragEnd={() => {
+                      setDraggedDealId(null)
+                      setHoveredColumn(null)
+                    }}
+                    className={`rounded-md border border-gray-200 bg-white p-3 shadow-sm ${
+                      deal.status !== "completed" ? "cursor-grab" : ""
+                    } ${draggedDealId === deal._id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-start gap-1">
+                      <GripVertical className="mt-0.5 h-4 w-4 shrink-0 text-gray-300" />
+                      <button
+                        type="button"
+                        className="text-left text-sm font-medium text-gray-900 hover:text-[#3aafa9]"
+                        onClick={() => router.push(`/seller/deal?id=${deal._id}`)}
+                      >
+                        {deal.title}
+                      </button>
+                    </div>
+                    <div className="mt-2 flex gap-3 pl-5 text-xs text-gray-500">
+                      <span>
+                        Active: <span className="font-medium text-teal-600">{summary?.totalActive ?? "-"}</span>
+                      </span>
+                      <span>
+                        Pending: <span className="font-medium text-gray-700">{summary?.totalPending ?? "-"}</span>
+                      </span>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
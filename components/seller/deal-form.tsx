@@ -1,302 +1,397 @@
 "use client"
 
 import type React from "react"
-import { useState } from "react"
-import { X } from "lucide-react"
-import type { Deal } from "@/types/deal"
+import { useEffect, useState } from "react"
+import { X, Loader2 } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import GeographySelector from "@/components/seller/geography-selector"
+import IndustrySelector from "@/components/seller/industry-selector"
+import { getGeoData, flattenGeoData, type Continent, type GeoItem } from "@/lib/geography-data"
+import { getIndustryData, flattenIndustryData, type IndustryItem } from "@/lib/industry-data"
+import {
+  buildDealFields,
+  diffDealFields,
+  mapDealToFormData,
+  emptySellerFormData,
+  type DealAmountField,
+  type DealFields,
+  type DealFieldChange,
+  type SellerFormData,
+} from "@/lib/deal-form"
+import CurrencySelect from "@/components/currency-select"
 
 interface DealFormProps {
   onClose: () => void
-  onSubmit: (deal: Deal) => void
-  initialData?: Partial<Deal>
+  // Receives only the changed fields plus the human-readable diff shown to the seller
+  onSubmit: (changes: Partial<DealFields>, diff: DealFieldChange[]) => Promise<void> | void
+  initialData: any
 }
 
 export default function DealForm({ onClose, onSubmit, initialData }: DealFormProps) {
-  const [formData, setFormData] = useState<Partial<Deal>>(
-    initialData || {
-      title: "",
-      companyDescription: "",
-      industry: "",
-      geography: "",
-      yearsInBusiness: 0,
-      trailingRevenue: 0,
-      trailingEBITDA: 0,
-      revenueGrowth: 0,
-      netIncome: 0,
-      askingPrice: 0,
-      businessMode: "",
-      managementPreferences: "",
-      documents: [],
-    },
-  )
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [geoData, setGeoData] = useState<Continent[]>([])
+  const [flatGeoData, setFlatGeoData] = useState<GeoItem[]>([])
+  const [flatIndustryData, setFlatIndustryData] = useState<IndustryItem[]>([])
+  const [originalFields, setOriginalFields] = useState<DealFields | null>(null)
+  const [formData, setFormData] = useState<SellerFormData>(emptySellerFormData)
+  const [review, setReview] = useState<{ changes: DealFieldChange[]; patch: Partial<DealFields> } | null>(null)
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target
+  // Load the pickers' data and map the deal into form state. Keyed on the deal's id, so a pushed status change
+  // or wave dispatch that replaces the page's deal object doesn't wipe the seller's unsaved edits.
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [geoResponse, industryResponse] = await Promise.all([getGeoData(), getIndustryData()])
+        const flatGeo = flattenGeoData(geoResponse.continents)
+        const flatIndustry = flattenIndustryData(industryResponse.sectors)
+        const mapped = mapDealToFormData(initialData, flatGeo, flatIndustry)
 
-    // Handle numeric fields
-    if (
-      ["yearsInBusiness", "trailingRevenue", "trailingEBITDA", "revenueGrowth", "netIncome", "askingPrice"].includes(
-        name,
-      )
-    ) {
-      setFormData({
-        ...formData,
-        [name]: value === "" ? 0 : Number(value),
-      })
-    } else {
-      setFormData({
-        ...formData,
-        [name]: value,
-      })
+        setGeoData(geoResponse.continents)
+        setFlatGeoData(flatGeo)
+        setFlatIndustryData(flatIndustry)
+        setFormData(mapped)
+        // Diff against the deal as it round-trips through the form, so untouched fields never show as changed
+        setOriginalFields(buildDealFields(mapped, flatGeo, flatIndustry))
+      } catch (error) {
+        console.error("Error loading form data:", error)
+      } finally {
+        setIsLoading(false)
+      }
     }
+
+    loadData()
+  }, [initialData?._id])
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>, fieldName: keyof SellerFormData) => {
+    const value = e.target.value === "" ? 0 : Number.parseFloat(e.target.value)
+    setFormData((prev) => ({ ...prev, [fieldName]: value }))
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleCheckboxChange = (
+    checked: boolean,
+    value: string,
+    fieldName: "businessModels" | "managementPreferences",
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [fieldName]: checked ? [...prev[fieldName], value] : prev[fieldName].filter((item) => item !== value),
+    }))
+  }
+
+  const handleGeoChange = (ids: string[]) => {
+    setFormData((prev) => ({ ...prev, geographySelections: ids }))
+  }
+
+  const handleIndustrySelection = (id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      industrySelections: prev.industrySelections.includes(id)
+        ? prev.industrySelections.filter((itemId) => itemId !== id)
+        : [...prev.industrySelections, id],
+    }))
+  }
+
+  // Build the field-level diff and switch to the review step
+  const handleReview = (e: React.FormEvent) => {
     e.preventDefault()
-    // Add validation here if needed
-    onSubmit(formData as Deal)
+    if (!originalFields) return
+
+    setReview(diffDealFields(originalFields, buildDealFields(formData, flatGeoData, flatIndustryData)))
+  }
+
+  const handleConfirm = async () => {
+    if (!review || review.changes.length === 0) return
+
+    setIsSaving(true)
+    try {
+      await onSubmit(review.patch, review.changes)
+    } finally {
+      setIsSaving(false)
+    }
   }
 
+  const inputClassName =
+    "w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-4 border-b border-[#d0d5dd]">
-          <h2 className="text-xl font-medium">{initialData ? "Edit Deal" : "Add New Deal"}</h2>
+          <h2 className="text-xl font-medium">{review ? "Review Changes" : "Edit Deal"}</h2>
           <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100">
             <X className="w-5 h-5" />
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {/* Overview Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-[#3aafa9]">Overview</h3>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Deal Title</label>
-                <input
-                  type="text"
-                  name="title"
-                  value={formData.title}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Industry</label>
-                <select
-                  name="industry"
-                  value={formData.industry}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  required
-                >
-                  <option value="">Select Industry</option>
-                  <option value="Technology">Technology</option>
-                  <option value="Healthcare">Healthcare</option>
-                  <option value="Finance">Finance</option>
-                  <option value="Retail">Retail</option>
-                  <option value="Manufacturing">Manufacturing</option>
-                  <option value="Other">Other</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Geography</label>
-                <select
-                  name="geography"
-                  value={formData.geography}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  required
-                >
-                  <option value="">Select Geography</option>
-                  <option value="North America">North America</option>
-                  <option value="Europe">Europe</option>
-                  <option value="Asia">Asia</option>
-                  <option value="South America">South America</option>
-                  <option value="Africa">Africa</option>
-                  <option value="Australia">Australia</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Years in Business</label>
-                <input
-                  type="number"
-                  name="yearsInBusiness"
-                  value={formData.yearsInBusiness}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  min="0"
-                  required
-                />
-              </div>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#3aafa9]" />
+          </div>
+        ) : review ? (
+          <div className="p-6 space-y-6">
+            {review.changes.length === 0 ? (
+              <p className="text-[#667085]">You haven't changed anything yet.</p>
+            ) : (
+              <>
+                <p className="text-sm text-[#667085]">
+                  Only the fields below will be updated. Buyers already targeted with this deal will see it marked
+                  as updated.
+                </p>
+                <div className="border border-[#d0d5dd] rounded-md overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-[#667085]">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">Field</th>
+                        <th className="px-4 py-2 font-medium">Before</th>
+                        <th className="px-4 py-2 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {review.changes.map((change) => (
+                        <tr key={change.label} className="border-t border-[#d0d5dd] align-top">
+                          <td className="px-4 py-2 font-medium">{change.label}</td>
+                          <td className="px-4 py-2 text-red-600 line-through break-words">{change.before || "—"}</td>
+                          <td className="px-4 py-2 text-green-700 break-words">{change.after || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
 
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-[#667085] mb-1">Company Description</label>
-                <textarea
-                  name="companyDescription"
-                  value={formData.companyDescription}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  rows={3}
-                  required
-                />
-              </div>
+            <div className="flex justify-end gap-3 pt-4 border-t border-[#d0d5dd]">
+              <button
+                type="button"
+                onClick={() => setReview(null)}
+                className="px-6 py-2 border border-[#d0d5dd] rounded-md text-[#667085]"
+                disabled={isSaving}
+              >
+                Back to Edit
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                className="px-6 py-2 bg-[#3aafa9] text-white rounded-md disabled:opacity-50"
+                disabled={isSaving || review.changes.length === 0}
+              >
+                {isSaving ? "Saving..." : "Save Changes"}
+              </button>
             </div>
           </div>
+        ) : (
+          <form onSubmit={handleReview} className="p-6 space-y-6">
+            {/* Overview Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-[#3aafa9]">Overview</h3>
 
-          {/* Financial Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-[#3aafa9]">Financial</h3>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Trailing 12-Month Revenue</label>
-                <div className="relative">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-[#667085]">$</span>
-                  <input
-                    type="number"
-                    name="trailingRevenue"
-                    value={formData.trailingRevenue}
-                    onChange={handleChange}
-                    className="w-full pl-8 pr-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                    min="0"
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-[#667085] mb-1">Deal Title</label>
+                  <Input
+                    name="dealTitle"
+                    value={formData.dealTitle}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, dealTitle: e.target.value }))}
                     required
                   />
                 </div>
-              </div>
 
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Trailing 12-Month EBITDA</label>
-                <div className="relative">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-[#667085]">$</span>
-                  <input
+                <div>
+                  <label className="block text-sm font-medium text-[#667085] mb-1">Geography</label>
+                  <GeographySelector
+                    continents={geoData}
+                    selected={formData.geographySelections}
+                    onChange={handleGeoChange}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[#667085] mb-1">Industry</label>
+                  <IndustrySelector
+                    items={flatIndustryData}
+                    selected={formData.industrySelections}
+                    onSelect={handleIndustrySelection}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[#667085] mb-1">Years in Business</label>
+                  <Input
                     type="number"
-                    name="trailingEBITDA"
-                    value={formData.trailingEBITDA}
-                    onChange={handleChange}
-                    className="w-full pl-8 pr-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
                     min="0"
+                    value={formData.yearsInBusiness || ""}
+                    onChange={(e) => handleNumberChange(e, "yearsInBusiness")}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-[#667085] mb-1">Company Description</label>
+                  <Textarea
+                    value={formData.companyDescription}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, companyDescription: e.target.value }))}
+                    className="min-h-[100px]"
                     required
                   />
                 </div>
               </div>
+            </div>
+
+            {/* Financial Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-[#3aafa9]">Financial</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(
+                  [
+                    ["trailingRevenue", "Trailing 12-Month Revenue"],
+                    ["trailingEBITDA", "Trailing 12-Month EBITDA"],
+                    ["revenueGrowth", "Average 3-Year Revenue Growth (%)"],
+                    ["netIncome", "Net Income"],
+                    ["askingPrice", "Asking Price"],
+                  ] as [keyof SellerFormData, string][]
+                ).map(([fieldName, label]) => (
+                  <div key={fieldName}>
+                    <label className="block text-sm font-medium text-[#667085] mb-1">{label}</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        value={(formData[fieldName] as number) || ""}
+                        onChange={(e) => handleNumberChange(e, fieldName)}
+                        className={inputClassName}
+                      />
+                      {fieldName in formData.currencies && (
+                        <CurrencySelect
+                          value={formData.currencies[fieldName as DealAmountField]}
+                          onChange={(currency) =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              currencies: { ...prev.currencies, [fieldName]: currency },
+                            }))
+                          }
+                          className="w-24"
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
 
               <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">3-Year Revenue Growth</label>
-                <div className="relative">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-[#667085]">$</span>
-                  <input
-                    type="number"
-                    name="revenueGrowth"
-                    value={formData.revenueGrowth}
-                    onChange={handleChange}
-                    className="w-full pl-8 pr-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                    min="0"
-                    required
-                  />
+                <label className="block text-sm font-medium text-[#667085] mb-2">Business Models</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {[
+                    ["recurring-revenue", "Recurring Revenue"],
+                    ["project-based", "Project-Based"],
+                    ["asset-light", "Asset Light"],
+                    ["asset-heavy", "Asset Heavy"],
+                  ].map(([value, label]) => (
+                    <div key={value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`edit-${value}`}
+                        checked={formData.businessModels.includes(value)}
+                        onCheckedChange={(checked) => handleCheckboxChange(checked === true, value, "businessModels")}
+                      />
+                      <label htmlFor={`edit-${value}`} className="text-sm">
+                        {label}
+                      </label>
+                    </div>
+                  ))}
                 </div>
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Net Income</label>
-                <div className="relative">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-[#667085]">$</span>
+                <label className="block text-sm font-medium text-[#667085] mb-2">Management Future Preferences</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {[
+                    ["retiring-divesting", "Retiring to divesting"],
+                    ["key-staff-stay", "Other Key Staff Will Stay"],
+                  ].map(([value, label]) => (
+                    <div key={value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`edit-${value}`}
+                        checked={formData.managementPreferences.includes(value)}
+                        onCheckedChange={(checked) =>
+                          handleCheckboxChange(checked === true, value, "managementPreferences")
+                        }
+                      />
+                      <label htmlFor={`edit-${value}`} className="text-sm">
+                        {label}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Buyer Fit Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-[#3aafa9]">Buyer Fit / Ability to Close</h3>
+
+              <div className="flex flex-wrap gap-4">
+                {[
+                  ["ready", "Ready to deploy immediately"],
+                  ["need-raise", "Need to raise"],
+                ].map(([value, label]) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      id={`edit-capital-${value}`}
+                      name="capitalAvailability"
+                      checked={formData.capitalAvailability === value}
+                      onChange={() => setFormData((prev) => ({ ...prev, capitalAvailability: value }))}
+                      className="h-4 w-4 text-[#3aafa9] focus:ring-[#3aafa9]"
+                    />
+                    <label htmlFor={`edit-capital-${value}`} className="text-sm">
+                      {label}
+                    </label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-[#667085] mb-1">
+                    Minimum Number of Prior Acquisitions
+                  </label>
                   <input
                     type="number"
-                    name="netIncome"
-                    value={formData.netIncome}
-                    onChange={handleChange}
-                    className="w-full pl-8 pr-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
                     min="0"
-                    required
+                    value={formData.minPriorAcquisitions || ""}
+                    onChange={(e) => handleNumberChange(e, "minPriorAcquisitions")}
+                    className={inputClassName}
                   />
                 </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Asking Price</label>
-                <div className="relative">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-[#667085]">$</span>
+                <div>
+                  <label className="block text-sm font-medium text-[#667085] mb-1">Minimum Transaction Size</label>
                   <input
                     type="number"
-                    name="askingPrice"
-                    value={formData.askingPrice}
-                    onChange={handleChange}
-                    className="w-full pl-8 pr-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
                     min="0"
-                    required
+                    value={formData.minTransactionSize || ""}
+                    onChange={(e) => handleNumberChange(e, "minTransactionSize")}
+                    className={inputClassName}
                   />
                 </div>
               </div>
-
-              <div>
-                <label className="block text-sm font-medium text-[#667085] mb-1">Business Mode</label>
-                <select
-                  name="businessMode"
-                  value={formData.businessMode}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  required
-                >
-                  <option value="">Select Business Mode</option>
-                  <option value="Project-Based">Project-Based</option>
-                  <option value="Subscription">Subscription</option>
-                  <option value="Retail">Retail</option>
-                  <option value="Service">Service</option>
-                  <option value="Other">Other</option>
-                </select>
-              </div>
-
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-[#667085] mb-1">Management Future Preferences</label>
-                <input
-                  type="text"
-                  name="managementPreferences"
-                  value={formData.managementPreferences}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-[#d0d5dd] rounded-md focus:outline-none focus:ring-2 focus:ring-[#3aafa9]"
-                  required
-                />
-              </div>
             </div>
-          </div>
 
-          {/* Documents Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-[#3aafa9]">Documents</h3>
-            <div className="border border-dashed border-[#3aafa9] rounded-md p-6 text-center">
-              <p className="text-[#667085] mb-2">Drag and drop files here or click to browse</p>
+            {/* Form Actions */}
+            <div className="flex justify-end gap-3 pt-4 border-t border-[#d0d5dd]">
               <button
                 type="button"
-                className="px-4 py-2 bg-[#3aafa9] text-white rounded-md"
-                onClick={() => alert("Document upload functionality would be implemented here")}
+                onClick={onClose}
+                className="px-6 py-2 border border-[#d0d5dd] rounded-md text-[#667085]"
               >
-                Browse Files
+                Cancel
+              </button>
+              <button type="submit" className="px-6 py-2 bg-[#3aafa9] text-white rounded-md">
+                Review Changes
               </button>
-              <p className="text-xs text-[#667085] mt-2">Supported formats: PDF, DOC, DOCX, XLS, XLSX</p>
             </div>
-          </div>
-
-          {/* Form Actions */}
-          <div className="flex justify-end gap-3 pt-4 border-t border-[#d0d5dd]">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-6 py-2 border border-[#d0d5dd] rounded-md text-[#667085]"
-            >
-              Cancel
-            </button>
-            <button type="submit" className="px-6 py-2 bg-[#3aafa9] text-white rounded-md">
-              {initialData ? "Update Deal" : "Add Deal"}
-            </button>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { QUESTION_VISIBILITY_OPTIONS, sortQuestions } from "@/lib/deal-questions"
+import { answerDealQuestion } from "@/services/deal-api"
+import type { DealQuestion, QuestionVisibility } from "@/types/deal"
+
+interface SellerDealQuestionsProps {
+  dealId: string
+  questions: DealQuestion[]
+  onAnswered: (question: DealQuestion) => void
+}
+
+// Every buyer question on a deal, with an answer form for the ones still open
+export default function SellerDealQuestions({ dealId, questions, onAnswered }: SellerDealQuestionsProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [visibilities, setVisibilities] = useState<Record<string, QuestionVisibility>>({})
+  const [sendingId, setSendingId] = useState<string | null>(null)
+
+  const handleAnswer = async (question: DealQuestion) => {
+    const answer = drafts[question._id]?.trim()
+    if (!answer) return
+
+    setSendingId(question._id)
+    try {
+      onAnswered(await answerDealQuestion(dealId, question._id, answer, visibilities[question._id] || "private"))
+      setDrafts((prev) => ({ ...prev, [question._id]: "" }))
+    } catch (error: any) {
+      toast({
+        title: "Answer not sent",
+        description: error.message || "Failed to send answer",
+        variant: "destructive",
+      })
+    } finally {
+      setSendingId(null)
+    }
+  }
+
+  if (questions.length === 0) {
+    return <p className="text-sm text-gray-500">Active buyers haven't asked any questions yet.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {sortQuestions(questions).map((question) => {
+        const visibility = visibilities[question._id] || "private"
+
+        return (
+          <div key={question._id} className="rounded border border-gray-200 p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{question.question}</span>
+              <span className="shrink-0 text-xs text-gray-400">{new Date(question.askedAt).toLocaleDateString()}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              {question.buyerCompany || "Buyer"}
+              {question.buyerName ? ` (${question.buyerName})` : ""}
+            </p>
+
+            {question.answer ? (
+              <div className="mt-2">
+                <p className="text-gray-700">{question.answer}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {question.visibility === "public" ? "Shared with all active buyers" : "Sent privately to this buyer"}
+                  {question.answeredAt ? ` on ${new Date(question.answeredAt).toLocaleDateString()}` : ""}
+                </p>
+              </div>
+            ) : (
+              <div className="mt-2 space-y-2">
+                <Textarea
+                  value={drafts[question._id] || ""}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [question._id]: e.target.value }))}
+                  placeholder="Write your answer"
+                  rows={2}
+                />
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={visibility}
+                      onValueChange={(value) =>
+                        setVisibilities((prev) => ({ ...prev, [question._id]: value as QuestionVisibility }))
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-44 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUESTION_VISIBILITY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-xs text-gray-500">
+                      {QUESTION_VISIBILITY_OPTIONS.find((option) => option.value === visibility)?.description}
+                    </span>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleAnswer(question)}
+                    disabled={sendingId === question._id || !drafts[question._id]?.trim()}
+                    className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white"
+                  >
+                    {sendingId === question._id ? "Sending..." : "Send Answer"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
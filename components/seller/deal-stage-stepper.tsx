@@ -0,0 +1,80 @@
+"use client"
+
+import { Check } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DEAL_STAGES,
+  getStageConfig,
+  getStageTransitions,
+  type DealStage,
+  type DealStageChange,
+} from "@/lib/deal-stages"
+
+interface DealStageStepperProps {
+  stage: DealStage
+  stageHistory?: DealStageChange[]
+  updating: boolean
+  onChange: (stage: DealStage) => void
+}
+
+// Horizontal progress through the stage model with buttons for the allowed transitions
+export default function DealStageStepper({ stage, stageHistory = [], updating, onChange }: DealStageStepperProps) {
+  const currentIndex = DEAL_STAGES.findIndex((config) => config.key === stage)
+  const { previous, next } = getStageTransitions(stage)
+  const enteredAt = (key: DealStage) => [...stageHistory].reverse().find((change) => change.stage === key)?.changedAt
+
+  return (
+    <div className="space-y-3">
+      <ol className="flex flex-wrap gap-2">
+        {DEAL_STAGES.map((config, index) => {
+          const reached = index <= currentIndex
+          const date = reached ? enteredAt(config.key) : undefined
+          return (
+            <li
+              key={config.key}
+              className={`flex items-center gap-2 rounded-md border px-3 py-2 text-xs ${
+                index === currentIndex
+                  ? "border-[#3aafa9] bg-teal-50 text-teal-800"
+                  : reached
+                    ? "border-gray-200 text-gray-700"
+                    : "border-dashed border-gray-200 text-gray-400"
+              }`}
+            >
+              <span
+                className={`flex h-5 w-5 items-center justify-center rounded-full text-[10px] ${
+                  reached ? "bg-[#3aafa9] text-white" : "bg-gray-100"
+                }`}
+              >
+                {index < currentIndex ? <Check className="h-3 w-3" /> : index + 1}
+              </span>
+              <span>
+                <span className="block font-medium">{config.label}</span>
+                {date && <span className="block text-gray-500">{new Date(date).toLocaleDateString()}</span>}
+              </span>
+            </li>
+          )
+        })}
+      </ol>
+
+      <p className="text-sm text-gray-600">{getStageConfig(stage).description}</p>
+
+      <div className="flex gap-2">
+        {previous && (
+          <Button variant="outline" size="sm" disabled={updating} onClick={() => onChange(previous)}>
+            Back to {getStageConfig(previous).label}
+          </Button>
+        )}
+        {next && (
+          <Button
+            size="sm"
+            disabled={updating}
+            onClick={() => onChange(next)}
+            className="bg-[#3aafa9] hover:bg-[#2a9d8f] text-white"
+          >
+            Move to {getStageConfig(next).label}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Check, Pencil, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { REWARD_TIERS } from "@/lib/reward-tiers"
+import {
+  deleteDealTemplate,
+  getDealTemplates,
+  getTemplateCurrencyLabel,
+  renameDealTemplate,
+  type DealTemplate,
+} from "@/lib/deal-templates"
+
+// Saved deal templates with rename, delete and a shortcut to start a deal from one
+export default function DealTemplatesManager() {
+  const router = useRouter()
+  const [templates, setTemplates] = useState<DealTemplate[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+
+  useEffect(() => {
+    setTemplates(getDealTemplates())
+  }, [])
+
+  const handleRename = () => {
+    if (!editingId || !editingName.trim()) return
+    setTemplates(renameDealTemplate(editingId, editingName))
+    setEditingId(null)
+  }
+
+  return (
+    <div className="border-t border-gray-200 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Deal Templates</h3>
+        <Button variant="outline" size="sm" onClick={() => router.push("/seller/seller-form")}>
+          New Deal
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Use &quot;Save as Template&quot; on the deal form to reuse settings for similar businesses.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between py-3 gap-4">
+              <div className="flex-1">
+                {editingId === template.id ? (
+                  <div className="flex items-center gap-1">
+                    <Input value={editingName} onChange={(e) => setEditingName(e.target.value)} className="h-8 w-64" />
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleRename}>
+                      <Check className="h-4 w-4 text-green-500" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="font-medium">{template.name}</div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {REWARD_TIERS[template.rewardTier].label} tier · {getTemplateCurrencyLabel(template)} · Saved{" "}
+                  {new Date(template.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <Button
+                  size="sm"
+                  className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
+                  onClick={() => router.push(`/seller/seller-form?templateId=${template.id}`)}
+                >
+                  Use
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Rename"
+                  onClick={() => {
+                    setEditingId(template.id)
+                    setEditingName(template.name)
+                  }}
+                >
+                  <Pencil className="h-4 w-4 text-gray-500" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete"
+                  onClick={() => setTemplates(deleteDealTemplate(template.id))}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import { CheckCircle2, FileText, RotateCw, X, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import {
+  DOCUMENT_ACCEPT,
+  getDocumentKey,
+  validateDealDocument,
+  type DocumentUploadState,
+} from "@/lib/deal-documents"
+
+interface DocumentDropzoneProps {
+  files: File[]
+  uploads: Record<string, DocumentUploadState>
+  onAddFiles: (files: File[]) => void
+  onRemoveFile: (file: File) => void
+  onRetryFile: (file: File) => void
+  // Once the deal is created the picked files are locked and only failed uploads can be retried
+  locked?: boolean
+}
+
+export default function DocumentDropzone({
+  files,
+  uploads,
+  onAddFiles,
+  onRemoveFile,
+  onRetryFile,
+  locked = false,
+}: DocumentDropzoneProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+
+  // Validate every picked file, keeping the valid ones and reporting the rest
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0 || locked) return
+
+    const accepted: File[] = []
+    const rejected: string[] = []
+    const existingKeys = new Set(files.map(getDocumentKey))
+
+    Array.from(fileList).forEach((file) => {
+      const error = validateDealDocument(file)
+      if (error) {
+        rejected.push(error)
+      } else if (!existingKeys.has(getDocumentKey(file))) {
+        accepted.push(file)
+      }
+    })
+
+    setErrors(rejected)
+    if (accepted.length > 0) onAddFiles(accepted)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    handleFiles(e.dataTransfer.files)
+  }
+
+  const formatSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          if (!locked) setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-md p-6 text-center transition-colors ${
+          isDragging ? "border-[#3aafa9] bg-[#3aafa9]/5" : "border-gray-300"
+        } ${locked ? "opacity-60" : ""}`}
+      >
+        <p className="text-sm text-gray-600 mb-4">
+          Buyers have agreed to a bulletproof global NDA allowing them to see directly to your CIM or similar.
+        </p>
+
+        <div className="mb-4 flex flex-col items-center">
+          <p className="text-sm mb-2">Drag and drop files here or click to upload</p>
+          <p className="text-xs text-gray-500 mb-4">.PDF, .DOC, .DOCX, .XLS, .XLSX, .PPT, .PPTX, .HTML (max 10MB each)</p>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            className="border-gray-300"
+            disabled={locked}
+          >
+            Select Files
+          </Button>
+          <input
+            ref={fileInputRef}
+            id="file-upload"
+            type="file"
+            multiple
+            accept={DOCUMENT_ACCEPT}
+            onChange={(e) => handleFiles(e.target.files)}
+            className="hidden"
+          />
+        </div>
+
+        {errors.map((error) => (
+          <p key={error} className="text-sm text-red-500 mt-1">
+            {error}
+          </p>
+        ))}
+
+        <p className="text-xs text-gray-500 mt-2">Upload your Confidential Information Memorandum or other deal documents.</p>
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file) => {
+            const upload = uploads[getDocumentKey(file)]
+
+            return (
+              <li key={getDocumentKey(file)} className="bg-white border border-gray-200 rounded-md p-3">
+                <div className="flex items-center gap-3">
+                  <FileText className="h-4 w-4 text-gray-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{file.name}</p>
+                    <p className="text-xs text-gray-500">{formatSize(file.size)}</p>
+                  </div>
+
+                  {upload?.status === "uploaded" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                  {upload?.status === "failed" && (
+                    <>
+                      <XCircle className="h-4 w-4 text-red-500" />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onRetryFile(file)}
+                        className="flex items-center gap-1"
+                      >
+                        <RotateCw className="h-3 w-3" />
+                        Retry
+                      </Button>
+                    </>
+                  )}
+                  {!locked && !upload && (
+                    <button
+                      type="button"
+                      onClick={() => onRemoveFile(file)}
+                      className="text-gray-400 hover:text-gray-600"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+
+                {upload && upload.status !== "uploaded" && (
+                  <div className="mt-2">
+                    <Progress value={upload.progress} className="h-2" />
+                    {upload.error && <p className="text-xs text-red-500 mt-1">{upload.error}</p>}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
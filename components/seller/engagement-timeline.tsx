@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle2, Download, Eye, Send, XCircle } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  formatDuration,
+  type EngagementEvent,
+  type EngagementEventType,
+  type ResponseStats,
+} from "@/lib/deal-engagement"
+
+interface EngagementTimelineProps {
+  timeline: EngagementEvent[]
+  stats: ResponseStats
+  buyerNames: Record<string, string>
+}
+
+const EVENT_STYLES: Record<EngagementEventType, { phrase: string; icon: typeof Send; className: string }> = {
+  invited: { phrase: "was invited", icon: Send, className: "bg-blue-100 text-blue-700" },
+  viewed: { phrase: "viewed the deal", icon: Eye, className: "bg-gray-100 text-gray-700" },
+  accepted: { phrase: "accepted the deal", icon: CheckCircle2, className: "bg-green-100 text-green-700" },
+  passed: { phrase: "passed", icon: XCircle, className: "bg-red-100 text-red-700" },
+  downloaded: { phrase: "downloaded", icon: Download, className: "bg-purple-100 text-purple-700" },
+}
+
+export default function EngagementTimeline({ timeline, stats, buyerNames }: EngagementTimelineProps) {
+  const [buyerFilter, setBuyerFilter] = useState("all")
+
+  const buyerIds = Array.from(new Set(timeline.map((event) => event.buyerId)))
+  // Newest first, which is what sellers check when they come back to a deal
+  const visibleEvents = timeline
+    .filter((event) => buyerFilter === "all" || event.buyerId === buyerFilter)
+    .slice()
+    .reverse()
+
+  const statCards = [
+    { label: "Invited", value: stats.invited },
+    { label: "Viewed", value: stats.viewed },
+    { label: "Responded", value: `${stats.responded} (${stats.accepted} accepted, ${stats.passed} passed)` },
+    { label: "Awaiting response", value: stats.awaiting },
+    { label: "Median time to view", value: formatDuration(stats.medianHoursToView) },
+    { label: "Median time to respond", value: formatDuration(stats.medianHoursToRespond) },
+    { label: "Average time to respond", value: formatDuration(stats.averageHoursToRespond) },
+    { label: "Fastest response", value: formatDuration(stats.fastestHoursToRespond) },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {statCards.map((card) => (
+          <div key={card.label} className="border border-gray-200 rounded-md p-3">
+            <div className="text-xs text-gray-500">{card.label}</div>
+            <div className="text-lg font-medium">{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <h4 className="text-md font-medium">Timeline</h4>
+        <Select value={buyerFilter} onValueChange={setBuyerFilter}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All buyers</SelectItem>
+            {buyerIds.map((buyerId) => (
+              <SelectItem key={buyerId} value={buyerId}>
+                {buyerNames[buyerId] || `Buyer ${buyerId.slice(-4)}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {visibleEvents.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">No buyer activity yet.</div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+          {visibleEvents.map((event, index) => {
+            const style = EVENT_STYLES[event.type]
+            const Icon = style.icon
+
+            return (
+              <li key={`${event.buyerId}-${event.type}-${event.at}-${index}`} className="ml-6">
+                <span
+                  className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${style.className}`}
+                >
+                  <Icon className="h-3 w-3" />
+                </span>
+                <div className="text-sm">
+                  <span className="font-medium">{buyerNames[event.buyerId] || `Buyer ${event.buyerId.slice(-4)}`}</span>{" "}
+                  <span className="text-gray-600">{style.phrase}</span>
+                  {event.detail && <span className="text-gray-500"> — {event.detail}</span>}
+                </div>
+                <div className="text-xs text-gray-400">{new Date(event.at).toLocaleString()}</div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Timer } from "lucide-react"
+import { REWARD_TIERS, describeExclusivity, getExclusivity } from "@/lib/reward-tiers"
+
+interface ExclusivityBadgeProps {
+  deal: Parameters<typeof getExclusivity>[0]
+}
+
+// Reward tier label plus a live exclusivity countdown while the window is open
+export default function ExclusivityBadge({ deal }: ExclusivityBadgeProps) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const exclusivity = getExclusivity(deal, now)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="bg-teal-100 text-teal-800 px-2 py-1 rounded">{REWARD_TIERS[exclusivity.tier].label}</span>
+      {exclusivity.active && (
+        <span className="flex items-center gap-1 bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+          <Timer className="h-3 w-3" />
+          {describeExclusivity(exclusivity, now)}
+        </span>
+      )}
+    </div>
+  )
+}
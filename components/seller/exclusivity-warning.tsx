@@ -0,0 +1,29 @@
+"use client"
+
+import { AlertTriangle } from "lucide-react"
+import { REWARD_TIERS, describeExclusivity, getExclusivity } from "@/lib/reward-tiers"
+
+interface ExclusivityWarningProps {
+  deal: Parameters<typeof getExclusivity>[0]
+  // What the seller is about to do, e.g. "Closing this deal"
+  action: string
+}
+
+// Shown before actions that would break a tier's exclusivity promise; renders nothing outside the window
+export default function ExclusivityWarning({ deal, action }: ExclusivityWarningProps) {
+  const exclusivity = getExclusivity(deal)
+  if (!exclusivity.active) return null
+
+  return (
+    <div className="flex gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div>
+        <div className="font-medium">{describeExclusivity(exclusivity)}</div>
+        <div>
+          {action} during the {REWARD_TIERS[exclusivity.tier].label} exclusivity window breaks the tier's terms and may
+          forfeit its reward.
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ChevronDown, ChevronRight, Search, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  expandGeoSelection,
+  flattenGeoData,
+  getGeoChildren,
+  getGeoLeafIds,
+  toggleGeoSelection,
+  type Continent,
+  type Region,
+  type SubRegion,
+} from "@/lib/geography-data"
+
+interface GeographySelectorProps {
+  continents: Continent[]
+  selected: string[]
+  onChange: (ids: string[]) => void
+}
+
+type GeoNode = Continent | Region | SubRegion
+
+export default function GeographySelector({ continents, selected, onChange }: GeographySelectorProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+  const [searchTerm, setSearchTerm] = useState("")
+
+  const flatItems = useMemo(() => flattenGeoData(continents), [continents])
+  const coveredLeaves = useMemo(() => expandGeoSelection(continents, selected), [continents, selected])
+
+  const getCheckedState = (node: GeoNode): boolean | "indeterminate" => {
+    const leaves = getGeoLeafIds(node)
+    const coveredCount = leaves.filter((leafId) => coveredLeaves.has(leafId)).length
+    if (coveredCount === 0) return false
+    return coveredCount === leaves.length ? true : "indeterminate"
+  }
+
+  // Keep a node when it or any of its descendants matches the search term
+  const matchesSearch = (node: GeoNode): boolean => {
+    if (!searchTerm) return true
+    if (node.name.toLowerCase().includes(searchTerm.toLowerCase())) return true
+    return getGeoChildren(node).some(matchesSearch)
+  }
+
+  const toggleExpansion = (id: string) => {
+    setExpanded((prev) => ({ ...prev, [id]: !prev[id] }))
+  }
+
+  const renderNode = (node: GeoNode, depth: number) => {
+    if (!matchesSearch(node)) return null
+
+    const children = getGeoChildren(node)
+    // Searching opens every branch that contains a match
+    const isExpanded = searchTerm ? true : !!expanded[node.id]
+
+    return (
+      <div key={node.id} className={depth === 0 ? "border-b border-gray-100 pb-1" : "pl-2"}>
+        <div className="flex items-center">
+          <Checkbox
+            id={`geo-${node.id}`}
+            checked={getCheckedState(node)}
+            onCheckedChange={() => onChange(toggleGeoSelection(continents, selected, node.id))}
+            className="mr-2 border-[#d0d5dd]"
+          />
+          {children.length > 0 ? (
+            <div className="flex items-center cursor-pointer flex-1" onClick={() => toggleExpansion(node.id)}>
+              {isExpanded ? (
+                <ChevronDown className="h-4 w-4 mr-1 text-gray-500" />
+              ) : (
+                <ChevronRight className="h-4 w-4 mr-1 text-gray-500" />
+              )}
+              <Label
+                htmlFor={`geo-${node.id}`}
+                className={`text-[#344054] cursor-pointer ${depth === 0 ? "font-medium" : ""}`}
+              >
+                {node.name}
+              </Label>
+            </div>
+          ) : (
+            <Label htmlFor={`geo-${node.id}`} className="text-[#344054] cursor-pointer text-sm">
+              {node.name}
+            </Label>
+          )}
+        </div>
+
+        {children.length > 0 && isExpanded && (
+          <div className="ml-6 mt-1 space-y-1">{children.map((child) => renderNode(child, depth + 1))}</div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="border border-[#d0d5dd] rounded-md p-3">
+      <div className="relative mb-3">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-[#667085]" />
+        <Input
+          placeholder="Search geography..."
+          className="pl-8 border-[#d0d5dd]"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+
+      {selected.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+          {selected.map((id) => (
+            <span
+              key={id}
+              className="bg-gray-100 text-[#344054] text-xs rounded-full px-2 py-0.5 flex items-center"
+            >
+              {flatItems.find((item) => item.id === id)?.name || id}
+              <button
+                type="button"
+                onClick={() => onChange(toggleGeoSelection(continents, selected, id))}
+                className="ml-1 text-gray-400 hover:text-gray-600 focus:outline-none"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2">{continents.map((continent) => renderNode(continent, 0))}</div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import type { IndustryItem } from "@/lib/industry-data"
+
+interface IndustrySelectorProps {
+  items: IndustryItem[]
+  selected: string[]
+  onSelect: (id: string) => void
+}
+
+export default function IndustrySelector({ items, selected, onSelect }: IndustrySelectorProps) {
+  const [open, setOpen] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
+
+  // Get selected industry names
+  const getSelectedIndustryNames = () => {
+    return selected
+      .map((id) => {
+        const item = items.find((item) => item.id === id)
+        return item ? item.name : id
+      })
+      .join(", ")
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between">
+          {selected.length > 0 ? getSelectedIndustryNames() : "Select Industry"}
+          <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-full p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search industry..." value={searchTerm} onValueChange={setSearchTerm} />
+          <CommandList>
+            <CommandEmpty>No results found.</CommandEmpty>
+            <CommandGroup>
+              {items
+                .filter(
+                  (item) =>
+                    item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                    item.path.toLowerCase().includes(searchTerm.toLowerCase()),
+                )
+                .map((item) => (
+                  <CommandItem
+                    key={item.id}
+                    value={item.id}
+                    onSelect={() => {
+                      onSelect(item.id)
+                      setOpen(false)
+                    }}
+                  >
+                    <Checkbox checked={selected.includes(item.id)} className="mr-2" />
+                    <span>{item.path}</span>
+                  </CommandItem>
+                ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,268 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Layers, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { DEFAULT_WAVE_PLAN, WAVE_TRIGGERS, buildWavePlan, type WavePlanOptions } from "@/lib/invitation-waves"
+import { dispatchInvitationWaves, saveInvitationWaves } from "@/services/deal-api"
+import type { InvitationWave, InvitationWaveTrigger, MatchedBuyer } from "@/types/deal"
+
+interface InvitationWavesProps {
+  dealId: string
+  buyers: MatchedBuyer[]
+  // Buyer user IDs already invited to this deal
+  invitedBuyerIds: string[]
+  waves: InvitationWave[]
+  // False when the deal's reward tier only allows invitations the seller sends by hand
+  scheduledOutreach: boolean
+  onWavesChange: (waves: InvitationWave[]) => void
+}
+
+export default function InvitationWaves({
+  dealId,
+  buyers,
+  invitedBuyerIds,
+  waves,
+  scheduledOutreach,
+  onWavesChange,
+}: InvitationWavesProps) {
+  const [planOptions, setPlanOptions] = useState<WavePlanOptions>(DEFAULT_WAVE_PLAN)
+  const [draftWaves, setDraftWaves] = useState<InvitationWave[]>(waves)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setDraftWaves(waves)
+  }, [waves])
+
+  const buyerNames = Object.fromEntries(buyers.map((buyer) => [buyer.buyerId, buyer.companyName || buyer.buyerName]))
+  const isDirty = JSON.stringify(draftWaves) !== JSON.stringify(waves)
+  const nextScheduled = draftWaves.find((wave) => wave.status === "scheduled")
+
+  const handlePlan = () => {
+    const sentWaves = draftWaves.filter((wave) => wave.status === "sent")
+    const plan = buildWavePlan(buyers, invitedBuyerIds, planOptions, sentWaves)
+    if (plan.length === sentWaves.length) {
+      toast({ title: "Nothing to plan", description: "Every matched buyer has already been invited." })
+      return
+    }
+    setDraftWaves(plan)
+  }
+
+  const updateWave = (number: number, changes: Partial<InvitationWave>) => {
+    setDraftWaves((prev) => prev.map((wave) => (wave.number === number ? { ...wave, ...changes } : wave)))
+  }
+
+  // Save the plan, then send whatever is already due (normally wave 1)
+  const saveAndDispatch = async (plan: InvitationWave[]) => {
+    try {
+      setSaving(true)
+      await saveInvitationWaves(dealId, plan)
+      const result = await dispatchInvitationWaves(dealId)
+      onWavesChange(result.invitationWaves)
+      toast({
+        title: "Invitation waves saved",
+        description: result.sentWaves.length
+          ? `Sent wave ${result.sentWaves.join(", ")}.`
+          : "Later waves will go out when their trigger is met.",
+      })
+    } catch (error: any) {
+      console.error("Error saving invitation waves:", error)
+      toast({
+        title: "Error saving invitation waves",
+        description: error.message || "Failed to save invitation waves. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSendNow = (wave: InvitationWave) =>
+    saveAndDispatch(draftWaves.map((item) => (item.number === wave.number ? { ...item, trigger: "immediate" } : item)))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label htmlFor="first-wave-size" className="text-sm text-gray-600">
+            First wave (top matches)
+          </Label>
+          <Input
+            id="first-wave-size"
+            type="number"
+            min={1}
+            className="w-28"
+            value={planOptions.firstWaveSize}
+            onChange={(e) => setPlanOptions((prev) => ({ ...prev, firstWaveSize: Number(e.target.value) || 1 }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="later-wave-size" className="text-sm text-gray-600">
+            Later waves
+          </Label>
+          <Input
+            id="later-wave-size"
+            type="number"
+            min={1}
+            className="w-28"
+            value={planOptions.laterWaveSize}
+            onChange={(e) => setPlanOptions((prev) => ({ ...prev, laterWaveSize: Number(e.target.value) || 1 }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="wave-days" className="text-sm text-gray-600">
+            Days between waves
+          </Label>
+          <Input
+            id="wave-days"
+            type="number"
+            min={0}
+            className="w-28"
+            value={planOptions.afterDays}
+            onChange={(e) => setPlanOptions((prev) => ({ ...prev, afterDays: Number(e.target.value) || 0 }))}
+          />
+        </div>
+        <Button variant="outline" onClick={handlePlan} disabled={saving || buyers.length === 0}>
+          <Layers className="h-4 w-4 mr-2" />
+          {draftWaves.length ? "Re-plan Remaining Buyers" : "Plan Waves"}
+        </Button>
+      </div>
+
+      {!scheduledOutreach && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          This deal's reward tier only invites buyers you pick, so waves after the first are not sent on a schedule. Use
+          Send Now to release each wave.
+        </div>
+      )}
+
+      {draftWaves.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          No waves planned. Plan waves to invite your best-fit buyers first and widen the search later.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b border-gray-200">
+                <th className="pb-3 font-medium text-gray-600">Wave</th>
+                <th className="pb-3 font-medium text-gray-600">Buyers</th>
+                <th className="pb-3 font-medium text-gray-600">When</th>
+                <th className="pb-3 font-medium text-gray-600">Status</th>
+                <th className="pb-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {draftWaves.map((wave) => {
+                const editable = wave.status === "scheduled"
+
+                return (
+                  <tr key={wave.number} className="border-b border-gray-100 align-top">
+                    <td className="py-3 font-medium">Wave {wave.number}</td>
+                    <td className="py-3 pr-4 max-w-xs">
+                      <div>{wave.buyerIds.length} buyers</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {wave.buyerIds.map((buyerId) => buyerNames[buyerId] || `Buyer ${buyerId.slice(-4)}`).join(", ")}
+                      </div>
+                    </td>
+                    <td className="py-3 pr-4">
+                      {editable && !scheduledOutreach ? (
+                        <span className="text-gray-600">
+                          {wave.trigger === "immediate" ? "Right away" : "When you send it"}
+                        </span>
+                      ) : editable ? (
+                        <div className="space-y-2">
+                          <Select
+                            value={wave.trigger}
+                            onValueChange={(value) =>
+                              updateWave(wave.number, { trigger: value as InvitationWaveTrigger })
+                            }
+                          >
+                            <SelectTrigger className="w-72">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WAVE_TRIGGERS.map((trigger) => (
+                                <SelectItem key={trigger.value} value={trigger.value}>
+                                  {trigger.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {wave.trigger !== "immediate" && (
+                            <div className="flex items-center gap-2 text-gray-600">
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-20 h-8"
+                                value={wave.afterDays ?? 0}
+                                onChange={(e) => updateWave(wave.number, { afterDays: Number(e.target.value) || 0 })}
+                              />
+                              <span>days after wave {wave.number - 1}</span>
+                            </div>
+                          )}
+                          {wave.trigger === "activeBelow" && (
+                            <div className="flex items-center gap-2 text-gray-600">
+                              <span>only if fewer than</span>
+                              <Input
+                                type="number"
+                                min={1}
+                                className="w-20 h-8"
+                                value={wave.activeBelow ?? 1}
+                                onChange={(e) => updateWave(wave.number, { activeBelow: Number(e.target.value) || 1 })}
+                              />
+                              <span>buyers are active</span>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-gray-600">
+                          {wave.sentAt ? new Date(wave.sentAt).toLocaleString() : "—"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs ${
+                          editable ? "bg-yellow-100 text-yellow-800" : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {editable ? "Scheduled" : "Sent"}
+                      </span>
+                    </td>
+                    <td className="py-3 text-right">
+                      {wave === nextScheduled && (
+                        <Button size="sm" variant="outline" onClick={() => handleSendNow(wave)} disabled={saving}>
+                          <Send className="h-3 w-3 mr-1" />
+                          Send Now
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isDirty && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setDraftWaves(waves)} disabled={saving}>
+            Discard Changes
+          </Button>
+          <Button
+            className="bg-[#3aafa9] hover:bg-[#2a9d8f]"
+            onClick={() => saveAndDispatch(draftWaves)}
+            disabled={saving}
+          >
+            {saving ? "Saving..." : "Save Wave Plan"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
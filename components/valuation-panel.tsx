@@ -0,0 +1,70 @@
+"use client"
+
+import { AlertTriangle } from "lucide-react"
+import { useSectorBenchmark } from "@/hooks/use-sector-benchmarks"
+import {
+  MIN_BENCHMARK_DEALS,
+  VALUATION_MULTIPLES,
+  compareToBenchmark,
+  formatValuationMultiple,
+  getOutlierWarnings,
+  getValuationMultiples,
+  type ValuationAmounts,
+} from "@/lib/valuation"
+
+interface ValuationPanelProps {
+  amounts: ValuationAmounts
+  sector: string
+  // Who is viewing, which decides how the route handler checks the caller
+  role: "buyer" | "seller"
+  className?: string
+}
+
+// The deal's multiples at its asking price beside the median of completed deals in the same sector
+export default function ValuationPanel({ amounts, sector, role, className }: ValuationPanelProps) {
+  const benchmark = useSectorBenchmark(role, sector)
+  const comparisons = compareToBenchmark(getValuationMultiples(amounts), benchmark)
+  const warnings = getOutlierWarnings(comparisons, sector)
+
+  return (
+    <div className={className}>
+      {warnings.length > 0 && (
+        <div className="mb-3 flex gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>
+            <div className="font-medium">The asking price is out of line with completed deals in this sector</div>
+            {warnings.map((warning) => (
+              <div key={warning}>{warning}</div>
+            ))}
+          </div>
+        </div>
+      )}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-500">
+            <th className="py-1 font-medium">Multiple</th>
+            <th className="py-1 text-right font-medium">This deal</th>
+            <th className="py-1 text-right font-medium">Sector median</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparisons.map(({ key, value, median, outlier }) => (
+            <tr key={key} className="border-b border-gray-100">
+              <td className="py-1">{VALUATION_MULTIPLES.find((multiple) => multiple.key === key)?.label}</td>
+              <td className={`py-1 text-right ${outlier ? "font-medium text-yellow-700" : ""}`}>
+                {formatValuationMultiple(key, value)}
+              </td>
+              <td className="py-1 text-right text-gray-500">{formatValuationMultiple(key, median)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-gray-400">
+        {benchmark
+          ? `Medians of ${benchmark.dealCount} completed ${sector} deals at their final sale price.`
+          : `Sector medians appear once ${MIN_BENCHMARK_DEALS} ${sector} deals have closed on the platform.`}{" "}
+        EV and P/E use the asking price.
+      </p>
+    </div>
+  )
+}
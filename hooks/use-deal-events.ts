@@ -0,0 +1,27 @@
+"use client"
+
+import * as React from "react"
+import { isDealEvent, type DealEvent } from "@/lib/deal-events"
+
+// Subscribe to live deal events for the signed-in buyer or seller; EventSource reconnects by itself after drops
+export function useDealEvents(role: "buyer" | "seller", onEvent: (event: DealEvent) => void) {
+  const handlerRef = React.useRef(onEvent)
+  handlerRef.current = onEvent
+
+  React.useEffect(() => {
+    const token = localStorage.getItem("token")
+    if (!token) return
+
+    const source = new EventSource(`/api/events?role=${role}&token=${encodeURIComponent(token)}`)
+    source.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data)
+        if (isDealEvent(event)) handlerRef.current(event)
+      } catch (error) {
+        console.error("Error reading deal event:", error)
+      }
+    }
+
+    return () => source.close()
+  }, [role])
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import * as React from "react"
+import type { DealStatusSummary } from "@/lib/deal-analytics"
+import { fetchDealStatusSummary } from "@/services/deal-api"
+
+// Status summaries of the seller's deals by deal ID, loaded once for every view on the dashboard that needs them.
+// Buyer responses pushed onto the deals change their counts, so they're part of the reload key.
+export function useDealStatusSummaries(
+  deals: { _id: string; invitationStatus?: Record<string, { response?: string }> }[],
+) {
+  const [summaries, setSummaries] = React.useState<Record<string, DealStatusSummary>>({})
+  const [loading, setLoading] = React.useState(true)
+
+  const summariesKey = deals
+    .map((deal) => {
+      const responses = Object.values(deal.invitationStatus || {}).map((invitation) => invitation.response || "")
+      return `${deal._id}:${responses.join("|")}`
+    })
+    .join(",")
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const loadSummaries = async () => {
+      const results = await Promise.all(
+        deals.map((deal) =>
+          fetchDealStatusSummary(deal._id)
+            .then((data) => [deal._id, data] as const)
+            .catch((error) => {
+              console.error(`Error loading status summary for deal ${deal._id}:`, error)
+              return null
+            }),
+        ),
+      )
+      if (cancelled) return
+      setSummaries(Object.fromEntries(results.filter((result) => result !== null)))
+      setLoading(false)
+    }
+
+    loadSummaries()
+    return () => {
+      cancelled = true
+    }
+  }, [summariesKey])
+
+  return { summaries, loading }
+}
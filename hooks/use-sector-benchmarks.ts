@@ -0,0 +1,34 @@
+"use client"
+
+import * as React from "react"
+import { BENCHMARK_CACHE_MS, type SectorBenchmark } from "@/lib/valuation"
+import { fetchSectorBenchmarks } from "@/services/deal-api"
+
+// One request shared by every valuation panel. A failed request is dropped so the next panel to mount tries again,
+// and a loaded one expires with the route's cache.
+let benchmarksRequest: { request: Promise<SectorBenchmark[]>; startedAt: number } | null = null
+
+// The benchmark for a sector, or null while loading, when unavailable, or when the sector has too few completed deals
+export function useSectorBenchmark(role: "buyer" | "seller", sector?: string) {
+  const [benchmarks, setBenchmarks] = React.useState<SectorBenchmark[]>([])
+
+  React.useEffect(() => {
+    if (!benchmarksRequest || Date.now() - benchmarksRequest.startedAt >= BENCHMARK_CACHE_MS) {
+      const request = fetchSectorBenchmarks(role).catch((error) => {
+        console.error("Error fetching valuation benchmarks:", error)
+        if (benchmarksRequest?.request === request) benchmarksRequest = null
+        return []
+      })
+      benchmarksRequest = { request, startedAt: Date.now() }
+    }
+    let cancelled = false
+    benchmarksRequest.request.then((loaded) => {
+      if (!cancelled) setBenchmarks(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [role])
+
+  return benchmarks.find((benchmark) => benchmark.sector === sector) || null
+}
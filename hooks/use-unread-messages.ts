@@ -0,0 +1,25 @@
+"use client"
+
+import * as React from "react"
+import { getTotalUnread } from "@/lib/messages"
+import { fetchConversations } from "@/services/messages-api"
+
+// Unread direct messages for the sidebar badge, refreshed whenever the page becomes visible again
+export function useUnreadMessages() {
+  const [unread, setUnread] = React.useState(0)
+
+  React.useEffect(() => {
+    const refresh = () => {
+      if (document.hidden || !localStorage.getItem("token")) return
+      fetchConversations()
+        .then((conversations) => setUnread(getTotalUnread(conversations)))
+        .catch((error) => console.error("Error fetching unread messages:", error))
+    }
+
+    refresh()
+    document.addEventListener("visibilitychange", refresh)
+    return () => document.removeEventListener("visibilitychange", refresh)
+  }, [])
+
+  return unread
+}
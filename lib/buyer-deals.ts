@@ -0,0 +1,140 @@
+import { convertAmount, formatCurrency, type CurrencyCode } from "@/lib/currency"
+import { getDealCurrencies, getDealGeographies, type DealAmountField } from "@/lib/deal-form"
+import { canBuyerAccessDocument } from "@/lib/deal-documents"
+import { getDealStage, type DealStage } from "@/lib/deal-stages"
+import type { ValuationAmounts } from "@/lib/valuation"
+import type { TargetCriteria } from "@/types/company-profile"
+import type { DealDocument } from "@/types/deal"
+
+// A deal as the buyer deals page renders it
+export interface BuyerDeal {
+  id: string
+  title: string
+  status: "active" | "pending" | "passed"
+  companyDescription: string
+  industry: string
+  geography: string
+  yearsInBusiness: number
+  trailingRevenue: number
+  trailingEbitda: number
+  averageGrowth: number
+  netIncome: number
+  askingPrice: number
+  // Currency each amount above was entered in by the seller
+  currencies: Record<DealAmountField, CurrencyCode>
+  businessModel: string
+  managementPreference: string
+  sellerPhone: string
+  sellerEmail: string
+  documents?: DealDocument[]
+  invitedAt?: string
+  lastEditedAt?: string
+  lastEditedFields?: string[]
+  // Process stage, only shown once the buyer is active on the deal
+  stage: DealStage | null
+}
+
+export const getBusinessModelString = (businessModel: any) => {
+  if (!businessModel) return "Not specified"
+  const models = []
+  if (businessModel.recurringRevenue) models.push("Recurring Revenue")
+  if (businessModel.projectBased) models.push("Project-Based")
+  if (businessModel.assetLight) models.push("Asset Light")
+  if (businessModel.assetHeavy) models.push("Asset Heavy")
+  return models.join(", ") || "Not specified"
+}
+
+export const getManagementPreferenceString = (managementPreferences: any) => {
+  if (!managementPreferences) return "Not specified"
+  const prefs = []
+  if (managementPreferences.retiringDivesting) prefs.push("Retiring/Divesting")
+  if (managementPreferences.staffStay) prefs.push("Staff willing to stay")
+  return prefs.join(", ") || "Not specified"
+}
+
+// Map a raw API deal to what one buyer sees of it, given where that buyer stands on the deal
+export function mapBuyerDeal(deal: any, status: BuyerDeal["status"], buyerId: string | null): BuyerDeal {
+  return {
+    id: deal._id,
+    title: deal.title,
+    status,
+    companyDescription: deal.companyDescription,
+    industry: deal.industrySector,
+    geography: getDealGeographies(deal).join(", "),
+    yearsInBusiness: deal.yearsInBusiness,
+    trailingRevenue: deal.financialDetails?.trailingRevenueAmount || 0,
+    trailingEbitda: deal.financialDetails?.trailingEBITDAAmount || 0,
+    averageGrowth: deal.financialDetails?.avgRevenueGrowth || 0,
+    netIncome: deal.financialDetails?.netIncome || 0,
+    askingPrice: deal.financialDetails?.askingPrice || 0,
+    currencies: getDealCurrencies(deal.financialDetails),
+    businessModel: getBusinessModelString(deal.businessModel),
+    managementPreference: getManagementPreferenceString(deal.managementPreferences),
+    sellerPhone: "Contact via platform",
+    sellerEmail: "Contact via platform",
+    // Only the documents this buyer's tier on the deal entitles them to
+    documents: (deal.documents || []).filter((doc: DealDocument) =>
+      canBuyerAccessDocument(doc, buyerId || "", status === "passed" ? "rejected" : status),
+    ),
+    invitedAt: buyerId ? deal.invitationStatus?.[buyerId]?.invitedAt : undefined,
+    lastEditedAt: deal.lastEditedAt,
+    lastEditedFields: deal.lastEditedFields || [],
+    stage: status === "active" ? getDealStage(deal) : null,
+  }
+}
+
+export type BuyerDealAmount = "trailingRevenue" | "trailingEbitda" | "netIncome" | "askingPrice"
+
+const AMOUNT_CURRENCY_FIELDS: Record<BuyerDealAmount, DealAmountField> = {
+  trailingRevenue: "trailingRevenue",
+  trailingEbitda: "trailingEBITDA",
+  netIncome: "netIncome",
+  askingPrice: "askingPrice",
+}
+
+// A deal amount in the buyer's preferred currency, or as entered when no currency is given
+export function getDealAmount(deal: BuyerDeal, field: BuyerDealAmount, currency?: string | null): number {
+  const source = deal.currencies[AMOUNT_CURRENCY_FIELDS[field]]
+  return currency ? convertAmount(deal[field], source, currency) : deal[field]
+}
+
+export const formatDealAmount = (deal: BuyerDeal, field: BuyerDealAmount, currency?: string | null) =>
+  formatCurrency(getDealAmount(deal, field, currency), currency || deal.currencies[AMOUNT_CURRENCY_FIELDS[field]])
+
+// The deal's figures in its revenue currency, for the valuation multiples; ratios don't depend on the currency
+export function getBuyerDealValuationAmounts(deal: BuyerDeal): ValuationAmounts {
+  const currency = deal.currencies.trailingRevenue
+  return {
+    revenue: deal.trailingRevenue,
+    ebitda: getDealAmount(deal, "trailingEbitda", currency),
+    netIncome: getDealAmount(deal, "netIncome", currency),
+    price: getDealAmount(deal, "askingPrice", currency),
+  }
+}
+
+// Currencies the seller used that differ from the one amounts are shown in, for the "converted" note
+export const getConvertedCurrencies = (deal: BuyerDeal, currency?: string | null): CurrencyCode[] =>
+  currency ? Array.from(new Set(Object.values(deal.currencies))).filter((code) => code !== currency) : []
+
+// Deal figures outside the buyer's target ranges, compared in the currency the buyer entered the ranges in.
+// Unset maximums are stored as 0, and amounts the seller left out are not compared.
+export function getCriteriaMismatches(
+  deal: BuyerDeal,
+  criteria: TargetCriteria | undefined,
+  criteriaCurrency: string,
+): string[] {
+  if (!criteria) return []
+
+  const ranges: [string, BuyerDealAmount, number | undefined, number | undefined][] = [
+    ["Revenue", "trailingRevenue", criteria.revenueMin, criteria.revenueMax],
+    ["EBITDA", "trailingEbitda", criteria.ebitdaMin, criteria.ebitdaMax],
+    ["Transaction size", "askingPrice", criteria.transactionSizeMin, criteria.transactionSizeMax],
+  ]
+  return ranges
+    .filter(([, field, min, max]) => {
+      if (!deal[field]) return false
+      const amount = getDealAmount(deal, field, criteriaCurrency)
+      return (!!min && amount < min) || (!!max && amount > max)
+    })
+    .map(([label]) => label)
+}
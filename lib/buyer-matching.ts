@@ -0,0 +1,43 @@
+import type { MatchDetails, MatchedBuyer } from "@/types/deal"
+
+export type MatchCriterion = keyof MatchDetails
+
+// The eight criteria /matching-buyers scores a buyer on, in the order sellers read them
+export const MATCH_CRITERIA: { key: MatchCriterion; label: string }[] = [
+  { key: "industryMatch", label: "Industry" },
+  { key: "geographyMatch", label: "Geography" },
+  { key: "revenueMatch", label: "Revenue" },
+  { key: "ebitdaMatch", label: "EBITDA" },
+  { key: "transactionSizeMatch", label: "Transaction size" },
+  { key: "businessModelMatch", label: "Business model" },
+  { key: "managementMatch", label: "Management" },
+  { key: "yearsMatch", label: "Years in business" },
+]
+
+export type BuyerSortKey = "matchPercentage" | "criteriaMatched" | "companyName"
+
+export const BUYER_SORT_OPTIONS: { value: BuyerSortKey; label: string }[] = [
+  { value: "matchPercentage", label: "Match %" },
+  { value: "criteriaMatched", label: "Criteria matched" },
+  { value: "companyName", label: "Company name" },
+]
+
+export const countMatchedCriteria = (buyer: MatchedBuyer) =>
+  MATCH_CRITERIA.filter(({ key }) => buyer.matchDetails?.[key]).length
+
+// Keep buyers that match every required criterion, ordered by the chosen sort
+export function filterAndSortBuyers(
+  buyers: MatchedBuyer[],
+  requiredCriteria: MatchCriterion[],
+  sortKey: BuyerSortKey,
+): MatchedBuyer[] {
+  const filtered = buyers.filter((buyer) => requiredCriteria.every((key) => buyer.matchDetails?.[key]))
+
+  return filtered.sort((a, b) => {
+    if (sortKey === "companyName") return (a.companyName || "").localeCompare(b.companyName || "")
+    if (sortKey === "criteriaMatched") {
+      return countMatchedCriteria(b) - countMatchedCriteria(a) || (b.matchPercentage || 0) - (a.matchPercentage || 0)
+    }
+    return (b.matchPercentage || 0) - (a.matchPercentage || 0)
+  })
+}
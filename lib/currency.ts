@@ -0,0 +1,118 @@
+// ISO 4217 codes deals and buyer criteria can be entered in
+export const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "SEK",
+  "NOK",
+  "DKK",
+  "JPY",
+  "CNY",
+  "HKD",
+  "SGD",
+  "INR",
+  "AED",
+  "MXN",
+  "BRL",
+  "ZAR",
+] as const
+
+export type CurrencyCode = (typeof CURRENCY_CODES)[number]
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD"
+
+// US dollars per unit of each currency. Approximate; deployments set current rates through
+// NEXT_PUBLIC_CURRENCY_RATES, a JSON object of the same shape, e.g. {"EUR":1.09,"GBP":1.28}.
+const DEFAULT_USD_RATES: Record<CurrencyCode, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CAD: 0.73,
+  AUD: 0.66,
+  NZD: 0.6,
+  CHF: 1.12,
+  SEK: 0.095,
+  NOK: 0.093,
+  DKK: 0.145,
+  JPY: 0.0067,
+  CNY: 0.14,
+  HKD: 0.128,
+  SGD: 0.74,
+  INR: 0.012,
+  AED: 0.272,
+  MXN: 0.055,
+  BRL: 0.18,
+  ZAR: 0.054,
+}
+
+export type ExchangeRates = Record<CurrencyCode, number>
+
+let configuredRates: ExchangeRates | null = null
+
+export function getExchangeRates(): ExchangeRates {
+  if (configuredRates) return configuredRates
+
+  let overrides: Partial<ExchangeRates> = {}
+  try {
+    overrides = JSON.parse(process.env.NEXT_PUBLIC_CURRENCY_RATES || "{}")
+  } catch {
+    console.error("NEXT_PUBLIC_CURRENCY_RATES is not valid JSON; using the default rates")
+  }
+  configuredRates = { ...DEFAULT_USD_RATES }
+  CURRENCY_CODES.forEach((code) => {
+    const rate = Number(overrides[code])
+    if (rate > 0) configuredRates![code] = rate
+  })
+  return configuredRates
+}
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === "string" && (CURRENCY_CODES as readonly string[]).includes(value)
+
+// Accepts ISO codes and the "USD($)" labels older deals were saved with; anything unknown is treated as USD
+export function parseCurrencyCode(value?: string | null): CurrencyCode {
+  const code = (value || "").trim().slice(0, 3).toUpperCase()
+  return isCurrencyCode(code) ? code : DEFAULT_CURRENCY
+}
+
+export function convertAmount(amount: number, from: string, to: string, rates = getExchangeRates()): number {
+  const fromCode = parseCurrencyCode(from)
+  const toCode = parseCurrencyCode(to)
+  if (fromCode === toCode) return amount
+  return (amount * rates[fromCode]) / rates[toCode]
+}
+
+// Formatted in the viewer's locale unless one is given, without cents since deal figures are whole amounts
+export function formatCurrency(
+  amount: number | undefined | null,
+  currency?: string | null,
+  options: { locale?: string; display?: "symbol" | "code" } = {},
+): string {
+  return new Intl.NumberFormat(options.locale, {
+    style: "currency",
+    currency: parseCurrencyCode(currency),
+    currencyDisplay: options.display || "symbol",
+    maximumFractionDigits: 0,
+  }).format(amount || 0)
+}
+
+// The symbol shown in front of amount inputs, e.g. "$", "€" or "CA$"
+export function getCurrencySymbol(currency?: string | null, locale?: string): string {
+  return (
+    new Intl.NumberFormat(locale, { style: "currency", currency: parseCurrencyCode(currency) })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value || parseCurrencyCode(currency)
+  )
+}
+
+export function getCurrencyName(currency: CurrencyCode, locale?: string): string {
+  try {
+    return new Intl.DisplayNames(locale ? [locale] : undefined, { type: "currency" }).of(currency) || currency
+  } catch {
+    return currency
+  }
+}
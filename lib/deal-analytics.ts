@@ -0,0 +1,146 @@
+import { ACCEPTED_RESPONSES, PASSED_RESPONSES, type InvitationEntry } from "@/lib/deal-engagement"
+
+// Shape of /deals/:id/status-summary as far as the analytics need it
+export interface DealStatusSummary {
+  deal: {
+    _id: string
+    title: string
+    status: string
+    targetedBuyers?: string[]
+    invitationStatus?: Record<string, InvitationEntry>
+  }
+  buyersByStatus: {
+    active: { buyerId: string; lastActivity?: string }[]
+    pending: { buyerId: string; lastActivity?: string }[]
+    rejected: { buyerId: string; lastActivity?: string }[]
+  }
+  summary: {
+    totalTargeted: number
+    totalActive: number
+    totalPending: number
+    totalRejected: number
+  }
+}
+
+export interface DealAnalyticsInput {
+  summary: DealStatusSummary
+  matchedCount: number
+}
+
+export type FunnelStageKey = "matched" | "targeted" | "viewed" | "active" | "closed"
+
+export interface FunnelStage {
+  stage: FunnelStageKey
+  label: string
+  count: number
+}
+
+export interface ResponseTrendPoint {
+  week: string
+  invited: number
+  accepted: number
+  passed: number
+}
+
+export interface DealComparisonRow {
+  dealId: string
+  title: string
+  matched: number
+  targeted: number
+  active: number
+  responseRate: number
+}
+
+const FUNNEL_LABELS: Record<FunnelStageKey, string> = {
+  matched: "Matched",
+  targeted: "Targeted",
+  viewed: "Viewed",
+  active: "Active",
+  closed: "Closed",
+}
+
+// Buyers who opened the deal: anyone with recorded activity, plus anyone who answered (they had to open it to answer)
+const countViewed = ({ deal, buyersByStatus }: DealStatusSummary) => {
+  const viewed = new Set<string>()
+  ;[...buyersByStatus.active, ...buyersByStatus.pending, ...buyersByStatus.rejected].forEach((buyer) => {
+    if (buyer.lastActivity) viewed.add(buyer.buyerId)
+  })
+  Object.entries(deal.invitationStatus || {}).forEach(([buyerId, invitation]) => {
+    if (invitation.respondedAt) viewed.add(buyerId)
+  })
+  return viewed.size
+}
+
+// Matched → targeted → viewed → active → closed for a single deal
+export function buildDealFunnel({ summary, matchedCount }: DealAnalyticsInput): FunnelStage[] {
+  const targeted = summary.summary.totalTargeted
+  const counts: Record<FunnelStageKey, number> = {
+    // Targeted buyers are always matches, even if they no longer show up in the matching results
+    matched: Math.max(matchedCount, targeted),
+    targeted,
+    viewed: countViewed(summary),
+    active: summary.summary.totalActive,
+    closed: summary.deal.status === "completed" ? 1 : 0,
+  }
+
+  return (Object.keys(FUNNEL_LABELS) as FunnelStageKey[]).map((stage) => ({
+    stage,
+    label: FUNNEL_LABELS[stage],
+    count: counts[stage],
+  }))
+}
+
+// Monday of the week a timestamp falls in, as YYYY-MM-DD
+const weekStart = (timestamp: string) => {
+  const date = new Date(timestamp)
+  date.setUTCHours(0, 0, 0, 0)
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+  return date.toISOString().slice(0, 10)
+}
+
+// Weekly invitations and responses across the given deals, with empty weeks filled in
+export function buildResponseTrend(summaries: DealStatusSummary[]): ResponseTrendPoint[] {
+  const weeks = new Map<string, ResponseTrendPoint>()
+  const pointFor = (timestamp: string) => {
+    const week = weekStart(timestamp)
+    if (!weeks.has(week)) weeks.set(week, { week, invited: 0, accepted: 0, passed: 0 })
+    return weeks.get(week)!
+  }
+
+  summaries.forEach(({ deal }) => {
+    Object.values(deal.invitationStatus || {}).forEach((invitation) => {
+      if (invitation.invitedAt) pointFor(invitation.invitedAt).invited++
+      if (!invitation.respondedAt || !invitation.response) return
+      if (ACCEPTED_RESPONSES.includes(invitation.response)) pointFor(invitation.respondedAt).accepted++
+      else if (PASSED_RESPONSES.includes(invitation.response)) pointFor(invitation.respondedAt).passed++
+    })
+  })
+
+  const sorted = Array.from(weeks.keys()).sort()
+  if (sorted.length === 0) return []
+
+  const points: ResponseTrendPoint[] = []
+  const cursor = new Date(sorted[0])
+  const last = sorted[sorted.length - 1]
+  while (cursor.toISOString().slice(0, 10) <= last) {
+    const week = cursor.toISOString().slice(0, 10)
+    points.push(weeks.get(week) || { week, invited: 0, accepted: 0, passed: 0 })
+    cursor.setUTCDate(cursor.getUTCDate() + 7)
+  }
+  return points
+}
+
+// One row per deal so the seller can see which listings draw the most interest
+export function buildDealComparison(inputs: DealAnalyticsInput[]): DealComparisonRow[] {
+  return inputs.map(({ summary, matchedCount }) => {
+    const { totalTargeted, totalActive, totalRejected } = summary.summary
+    return {
+      dealId: summary.deal._id,
+      title: summary.deal.title,
+      matched: Math.max(matchedCount, totalTargeted),
+      targeted: totalTargeted,
+      active: totalActive,
+      responseRate: totalTargeted ? Math.round(((totalActive + totalRejected) / totalTargeted) * 100) : 0,
+    }
+  })
+}
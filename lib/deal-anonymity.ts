@@ -0,0 +1,55 @@
+// Details that would let a buyer identify the business before signing an NDA
+export interface SellerIdentity {
+  fullName?: string
+  companyName?: string
+  email?: string
+  website?: string
+}
+
+export interface AnonymityIssue {
+  field: string
+  match: string
+  reason: string
+}
+
+const IDENTIFYING_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/g, reason: "Email address" },
+  { pattern: /(?:\+?\d[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/g, reason: "Phone number" },
+  { pattern: /\b(?:https?:\/\/|www\.)[^\s,;]+/gi, reason: "Website" },
+]
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Names shorter than this match too many ordinary words to be worth flagging
+const MIN_NAME_LENGTH = 3
+
+// Scan teaser-visible text for contact details and the seller's own names
+export function findAnonymityIssues(fields: Record<string, string>, identity: SellerIdentity = {}): AnonymityIssue[] {
+  const names = [identity.companyName, identity.fullName, identity.website?.replace(/^https?:\/\/(www\.)?/i, "")]
+    .map((name) => name?.trim())
+    .filter((name): name is string => !!name && name.length >= MIN_NAME_LENGTH)
+
+  const issues: AnonymityIssue[] = []
+  Object.entries(fields).forEach(([field, text]) => {
+    if (!text) return
+
+    IDENTIFYING_PATTERNS.forEach(({ pattern, reason }) => {
+      ;(text.match(pattern) || []).forEach((match) => issues.push({ field, match, reason }))
+    })
+
+    names.forEach((name) => {
+      const match = text.match(new RegExp(`\\b${escapeRegExp(name)}\\b`, "i"))
+      if (match) issues.push({ field, match: match[0], reason: "Your name or company name" })
+    })
+  })
+
+  return issues
+}
+
+// Replace every flagged detail with a neutral placeholder
+export function redactAnonymityIssues(text: string, issues: AnonymityIssue[]): string {
+  return issues.reduce(
+    (redacted, issue) => redacted.replace(new RegExp(escapeRegExp(issue.match), "gi"), "[redacted]"),
+    text,
+  )
+}
@@ -0,0 +1,96 @@
+import { ACCEPTED_RESPONSES, PASSED_RESPONSES } from "@/lib/deal-engagement"
+import type { DealDocument, DocumentAccessTier } from "@/types/deal"
+
+// Maximum size of a single deal document
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024
+
+// Document types sellers may attach to a deal, by MIME type and extension
+export const ALLOWED_DOCUMENT_TYPES: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "application/vnd.ms-powerpoint": ".ppt",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ".pptx",
+  "text/html": ".html",
+}
+
+// Value for the file input's accept attribute
+export const DOCUMENT_ACCEPT = [...Object.keys(ALLOWED_DOCUMENT_TYPES), ...Object.values(ALLOWED_DOCUMENT_TYPES)].join(",")
+
+// Stable key for a picked file, used to track its upload state
+export const getDocumentKey = (file: File) => `${file.name}-${file.size}-${file.lastModified}`
+
+// File name of a deal's generated one-page teaser
+export const getTeaserFilename = (dealId: string) => `teaser-${dealId.slice(-6)}.pdf`
+
+// Return an error message when a file can't be attached to a deal, or null when it is fine
+export function validateDealDocument(file: File): string | null {
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase()
+  // Some browsers report an empty MIME type for Office files, so fall back to the extension
+  const isAllowedType = file.type
+    ? file.type in ALLOWED_DOCUMENT_TYPES
+    : Object.values(ALLOWED_DOCUMENT_TYPES).includes(extension)
+
+  if (!isAllowedType) {
+    return `${file.name}: unsupported file type`
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    return `${file.name}: file size exceeds 10MB limit`
+  }
+  return null
+}
+
+// Upload progress of a single picked document
+export interface DocumentUploadState {
+  status: "uploading" | "uploaded" | "failed"
+  progress: number
+  error?: string
+}
+
+export const DOCUMENT_ACCESS_TIERS: { value: DocumentAccessTier; label: string; description: string }[] = [
+  { value: "teaser", label: "Teaser", description: "Every invited buyer" },
+  { value: "nda", label: "After NDA", description: "Buyers who accepted the deal" },
+  { value: "selected", label: "Selected buyers", description: "Only the active buyers you choose" },
+]
+
+// Documents uploaded before access tiers existed were only shown to active buyers
+export const getDocumentAccessTier = (doc: DealDocument): DocumentAccessTier => doc.accessTier || "nda"
+
+export type BuyerDealStatus = "pending" | "active" | "rejected"
+
+// Where a buyer stands on a deal, from the invitation response the seller page also buckets by
+export function getBuyerDealStatus(
+  invitationStatus: Record<string, { response?: string }> | undefined,
+  buyerId: string,
+): BuyerDealStatus | null {
+  const invitation = invitationStatus?.[buyerId]
+  if (!invitation) return null
+  if (invitation.response && ACCEPTED_RESPONSES.includes(invitation.response)) return "active"
+  if (invitation.response && PASSED_RESPONSES.includes(invitation.response)) return "rejected"
+  return "pending"
+}
+
+// Whether a buyer in the given state on a deal may see and download a document
+export function canBuyerAccessDocument(doc: DealDocument, buyerId: string, status: BuyerDealStatus | null): boolean {
+  switch (getDocumentAccessTier(doc)) {
+    case "teaser":
+      return status !== null
+    case "nda":
+      return status === "active"
+    case "selected":
+      return status === "active" && !!doc.allowedBuyerIds?.includes(buyerId)
+    default:
+      return false
+  }
+}
+
+// The deal with only the documents this buyer may see, so filenames they aren't entitled to never reach the browser
+export function withBuyerDocuments<T extends { documents?: DealDocument[]; invitationStatus?: Record<string, any> }>(
+  deal: T,
+  buyerId: string,
+): T {
+  const status = getBuyerDealStatus(deal.invitationStatus, buyerId)
+  return { ...deal, documents: (deal.documents || []).filter((doc) => canBuyerAccessDocument(doc, buyerId, status)) }
+}
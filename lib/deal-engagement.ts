@@ -0,0 +1,145 @@
+export type EngagementEventType = "invited" | "viewed" | "accepted" | "passed" | "downloaded"
+
+export interface EngagementEvent {
+  buyerId: string
+  type: EngagementEventType
+  at: string
+  detail?: string
+}
+
+// Per-buyer invitation entry as stored on the deal
+export interface InvitationEntry {
+  invitedAt: string
+  respondedAt?: string
+  response?: string
+  notes?: string
+}
+
+// Interaction recorded through /deal-tracking
+export interface TrackingEvent {
+  buyer?: string | { _id: string }
+  buyerId?: string
+  interactionType: string
+  timestamp?: string
+  createdAt?: string
+  notes?: string
+  metadata?: Record<string, any>
+}
+
+export interface ResponseStats {
+  invited: number
+  viewed: number
+  responded: number
+  accepted: number
+  passed: number
+  awaiting: number
+  // Hours from invitation to accept/pass, over the buyers who responded
+  medianHoursToRespond: number | null
+  averageHoursToRespond: number | null
+  fastestHoursToRespond: number | null
+  // Hours from invitation to first view, over the buyers who viewed
+  medianHoursToView: number | null
+}
+
+// Invitation responses that mean the buyer accepted or passed on the deal; anything else is still pending
+export const ACCEPTED_RESPONSES = ["accepted", "interested"]
+export const PASSED_RESPONSES = ["rejected", "declined"]
+
+const TRACKING_TYPES: Record<string, EngagementEventType> = {
+  view: "viewed",
+  viewed: "viewed",
+  download: "downloaded",
+  downloaded: "downloaded",
+}
+
+const hoursBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / 36e5
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Merge invitation status and tracked interactions into one chronological event list
+export function buildEngagementTimeline(
+  invitationStatus: Record<string, InvitationEntry> | undefined,
+  trackingEvents: TrackingEvent[] = [],
+): EngagementEvent[] {
+  const events: EngagementEvent[] = []
+
+  Object.entries(invitationStatus || {}).forEach(([buyerId, invitation]) => {
+    if (invitation.invitedAt) {
+      events.push({ buyerId, type: "invited", at: invitation.invitedAt })
+    }
+    if (invitation.respondedAt && invitation.response) {
+      if (ACCEPTED_RESPONSES.includes(invitation.response)) {
+        events.push({ buyerId, type: "accepted", at: invitation.respondedAt, detail: invitation.notes })
+      } else if (PASSED_RESPONSES.includes(invitation.response)) {
+        events.push({ buyerId, type: "passed", at: invitation.respondedAt, detail: invitation.notes })
+      }
+    }
+  })
+
+  trackingEvents.forEach((event) => {
+    const type = TRACKING_TYPES[event.interactionType?.toLowerCase()]
+    const buyerId = event.buyerId || (typeof event.buyer === "object" ? event.buyer?._id : event.buyer)
+    const at = event.timestamp || event.createdAt
+    if (!type || !buyerId || !at) return
+
+    events.push({ buyerId, type, at, detail: event.metadata?.filename || event.notes })
+  })
+
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+}
+
+// Summarize how quickly the buyer pool is responding to a deal
+export function computeResponseStats(
+  invitationStatus: Record<string, InvitationEntry> | undefined,
+  timeline: EngagementEvent[],
+): ResponseStats {
+  const invitations = Object.entries(invitationStatus || {})
+  const responseHours: number[] = []
+  let accepted = 0
+  let passed = 0
+
+  invitations.forEach(([, invitation]) => {
+    if (!invitation.response || !invitation.respondedAt) return
+    if (ACCEPTED_RESPONSES.includes(invitation.response)) accepted++
+    else if (PASSED_RESPONSES.includes(invitation.response)) passed++
+    else return
+    responseHours.push(Math.max(0, hoursBetween(invitation.invitedAt, invitation.respondedAt)))
+  })
+
+  // First view per buyer, measured from that buyer's invitation
+  const firstViews = new Map<string, string>()
+  timeline.forEach((event) => {
+    if (event.type === "viewed" && !firstViews.has(event.buyerId)) firstViews.set(event.buyerId, event.at)
+  })
+  const viewHours = Array.from(firstViews.entries())
+    .filter(([buyerId]) => invitationStatus?.[buyerId]?.invitedAt)
+    .map(([buyerId, viewedAt]) => Math.max(0, hoursBetween(invitationStatus![buyerId].invitedAt, viewedAt)))
+
+  return {
+    invited: invitations.length,
+    viewed: firstViews.size,
+    responded: responseHours.length,
+    accepted,
+    passed,
+    awaiting: invitations.length - responseHours.length,
+    medianHoursToRespond: median(responseHours),
+    averageHoursToRespond: responseHours.length
+      ? responseHours.reduce((sum, hours) => sum + hours, 0) / responseHours.length
+      : null,
+    fastestHoursToRespond: responseHours.length ? Math.min(...responseHours) : null,
+    medianHoursToView: median(viewHours),
+  }
+}
+
+// Render a duration in hours as a short human-readable string
+export function formatDuration(hours: number | null): string {
+  if (hours === null) return "—"
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`
+  if (hours < 48) return `${Math.round(hours)}h`
+  return `${Math.round(hours / 24)}d`
+}
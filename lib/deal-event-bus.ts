@@ -0,0 +1,24 @@
+import type { DealEvent } from "@/lib/deal-events"
+
+type DealEventListener = (event: DealEvent) => void
+
+// Open event streams by user ID. Kept on globalThis so dev-mode reloads of route modules share one bus; this is
+// per server process, so a multi-instance deployment needs the API to publish to every instance.
+const globalForBus = globalThis as typeof globalThis & { dealEventListeners?: Map<string, Set<DealEventListener>> }
+const listeners = (globalForBus.dealEventListeners ??= new Map<string, Set<DealEventListener>>())
+
+export function subscribeDealEvents(userId: string, listener: DealEventListener) {
+  const userListeners = listeners.get(userId) || new Set()
+  userListeners.add(listener)
+  listeners.set(userId, userListeners)
+
+  return () => {
+    userListeners.delete(listener)
+    if (userListeners.size === 0) listeners.delete(userId)
+  }
+}
+
+// Deliver an event to every open stream of the given users
+export function publishDealEvent(event: DealEvent, recipientIds: string[]) {
+  new Set(recipientIds).forEach((userId) => listeners.get(userId)?.forEach((listener) => listener(event)))
+}
@@ -0,0 +1,16 @@
+// Pushed to buyers and sellers over /api/events when something changes on a deal they are part of
+export type DealEvent =
+  // A buyer was invited to a deal
+  | { type: "invitation"; dealId: string; buyerId: string; at: string }
+  // A buyer accepted, passed on or reopened a deal; response is the raw invitation response
+  | { type: "response"; dealId: string; buyerId: string; response: string; at: string }
+  // The deal went active, off-market or completed
+  | { type: "status"; dealId: string; status: string; at: string }
+  // The seller edited the deal's details
+  | { type: "updated"; dealId: string; at: string }
+
+export const DEAL_EVENT_TYPES: DealEvent["type"][] = ["invitation", "response", "status", "updated"]
+
+export function isDealEvent(value: any): value is DealEvent {
+  return !!value && DEAL_EVENT_TYPES.includes(value.type) && typeof value.dealId === "string"
+}
@@ -0,0 +1,348 @@
+import { DEFAULT_CURRENCY, formatCurrency, parseCurrencyCode, type CurrencyCode } from "@/lib/currency"
+import type { GeoItem } from "@/lib/geography-data"
+import type { IndustryItem } from "@/lib/industry-data"
+
+// Amounts on the deal form that each carry their own currency
+export type DealAmountField = "trailingRevenue" | "trailingEBITDA" | "netIncome" | "askingPrice"
+
+// Form state shared by the seller deal form and the edit deal dialog
+export interface SellerFormData {
+  dealTitle: string
+  companyDescription: string
+  geographySelections: string[]
+  industrySelections: string[]
+  yearsInBusiness: number
+  trailingRevenue: number
+  trailingEBITDA: number
+  revenueGrowth: number
+  currencies: Record<DealAmountField, CurrencyCode>
+  netIncome: number
+  askingPrice: number
+  businessModels: string[]
+  managementPreferences: string[]
+  capitalAvailability: string
+  minPriorAcquisitions: number
+  minTransactionSize: number
+  documents: File[]
+}
+
+// Deal fields the seller can edit, in the shape the API stores them
+export interface DealFields {
+  title: string
+  companyDescription: string
+  industrySector: string
+  geographySelection: string
+  geographies: string[]
+  geographyIds: string[]
+  industryIds: string[]
+  yearsInBusiness: number
+  financialDetails: {
+    trailingRevenueCurrency: string
+    trailingRevenueAmount: number
+    trailingEBITDACurrency: string
+    trailingEBITDAAmount: number
+    avgRevenueGrowth: number
+    netIncome: number
+    netIncomeCurrency: string
+    askingPrice: number
+    askingPriceCurrency: string
+  }
+  businessModel: {
+    recurringRevenue: boolean
+    projectBased: boolean
+    assetLight: boolean
+    assetHeavy: boolean
+  }
+  managementPreferences: {
+    retiringDivesting: boolean
+    staffStay: boolean
+  }
+  buyerFit: {
+    capitalAvailability: string
+    minPriorAcquisitions: number
+    minTransactionSize: number
+  }
+}
+
+// A single changed field, as shown in the review step before saving
+export interface DealFieldChange {
+  label: string
+  before: string
+  after: string
+}
+
+export const emptySellerFormData: SellerFormData = {
+  dealTitle: "",
+  companyDescription: "",
+  geographySelections: [],
+  industrySelections: [],
+  yearsInBusiness: 0,
+  trailingRevenue: 0,
+  trailingEBITDA: 0,
+  revenueGrowth: 0,
+  currencies: {
+    trailingRevenue: DEFAULT_CURRENCY,
+    trailingEBITDA: DEFAULT_CURRENCY,
+    netIncome: DEFAULT_CURRENCY,
+    askingPrice: DEFAULT_CURRENCY,
+  },
+  netIncome: 0,
+  askingPrice: 0,
+  businessModels: [],
+  managementPreferences: [],
+  capitalAvailability: "ready",
+  minPriorAcquisitions: 0,
+  minTransactionSize: 0,
+  documents: [],
+}
+
+// All geography names on a deal, falling back to the legacy single geography field
+export function getDealGeographies(deal: { geographies?: string[]; geographySelection?: string }): string[] {
+  if (deal.geographies && deal.geographies.length > 0) return deal.geographies
+  return deal.geographySelection ? [deal.geographySelection] : []
+}
+
+// Tag the seller form puts on autosaved drafts. Submitted deals are posted with status "draft" too, so the status
+// alone doesn't mark a draft; submitting clears the tags.
+export const AUTOSAVE_DRAFT_TAG = "autosave-draft"
+
+export const isAutosaveDraft = (deal: { tags?: string[] }) => !!deal.tags?.includes(AUTOSAVE_DRAFT_TAG)
+
+// Currency of each amount on a saved deal. Older deals stored one "USD($)"-style label on the revenue field only,
+// so the other amounts fall back to it.
+export function getDealCurrencies(financialDetails?: {
+  trailingRevenueCurrency?: string
+  trailingEBITDACurrency?: string
+  netIncomeCurrency?: string
+  askingPriceCurrency?: string
+}): Record<DealAmountField, CurrencyCode> {
+  const revenueCurrency = parseCurrencyCode(financialDetails?.trailingRevenueCurrency)
+  const currencyOr = (value?: string) => (value ? parseCurrencyCode(value) : revenueCurrency)
+  return {
+    trailingRevenue: revenueCurrency,
+    trailingEBITDA: currencyOr(financialDetails?.trailingEBITDACurrency),
+    netIncome: currencyOr(financialDetails?.netIncomeCurrency),
+    askingPrice: currencyOr(financialDetails?.askingPriceCurrency),
+  }
+}
+
+// Rebuild the form state from a saved deal so it can be resumed or edited
+export function mapDealToFormData(deal: any, flatGeoData: GeoItem[], flatIndustryData: IndustryItem[]): SellerFormData {
+  const findIdByName = (items: { id: string; name: string }[], name?: string) =>
+    name ? items.find((item) => item.name === name)?.id : undefined
+
+  const geographySelections: string[] =
+    deal.geographyIds?.length > 0
+      ? deal.geographyIds
+      : getDealGeographies(deal)
+          .map((name) => findIdByName(flatGeoData, name))
+          .filter((id): id is string => !!id)
+  const industrySelections: string[] =
+    deal.industryIds?.length > 0
+      ? deal.industryIds
+      : [findIdByName(flatIndustryData, deal.industrySector)].filter((id): id is string => !!id)
+
+  const businessModels: string[] = []
+  if (deal.businessModel?.recurringRevenue) businessModels.push("recurring-revenue")
+  if (deal.businessModel?.projectBased) businessModels.push("project-based")
+  if (deal.businessModel?.assetLight) businessModels.push("asset-light")
+  if (deal.businessModel?.assetHeavy) businessModels.push("asset-heavy")
+
+  const managementPreferences: string[] = []
+  if (deal.managementPreferences?.retiringDivesting) managementPreferences.push("retiring-divesting")
+  if (deal.managementPreferences?.staffStay) managementPreferences.push("key-staff-stay")
+
+  return {
+    dealTitle: deal.title || "",
+    companyDescription: deal.companyDescription || "",
+    geographySelections,
+    industrySelections,
+    yearsInBusiness: deal.yearsInBusiness || 0,
+    trailingRevenue: deal.financialDetails?.trailingRevenueAmount || 0,
+    trailingEBITDA: deal.financialDetails?.trailingEBITDAAmount || 0,
+    revenueGrowth: deal.financialDetails?.avgRevenueGrowth || 0,
+    currencies: getDealCurrencies(deal.financialDetails),
+    netIncome: deal.financialDetails?.netIncome || 0,
+    askingPrice: deal.financialDetails?.askingPrice || 0,
+    businessModels,
+    managementPreferences,
+    capitalAvailability: deal.buyerFit?.capitalAvailability === "Need to raise" ? "need-raise" : "ready",
+    minPriorAcquisitions: deal.buyerFit?.minPriorAcquisitions || 0,
+    minTransactionSize: deal.buyerFit?.minTransactionSize || 0,
+    documents: [],
+  }
+}
+
+// Map the form state to the deal fields the API expects
+export function buildDealFields(
+  formData: SellerFormData,
+  flatGeoData: GeoItem[],
+  flatIndustryData: IndustryItem[],
+): DealFields {
+  const geographies = formData.geographySelections
+    .map((id) => flatGeoData.find((item) => item.id === id)?.name)
+    .filter((name): name is string => !!name)
+
+  return {
+    title: formData.dealTitle,
+    companyDescription: formData.companyDescription,
+    industrySector: flatIndustryData.find((item) => item.id === formData.industrySelections[0])?.name || "",
+    // Legacy single-geography field keeps the first selection for older readers; matching uses the full list
+    geographySelection: geographies[0] || "",
+    geographies,
+    // Raw selector IDs so the deal can be reopened with the same selections
+    geographyIds: formData.geographySelections,
+    industryIds: formData.industrySelections,
+    yearsInBusiness: formData.yearsInBusiness,
+    financialDetails: {
+      trailingRevenueCurrency: formData.currencies.trailingRevenue,
+      trailingRevenueAmount: formData.trailingRevenue,
+      trailingEBITDACurrency: formData.currencies.trailingEBITDA,
+      trailingEBITDAAmount: formData.trailingEBITDA,
+      avgRevenueGrowth: formData.revenueGrowth,
+      netIncome: formData.netIncome,
+      netIncomeCurrency: formData.currencies.netIncome,
+      askingPrice: formData.askingPrice,
+      askingPriceCurrency: formData.currencies.askingPrice,
+    },
+    businessModel: {
+      recurringRevenue: formData.businessModels.includes("recurring-revenue"),
+      projectBased: formData.businessModels.includes("project-based"),
+      assetLight: formData.businessModels.includes("asset-light"),
+      assetHeavy: formData.businessModels.includes("asset-heavy"),
+    },
+    managementPreferences: {
+      retiringDivesting: formData.managementPreferences.includes("retiring-divesting"),
+      staffStay: formData.managementPreferences.includes("key-staff-stay"),
+    },
+    buyerFit: {
+      capitalAvailability: formData.capitalAvailability === "ready" ? "Ready to deploy immediately" : "Need to raise",
+      minPriorAcquisitions: formData.minPriorAcquisitions,
+      minTransactionSize: formData.minTransactionSize,
+    },
+  }
+}
+
+type DealFieldGroup = "financialDetails" | "businessModel" | "managementPreferences" | "buyerFit"
+
+interface DealFieldDescriptor {
+  label: string
+  read: (fields: DealFields) => unknown
+  display: (fields: DealFields) => string
+  // Top-level keys sent in the PATCH body when this field changes
+  patchKeys: (keyof DealFields)[]
+}
+
+const formatNumber = (value: number) => (value || 0).toLocaleString()
+
+type FinancialDetailKey = keyof DealFields["financialDetails"]
+
+// An amount and its currency, which the review step shows as one change
+const amountField = (
+  amountKey: FinancialDetailKey,
+  currencyKey: FinancialDetailKey,
+  label: string,
+): DealFieldDescriptor => ({
+  label,
+  read: (fields) => [
+    fields.financialDetails[amountKey],
+    parseCurrencyCode(String(fields.financialDetails[currencyKey])),
+  ],
+  display: (fields) =>
+    formatCurrency(Number(fields.financialDetails[amountKey]), String(fields.financialDetails[currencyKey])),
+  patchKeys: ["financialDetails"],
+})
+
+const formatFlags = (flags: Record<string, boolean>, labels: Record<string, string>) =>
+  Object.keys(labels)
+    .filter((key) => flags[key])
+    .map((key) => labels[key])
+    .join(", ") || "Not specified"
+
+const groupField = (
+  group: DealFieldGroup,
+  key: string,
+  label: string,
+  display: (value: any) => string = (value) => String(value ?? ""),
+): DealFieldDescriptor => ({
+  label,
+  read: (fields) => (fields[group] as Record<string, unknown>)[key],
+  display: (fields) => display((fields[group] as Record<string, unknown>)[key]),
+  // Nested groups are sent whole so the backend does not drop the untouched siblings
+  patchKeys: [group],
+})
+
+const DEAL_FIELDS: DealFieldDescriptor[] = [
+  { label: "Deal Title", read: (f) => f.title, display: (f) => f.title, patchKeys: ["title"] },
+  {
+    label: "Company Description",
+    read: (f) => f.companyDescription,
+    display: (f) => f.companyDescription,
+    patchKeys: ["companyDescription"],
+  },
+  {
+    label: "Geography",
+    read: (f) => f.geographyIds,
+    display: (f) => f.geographies.join(", ") || "Not specified",
+    patchKeys: ["geographyIds", "geographies", "geographySelection"],
+  },
+  {
+    label: "Industry",
+    read: (f) => f.industryIds,
+    display: (f) => f.industrySector || "Not specified",
+    patchKeys: ["industryIds", "industrySector"],
+  },
+  {
+    label: "Number of Years in Business",
+    read: (f) => f.yearsInBusiness,
+    display: (f) => String(f.yearsInBusiness || 0),
+    patchKeys: ["yearsInBusiness"],
+  },
+  amountField("trailingRevenueAmount", "trailingRevenueCurrency", "Trailing 12-Month Revenue"),
+  amountField("trailingEBITDAAmount", "trailingEBITDACurrency", "Trailing 12-Month EBITDA"),
+  groupField("financialDetails", "avgRevenueGrowth", "Average 3-Year Revenue Growth", (value) => `${value || 0}%`),
+  amountField("netIncome", "netIncomeCurrency", "Net Income"),
+  amountField("askingPrice", "askingPriceCurrency", "Asking Price"),
+  {
+    label: "Business Models",
+    read: (f) => f.businessModel,
+    display: (f) =>
+      formatFlags(f.businessModel, {
+        recurringRevenue: "Recurring Revenue",
+        projectBased: "Project-Based",
+        assetLight: "Asset Light",
+        assetHeavy: "Asset Heavy",
+      }),
+    patchKeys: ["businessModel"],
+  },
+  {
+    label: "Management Future Preferences",
+    read: (f) => f.managementPreferences,
+    display: (f) =>
+      formatFlags(f.managementPreferences, {
+        retiringDivesting: "Retiring to divesting",
+        staffStay: "Other Key Staff Will Stay",
+      }),
+    patchKeys: ["managementPreferences"],
+  },
+  groupField("buyerFit", "capitalAvailability", "Capital Availability"),
+  groupField("buyerFit", "minPriorAcquisitions", "Minimum Number of Prior Acquisitions", formatNumber),
+  groupField("buyerFit", "minTransactionSize", "Minimum Transaction Size", formatNumber),
+]
+
+// Compare two versions of a deal and return the field-level changes plus the PATCH body for them
+export function diffDealFields(before: DealFields, after: DealFields) {
+  const changes: DealFieldChange[] = []
+  const patch: Partial<DealFields> = {}
+
+  DEAL_FIELDS.forEach((field) => {
+    if (JSON.stringify(field.read(before)) === JSON.stringify(field.read(after))) return
+
+    changes.push({ label: field.label, before: field.display(before), after: field.display(after) })
+    field.patchKeys.forEach((key) => {
+      ;(patch as Record<string, unknown>)[key] = after[key]
+    })
+  })
+
+  return { changes, patch }
+}
@@ -0,0 +1,79 @@
+import { getDealGeographies } from "@/lib/deal-form"
+import type { DealFinancialDetails } from "@/types/deal"
+
+// A completed deal as returned by /deals/completed
+export interface HistoryDeal {
+  _id: string
+  title: string
+  companyDescription?: string
+  industrySector?: string
+  geographySelection?: string
+  geographies?: string[]
+  financialDetails?: Partial<DealFinancialDetails>
+  timeline?: { createdAt?: string; updatedAt?: string; publishedAt?: string; completedAt?: string }
+  targetedBuyers?: string[]
+  interestedBuyers?: string[]
+  buyerFromCIM?: boolean
+  winningBuyerId?: string
+}
+
+export type HistoryExportRow = Record<string, string | number>
+
+const formatDate = (value?: string) => (value ? new Date(value).toISOString().slice(0, 10) : "")
+
+// One flat row per deal with the table's columns plus the underlying financials and timeline dates
+export function buildHistoryExportRows(deals: HistoryDeal[]): HistoryExportRow[] {
+  return deals.map((deal) => {
+    const financials = deal.financialDetails || {}
+    const buyersActive = deal.interestedBuyers?.length || 0
+    const buyerFromCIM = deal.buyerFromCIM ?? !!deal.winningBuyerId
+
+    return {
+      "Deal ID": deal._id,
+      Title: deal.title,
+      Description: deal.companyDescription || "",
+      Industry: deal.industrySector || "",
+      Geography: getDealGeographies(deal).join(", "),
+      "Buyers Invited": deal.targetedBuyers?.length || 0,
+      "Buyers Active": buyersActive,
+      "Buyers Passed": Math.max(0, (deal.targetedBuyers?.length || 0) - buyersActive),
+      "Buyer From CIM Amplify": buyerFromCIM ? "Yes" : "No",
+      "Final Sale Price": financials.finalSalePrice ?? "",
+      "Asking Price": financials.askingPrice ?? "",
+      "Trailing Revenue": financials.trailingRevenueAmount ?? "",
+      "Revenue Currency": financials.trailingRevenueCurrency || "",
+      "Trailing EBITDA": financials.trailingEBITDAAmount ?? "",
+      "EBITDA Currency": financials.trailingEBITDACurrency || "",
+      "Avg Revenue Growth (%)": financials.avgRevenueGrowth ?? "",
+      "Net Income": financials.netIncome ?? "",
+      Created: formatDate(deal.timeline?.createdAt),
+      Published: formatDate(deal.timeline?.publishedAt),
+      "Last Updated": formatDate(deal.timeline?.updatedAt),
+      Closed: formatDate(deal.timeline?.completedAt),
+    }
+  })
+}
+
+const escapeCsvValue = (value: string | number) => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function buildHistoryCsv(rows: HistoryExportRow[]): string {
+  if (rows.length === 0) return ""
+  const headers = Object.keys(rows[0])
+  return [headers, ...rows.map((row) => headers.map((header) => row[header]))]
+    .map((values) => values.map(escapeCsvValue).join(","))
+    .join("\r\n")
+}
+
+// exceljs is loaded only when a spreadsheet is exported, so it stays out of the history page's bundle
+export async function buildHistoryXlsx(rows: HistoryExportRow[]): Promise<ArrayBuffer> {
+  const { default: ExcelJS } = await import("exceljs")
+  const workbook = new ExcelJS.Workbook()
+  const sheet = workbook.addWorksheet("Deal History")
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : []
+  sheet.columns = headers.map((header) => ({ header, key: header }))
+  sheet.addRows(rows)
+  return workbook.xlsx.writeBuffer()
+}
@@ -0,0 +1,43 @@
+import type { DealQuestion, QuestionVisibility } from "@/types/deal"
+
+export const QUESTION_VISIBILITY_OPTIONS: { value: QuestionVisibility; label: string; description: string }[] = [
+  { value: "private", label: "Private", description: "Only the buyer who asked sees this answer" },
+  {
+    value: "public",
+    label: "All active buyers",
+    description: "Every active buyer on this deal sees the question and answer",
+  },
+]
+
+// A buyer sees their own questions plus answers the seller published to everyone
+export function getBuyerVisibleQuestions(questions: DealQuestion[], buyerId: string): DealQuestion[] {
+  return questions.filter(
+    (question) => question.buyerId === buyerId || (!!question.answer && question.visibility === "public"),
+  )
+}
+
+// The Q&A sent to a buyer: what they may see, without naming the other buyers whose questions were published
+export function withBuyerQuestions(questions: DealQuestion[], buyerId: string): DealQuestion[] {
+  return getBuyerVisibleQuestions(questions, buyerId).map((question) => {
+    if (question.buyerId === buyerId) return question
+    const { buyerName, buyerCompany, ...published } = question
+    return published
+  })
+}
+
+// Answers the buyer hasn't opened yet, given when they last read the deal's Q&A
+export function countUnreadAnswers(questions: DealQuestion[], buyerId: string, readAt?: string): number {
+  const readTime = readAt ? new Date(readAt).getTime() : 0
+  return getBuyerVisibleQuestions(questions, buyerId).filter(
+    (question) => question.answeredAt && new Date(question.answeredAt).getTime() > readTime,
+  ).length
+}
+
+export const countUnansweredQuestions = (questions: DealQuestion[]) =>
+  questions.filter((question) => !question.answer).length
+
+// Unanswered questions first, then newest first
+export const sortQuestions = (questions: DealQuestion[]) =>
+  [...questions].sort(
+    (a, b) => Number(!!a.answer) - Number(!!b.answer) || new Date(b.askedAt).getTime() - new Date(a.askedAt).getTime(),
+  )
@@ -0,0 +1,88 @@
+import { isAutosaveDraft } from "@/lib/deal-form"
+
+// Process stages an active deal moves through, stored on the deal as `stage`.
+// Status still says whether the deal is live at all; the stage says how far along it is.
+export type DealStage = "teaser" | "nda" | "ioi" | "loi" | "diligence" | "closing"
+
+export interface DealStageConfig {
+  key: DealStage
+  label: string
+  description: string
+  badgeClassName: string
+}
+
+// Ordered stage model; reorder or drop entries here to change the process for every deal
+export const DEAL_STAGES: DealStageConfig[] = [
+  {
+    key: "teaser",
+    label: "Teaser Out",
+    description: "The anonymized teaser has gone to matched buyers.",
+    badgeClassName: "bg-gray-100 text-gray-700",
+  },
+  {
+    key: "nda",
+    label: "NDA Signed",
+    description: "At least one buyer has signed an NDA and is reviewing the CIM.",
+    badgeClassName: "bg-blue-100 text-blue-700",
+  },
+  {
+    key: "ioi",
+    label: "IOIs Received",
+    description: "Indications of interest are in and being compared.",
+    badgeClassName: "bg-indigo-100 text-indigo-700",
+  },
+  {
+    key: "loi",
+    label: "LOI Signed",
+    description: "A letter of intent has been signed with one buyer.",
+    badgeClassName: "bg-purple-100 text-purple-700",
+  },
+  {
+    key: "diligence",
+    label: "Due Diligence",
+    description: "The buyer is working through confirmatory due diligence.",
+    badgeClassName: "bg-amber-100 text-amber-800",
+  },
+  {
+    key: "closing",
+    label: "Closing",
+    description: "Purchase agreement is being finalized ahead of close.",
+    badgeClassName: "bg-teal-100 text-teal-700",
+  },
+]
+
+export interface DealStageChange {
+  stage: DealStage
+  changedAt: string
+}
+
+interface StagedDeal {
+  status: string
+  tags?: string[]
+  stage?: string
+}
+
+export function getStageConfig(stage: DealStage): DealStageConfig {
+  return DEAL_STAGES.find((config) => config.key === stage) || DEAL_STAGES[0]
+}
+
+// Drafts and closed deals have no stage; live deals without one start at the first stage
+export function getDealStage(deal: StagedDeal): DealStage | null {
+  if (isAutosaveDraft(deal) || deal.status === "completed") return null
+  const config = DEAL_STAGES.find((stage) => stage.key === deal.stage)
+  return config ? config.key : DEAL_STAGES[0].key
+}
+
+// Deals move forward one stage at a time, or back one step to correct a mistake
+export function getStageTransitions(stage: DealStage): { previous: DealStage | null; next: DealStage | null } {
+  const index = DEAL_STAGES.findIndex((config) => config.key === stage)
+  return {
+    previous: index > 0 ? DEAL_STAGES[index - 1].key : null,
+    next: index >= 0 && index < DEAL_STAGES.length - 1 ? DEAL_STAGES[index + 1].key : null,
+  }
+}
+
+export function canTransitionStage(from: DealStage, to: DealStage): boolean {
+  const { previous, next } = getStageTransitions(from)
+  return to === previous || to === next
+}
@@ -0,0 +1,85 @@
+import { emptySellerFormData, getDealCurrencies, type SellerFormData } from "@/lib/deal-form"
+import { getRewardTier, type RewardTier } from "@/lib/reward-tiers"
+
+// Figures that identify one specific business and never carry over to a copy or template
+const CONFIDENTIAL_FIELDS = ["trailingRevenue", "trailingEBITDA", "revenueGrowth", "netIncome", "askingPrice"] as const
+
+// Stored with the confidential fields already zeroed
+export type DealTemplateFields = Omit<SellerFormData, "documents">
+
+export interface DealTemplate {
+  id: string
+  name: string
+  createdAt: string
+  fields: DealTemplateFields
+  rewardTier: RewardTier
+}
+
+// Templates live in the browser, one list per seller account
+const getStorageKey = () => `dealTemplates:${localStorage.getItem("userId") || "anonymous"}`
+
+// Form data with the confidential financials zeroed and no documents attached
+export function stripConfidentialFields(formData: SellerFormData): SellerFormData {
+  const stripped: SellerFormData = { ...formData, documents: [] }
+  CONFIDENTIAL_FIELDS.forEach((field) => {
+    stripped[field] = emptySellerFormData[field]
+  })
+  return stripped
+}
+
+export function getDealTemplates(): DealTemplate[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(getStorageKey()) || "[]")
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+export function getDealTemplate(id: string): DealTemplate | undefined {
+  return getDealTemplates().find((template) => template.id === id)
+}
+
+const writeDealTemplates = (templates: DealTemplate[]) => {
+  localStorage.setItem(getStorageKey(), JSON.stringify(templates))
+}
+
+export function saveDealTemplate(name: string, formData: SellerFormData, rewardTier?: string | null): DealTemplate {
+  // Each template describes a kind of business, so the specific deal's title is left for the next deal to fill in
+  const { documents, ...fields } = stripConfidentialFields(formData)
+  const template: DealTemplate = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    fields: { ...fields, dealTitle: "" },
+    rewardTier: getRewardTier(rewardTier || undefined),
+  }
+  writeDealTemplates([template, ...getDealTemplates()])
+  return template
+}
+
+export function renameDealTemplate(id: string, name: string): DealTemplate[] {
+  const templates = getDealTemplates().map((template) =>
+    template.id === id ? { ...template, name: name.trim() } : template,
+  )
+  writeDealTemplates(templates)
+  return templates
+}
+
+export function deleteDealTemplate(id: string): DealTemplate[] {
+  const templates = getDealTemplates().filter((template) => template.id !== id)
+  writeDealTemplates(templates)
+  return templates
+}
+
+// Seller form state for a new deal started from a template
+export function applyDealTemplate(template: DealTemplate): SellerFormData {
+  // Templates saved before each amount had its own currency carry a single "currency" label instead
+  const { currency, ...fields } = template.fields as DealTemplateFields & { currency?: string }
+  const currencies = fields.currencies || getDealCurrencies({ trailingRevenueCurrency: currency })
+  return { ...emptySellerFormData, ...fields, currencies, documents: [] }
+}
+
+// The template's currencies for its summary line, e.g. "USD" or "EUR / USD"
+export const getTemplateCurrencyLabel = (template: DealTemplate) =>
+  Array.from(new Set(Object.values(applyDealTemplate(template).currencies))).join(" / ")
@@ -819,3 +819,95 @@ export async function getGeoData(): Promise<GeoData> {
     ],
   }
 }
+
+// Flat geography entry used by the searchable selectors
+export interface GeoItem {
+  id: string
+  name: string
+  path: string
+}
+
+// Flatten geography data for searchable dropdowns
+export function flattenGeoData(
+  items: Continent[] | Region[] | SubRegion[],
+  parentPath = "",
+  result: GeoItem[] = [],
+): GeoItem[] {
+  items.forEach((item) => {
+    const path = parentPath ? `${parentPath} > ${item.name}` : item.name
+    result.push({ id: item.id, name: item.name, path })
+
+    if ("regions" in item && Array.isArray(item.regions)) {
+      flattenGeoData(item.regions, path, result)
+    }
+    if ("subRegions" in item && Array.isArray(item.subRegions)) {
+      flattenGeoData(item.subRegions, path, result)
+    }
+  })
+  return result
+}
+
+type GeoNode = Continent | Region | SubRegion
+
+// Child nodes one level down the continent > region > sub-region hierarchy
+export function getGeoChildren(node: GeoNode): GeoNode[] {
+  if ("regions" in node && Array.isArray(node.regions)) return node.regions
+  if ("subRegions" in node && Array.isArray(node.subRegions)) return node.subRegions
+  return []
+}
+
+// IDs of the lowest-level nodes covered by a node (the node itself when it has no children)
+export function getGeoLeafIds(node: GeoNode): string[] {
+  const children = getGeoChildren(node)
+  if (children.length === 0) return [node.id]
+  return children.flatMap((child) => getGeoLeafIds(child))
+}
+
+function findGeoNode(nodes: GeoNode[], id: string): GeoNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node
+    const found = findGeoNode(getGeoChildren(node), id)
+    if (found) return found
+  }
+  return undefined
+}
+
+// Expand selected IDs at any level into the set of leaf IDs they cover
+export function expandGeoSelection(continents: Continent[], ids: string[]): Set<string> {
+  const leaves = new Set<string>()
+  ids.forEach((id) => {
+    const node = findGeoNode(continents, id)
+    if (node) getGeoLeafIds(node).forEach((leafId) => leaves.add(leafId))
+  })
+  return leaves
+}
+
+// Collapse covered leaves back to the fewest IDs, preferring a parent when all of its children are covered
+export function collapseGeoSelection(continents: Continent[], leaves: Set<string>): string[] {
+  const result: string[] = []
+  const walk = (nodes: GeoNode[]) => {
+    nodes.forEach((node) => {
+      const nodeLeaves = getGeoLeafIds(node)
+      if (nodeLeaves.every((leafId) => leaves.has(leafId))) {
+        result.push(node.id)
+      } else if (nodeLeaves.some((leafId) => leaves.has(leafId))) {
+        walk(getGeoChildren(node))
+      }
+    })
+  }
+  walk(continents)
+  return result
+}
+
+// Select or deselect a node and everything under it, returning the collapsed selection
+export function toggleGeoSelection(continents: Continent[], ids: string[], id: string): string[] {
+  const node = findGeoNode(continents, id)
+  if (!node) return ids
+
+  const leaves = expandGeoSelection(continents, ids)
+  const nodeLeaves = getGeoLeafIds(node)
+  const isSelected = nodeLeaves.every((leafId) => leaves.has(leafId))
+  nodeLeaves.forEach((leafId) => (isSelected ? leaves.delete(leafId) : leaves.add(leafId)))
+
+  return collapseGeoSelection(continents, leaves)
+}
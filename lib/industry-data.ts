@@ -661,3 +661,33 @@ export async function getIndustryData(): Promise<IndustryData> {
     ],
   }
 }
+
+// Flat industry entry used by the searchable selectors
+export interface IndustryItem {
+  id: string
+  name: string
+  path: string
+}
+
+// Flatten industry data for searchable dropdowns
+export function flattenIndustryData(
+  items: Sector[] | IndustryGroup[] | Industry[] | SubIndustry[],
+  parentPath = "",
+  result: IndustryItem[] = [],
+): IndustryItem[] {
+  items.forEach((item) => {
+    const path = parentPath ? `${parentPath} > ${item.name}` : item.name
+    result.push({ id: item.id, name: item.name, path })
+
+    if ("industryGroups" in item && item.industryGroups) {
+      flattenIndustryData(item.industryGroups, path, result)
+    }
+    if ("industries" in item && item.industries) {
+      flattenIndustryData(item.industries, path, result)
+    }
+    if ("subIndustries" in item && item.subIndustries) {
+      flattenIndustryData(item.subIndustries, path, result)
+    }
+  })
+  return result
+}
@@ -0,0 +1,98 @@
+import { getBuyerDealStatus } from "@/lib/deal-documents"
+import { publishDealEvent } from "@/lib/deal-event-bus"
+import { getDueWave } from "@/lib/invitation-waves"
+import { REWARD_TIERS, getRewardTier } from "@/lib/reward-tiers"
+import type { InvitationWave } from "@/types/deal"
+
+export type WaveDispatchResult =
+  { sentWaves: number[]; invitationWaves: InvitationWave[] } | { error: string; status: number }
+
+// Dispatches in progress by deal ID. A dispatch for a deal waits for the one before it and then reads the deal
+// afresh, so two callers never both send the same wave. Kept on globalThis like the event bus, and likewise per
+// server process.
+const globalForDispatch = globalThis as typeof globalThis & { waveDispatches?: Map<string, Promise<unknown>> }
+const dispatches = (globalForDispatch.waveDispatches ??= new Map<string, Promise<unknown>>())
+
+// Send every invitation wave of a deal whose trigger has been met, then record the sent waves on the deal. Used by
+// the wave planner's route and the scheduled dispatch route.
+export function sendDueWaves(
+  apiUrl: string,
+  headers: Record<string, string>,
+  dealId: string,
+): Promise<WaveDispatchResult> {
+  const previous = dispatches.get(dealId) || Promise.resolve()
+  const dispatch = previous.catch(() => {}).then(() => dispatchDueWaves(apiUrl, headers, dealId))
+  dispatches.set(dealId, dispatch)
+  const release = () => {
+    if (dispatches.get(dealId) === dispatch) dispatches.delete(dealId)
+  }
+  dispatch.then(release, release)
+  return dispatch
+}
+
+async function dispatchDueWaves(
+  apiUrl: string,
+  headers: Record<string, string>,
+  dealId: string,
+): Promise<WaveDispatchResult> {
+  const dealResponse = await fetch(`${apiUrl}/deals/${dealId}`, { headers })
+  if (!dealResponse.ok) {
+    return { error: "Deal not found", status: dealResponse.status === 401 ? 401 : 404 }
+  }
+  const deal = await dealResponse.json()
+
+  const waves: InvitationWave[] = deal.invitationWaves || []
+  const invitedBuyerIds = new Set<string>([...(deal.targetedBuyers || []), ...Object.keys(deal.invitationStatus || {})])
+  const activeBuyerCount = Object.keys(deal.invitationStatus || {}).filter(
+    (buyerId) => getBuyerDealStatus(deal.invitationStatus, buyerId) === "active",
+  ).length
+
+  // Tiers without scheduled outreach only send the waves the seller released by hand
+  const { scheduledOutreach } = REWARD_TIERS[getRewardTier(deal.visibility)]
+
+  const sentWaves: number[] = []
+  let dueWave = getDueWave(waves, activeBuyerCount)
+  while (dueWave && (scheduledOutreach || dueWave.trigger === "immediate")) {
+    // Buyers the seller already invited by hand don't get a second invitation
+    const buyerIds = dueWave.buyerIds.filter((buyerId) => !invitedBuyerIds.has(buyerId))
+
+    if (buyerIds.length > 0) {
+      const targetResponse = await fetch(`${apiUrl}/deals/${dealId}/target-buyers`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ buyerIds }),
+      })
+      if (!targetResponse.ok) {
+        const errorData = await targetResponse.json().catch(() => ({}))
+        return { error: errorData.message || `Failed to send wave ${dueWave.number}`, status: targetResponse.status }
+      }
+      buyerIds.forEach((buyerId) => invitedBuyerIds.add(buyerId))
+
+      // New invitations show up on the buyers' deal pages and the seller's views straight away
+      const sellerId = typeof deal.seller === "object" ? deal.seller?._id : deal.seller
+      const at = new Date().toISOString()
+      buyerIds.forEach((buyerId) =>
+        publishDealEvent({ type: "invitation", dealId, buyerId, at }, [buyerId, sellerId].filter(Boolean)),
+      )
+    }
+
+    dueWave.status = "sent"
+    dueWave.sentAt = new Date().toISOString()
+    sentWaves.push(dueWave.number)
+    dueWave = getDueWave(waves, activeBuyerCount)
+  }
+
+  if (sentWaves.length > 0) {
+    const patchResponse = await fetch(`${apiUrl}/deals/${dealId}`, {
+      method: "PATCH",
+      headers,
+      body: JSON.stringify({ invitationWaves: waves }),
+    })
+    if (!patchResponse.ok) {
+      const errorData = await patchResponse.json().catch(() => ({}))
+      return { error: errorData.message || "Failed to record sent waves", status: patchResponse.status }
+    }
+  }
+
+  return { sentWaves, invitationWaves: waves }
+}
@@ -0,0 +1,79 @@
+import type { InvitationWave, InvitationWaveTrigger, MatchedBuyer } from "@/types/deal"
+
+export const WAVE_TRIGGERS: { value: InvitationWaveTrigger; label: string }[] = [
+  { value: "immediate", label: "Send right away" },
+  { value: "afterDays", label: "After a number of days" },
+  { value: "activeBelow", label: "After a number of days, or sooner if too few buyers are active" },
+]
+
+export interface WavePlanOptions {
+  firstWaveSize: number
+  laterWaveSize: number
+  afterDays: number
+}
+
+export const DEFAULT_WAVE_PLAN: WavePlanOptions = { firstWaveSize: 10, laterWaveSize: 10, afterDays: 7 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Split the not-yet-invited buyers into waves, best matches first. Waves already sent are kept and the new
+// waves follow on from them.
+export function buildWavePlan(
+  buyers: MatchedBuyer[],
+  invitedBuyerIds: string[],
+  { firstWaveSize, laterWaveSize, afterDays }: WavePlanOptions,
+  sentWaves: InvitationWave[] = [],
+): InvitationWave[] {
+  const remaining = buyers
+    .filter((buyer) => buyer.buyerId && !invitedBuyerIds.includes(buyer.buyerId))
+    .sort((a, b) => (b.matchPercentage || 0) - (a.matchPercentage || 0))
+    .map((buyer) => buyer.buyerId)
+
+  const waves = [...sentWaves]
+  let index = 0
+  while (index < remaining.length) {
+    const isFirst = waves.length === 0
+    const size = Math.max(1, isFirst ? firstWaveSize : laterWaveSize)
+    waves.push({
+      number: waves.length + 1,
+      buyerIds: remaining.slice(index, index + size),
+      trigger: isFirst ? "immediate" : "afterDays",
+      afterDays: isFirst ? undefined : afterDays,
+      status: "scheduled",
+    })
+    index += size
+  }
+  return waves
+}
+
+// Waves go out in order, so only the first scheduled wave can be due, and only once the one before it was sent
+export function getDueWave(waves: InvitationWave[], activeBuyerCount: number, now = new Date()) {
+  const ordered = [...waves].sort((a, b) => a.number - b.number)
+  const nextIndex = ordered.findIndex((wave) => wave.status === "scheduled")
+  if (nextIndex === -1) return null
+
+  const wave = ordered[nextIndex]
+  if (wave.trigger === "immediate") return wave
+
+  const previous = ordered[nextIndex - 1]
+  if (!previous?.sentAt) return null
+  // An "activeBelow" wave goes out once its days have passed, or earlier as soon as too few buyers are active
+  if (wave.trigger === "activeBelow" && activeBuyerCount < (wave.activeBelow || 0)) return wave
+  if (now.getTime() - new Date(previous.sentAt).getTime() < (wave.afterDays || 0) * DAY_MS) return null
+  return wave
+}
+
+export const hasScheduledWaves = (waves: InvitationWave[] | undefined) =>
+  !!waves?.some((wave) => wave.status === "scheduled")
+
+export const getBuyerWaveNumber = (waves: InvitationWave[] | undefined, buyerId: string) =>
+  waves?.find((wave) => wave.buyerIds.includes(buyerId))?.number ?? null
+
+// Short description of when a wave goes out, for the planner and the deal page
+export function describeWaveTrigger(wave: InvitationWave): string {
+  if (wave.trigger === "immediate") return "Right away"
+  const days = `${wave.afterDays || 0} day${wave.afterDays === 1 ? "" : "s"} after wave ${wave.number - 1}`
+  return wave.trigger === "activeBelow"
+    ? `${days}, or sooner if fewer than ${wave.activeBelow || 0} buyers are active`
+    : days
+}
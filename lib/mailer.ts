@@ -0,0 +1,103 @@
+import net from "node:net"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+// Logs instead of sending; used when no MAILER_URL is configured
+export const consoleMailer: Mailer = {
+  async send(message) {
+    console.log(`[mailer] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+  },
+}
+
+const encodeHeader = (value: string) => `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`
+
+// Base64 lines never start with ".", so the body needs no dot-stuffing
+const encodeBody = (value: string) => Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n")
+
+function buildMime(from: string, message: MailMessage) {
+  const boundary = `cim-${Date.now().toString(36)}`
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join("\r\n")
+}
+
+// Plain SMTP without TLS or auth, which is what local sinks like MailHog and Mailpit speak. Relays that need
+// either should get their own Mailer.
+export function createSmtpMailer(host: string, port: number, from: string): Mailer {
+  return {
+    send: (message) =>
+      new Promise((resolve, reject) => {
+        const commands = [
+          "EHLO localhost",
+          `MAIL FROM:<${from}>`,
+          `RCPT TO:<${message.to}>`,
+          "DATA",
+          `${buildMime(from, message)}\r\n.`,
+          "QUIT",
+        ]
+        let step = 0
+        let buffer = ""
+
+        const socket = net.createConnection({ host, port })
+        socket.setEncoding("utf8")
+        socket.setTimeout(10000, () => socket.destroy(new Error("SMTP server timed out")))
+        socket.on("error", reject)
+        socket.on("data", (chunk: string) => {
+          buffer += chunk
+          // Multi-line replies continue with "250-"; the reply is complete at a line with a space after the code
+          const lines = buffer.split("\r\n")
+          const lastLine = lines[lines.length - 2]
+          if (!buffer.endsWith("\r\n") || !/^\d{3} /.test(lastLine)) return
+          buffer = ""
+
+          if (Number(lastLine.slice(0, 3)) >= 400) {
+            socket.destroy()
+            reject(new Error(`SMTP server rejected the message: ${lastLine}`))
+          } else if (step < commands.length) {
+            socket.write(`${commands[step++]}\r\n`)
+          } else {
+            socket.end()
+            resolve()
+          }
+        })
+      }),
+  }
+}
+
+// MAILER_URL picks the transport, e.g. smtp://localhost:1025 for a local sink; unset logs to the console
+export function getMailer(): Mailer {
+  const mailerUrl = process.env.MAILER_URL
+  if (!mailerUrl) return consoleMailer
+
+  const url = new URL(mailerUrl)
+  if (url.protocol !== "smtp:") {
+    throw new Error(`Unsupported MAILER_URL protocol: ${url.protocol}`)
+  }
+  return createSmtpMailer(url.hostname, Number(url.port) || 25, process.env.MAIL_FROM || "notifications@cimamplify.com")
+}
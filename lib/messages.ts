@@ -0,0 +1,55 @@
+import type { Conversation, Message, MessageSenderRole } from "@/types/message"
+
+export interface DealConversations {
+  dealId: string
+  dealTitle: string
+  conversations: Conversation[]
+}
+
+// Whether the seller may see who the buyer is
+export const isBuyerHidden = (conversation: Conversation) =>
+  !!conversation.buyerAnonymous && !conversation.buyerRevealed
+
+// A conversation as sent to its seller: an anonymous buyer's name and company are left out until they reveal
+// themselves
+export function withSellerConversation(conversation: Conversation): Conversation {
+  if (!isBuyerHidden(conversation)) return conversation
+  const { buyerName, buyerCompany, ...anonymous } = conversation
+  return anonymous
+}
+
+// How the other side of a conversation is shown to the given role
+export function getCounterpartName(conversation: Conversation, role: MessageSenderRole): string {
+  if (role === "buyer") return conversation.sellerName || "Seller"
+  if (isBuyerHidden(conversation)) return "Anonymous buyer"
+  return conversation.buyerCompany || conversation.buyerName || "Buyer"
+}
+
+const getActivityTime = (conversation: Conversation) =>
+  conversation.lastMessageAt ? new Date(conversation.lastMessageAt).getTime() : 0
+
+// Conversations grouped by deal, with the most recently active deals and conversations first
+export function groupConversationsByDeal(conversations: Conversation[]): DealConversations[] {
+  const groups = new Map<string, DealConversations>()
+  ;[...conversations]
+    .sort((a, b) => getActivityTime(b) - getActivityTime(a))
+    .forEach((conversation) => {
+      const group = groups.get(conversation.dealId) || {
+        dealId: conversation.dealId,
+        dealTitle: conversation.dealTitle,
+        conversations: [],
+      }
+      group.conversations.push(conversation)
+      groups.set(conversation.dealId, group)
+    })
+  return [...groups.values()]
+}
+
+export const getTotalUnread = (conversations: Conversation[]) =>
+  conversations.reduce((total, conversation) => total + (conversation.unreadCount || 0), 0)
+
+// The caller's latest message the other side has read, where the read receipt is shown
+export function getLastReadMessageId(messages: Message[], role: MessageSenderRole): string | null {
+  const read = messages.filter((message) => message.senderRole === role && message.readAt)
+  return read.length ? read[read.length - 1]._id : null
+}
@@ -0,0 +1,140 @@
+import {
+  DIGEST_EVENTS,
+  NOTIFICATION_LABELS,
+  getNotificationHref,
+  isChannelEnabled,
+  type NotificationPreferencesRole,
+} from "@/lib/notifications"
+import type { AppNotification, DigestFrequency, NotificationPreferences } from "@/types/notification"
+
+export interface RenderedDigest {
+  subject: string
+  text: string
+  html: string
+  count: number
+}
+
+interface DigestOptions {
+  role: NotificationPreferencesRole
+  recipientName?: string
+  notifications: AppNotification[]
+  preferences: NotificationPreferences
+  // Base for the links back into the app, e.g. https://app.cimamplify.com
+  appUrl: string
+  now?: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Start of the period a digest covers. Instant alerts have no digest, so their preview shows the last day.
+export function getDigestWindowStart(frequency: DigestFrequency, now = new Date()) {
+  return new Date(now.getTime() - (frequency === "weekly" ? 7 : 1) * DAY_MS)
+}
+
+// Digest events in the period that the recipient wants by email, newest first
+export function getDigestNotifications(
+  notifications: AppNotification[],
+  role: NotificationPreferencesRole,
+  preferences: NotificationPreferences,
+  now = new Date(),
+) {
+  const since = getDigestWindowStart(preferences.digestFrequency, now).getTime()
+  return notifications
+    .filter(
+      (notification) =>
+        DIGEST_EVENTS[role].includes(notification.type) &&
+        isChannelEnabled(preferences, notification.type, "email") &&
+        new Date(notification.createdAt).getTime() >= since,
+    )
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+// The digest email, as plain text and HTML. Rendered the same way for the in-app preview and the sent email.
+export function renderDigest({
+  role,
+  recipientName,
+  notifications,
+  preferences,
+  appUrl,
+  now = new Date(),
+}: DigestOptions): RenderedDigest {
+  const items = getDigestNotifications(notifications, role, preferences, now)
+  const period = preferences.digestFrequency === "weekly" ? "this week" : "today"
+  const topic = role === "buyer" ? "new deal" : "buyer response"
+  const subject =
+    items.length === 0
+      ? `CIM Amplify: no new ${topic}s ${period}`
+      : `CIM Amplify: ${items.length} ${topic}${items.length === 1 ? "" : "s"} ${period}`
+  const greeting = `Hi ${recipientName || "there"},`
+  const intro =
+    items.length === 0 ? `There were no ${topic}s ${period}.` : `Here is what happened on your deals ${period}.`
+
+  const withLinks = items.map((notification) => {
+    const href = getNotificationHref(notification)
+    return { notification, url: href ? `${appUrl}${href}` : null }
+  })
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    "",
+    ...withLinks.map(({ notification, url }) =>
+      [
+        `- ${NOTIFICATION_LABELS[notification.type]}: ${notification.message}`,
+        notification.dealTitle ? `  ${notification.dealTitle}` : null,
+        url ? `  ${url}` : null,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    ),
+    "",
+    `Change how often you get these emails: ${appUrl}/${role}/notifications`,
+  ].join("\n")
+
+  const rows = withLinks
+    .map(({ notification, url }) => {
+      const label = escapeHtml(NOTIFICATION_LABELS[notification.type])
+      const dealTitle = notification.dealTitle
+        ? `<div style="font-size:12px;color:#6b7280;">${escapeHtml(notification.dealTitle)}</div>`
+        : ""
+      const link = url ? `<a href="${escapeHtml(url)}" style="font-size:12px;color:#3aafa9;">View deal</a>` : ""
+      return `
+        <tr>
+          <td style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+            <div style="font-size:12px;color:#0f766e;font-weight:600;">${label}</div>
+            <div style="font-size:14px;color:#1f2937;margin-top:4px;">${escapeHtml(notification.message)}</div>
+            ${dealTitle}
+            ${link}
+          </td>
+        </tr>`
+    })
+    .join("")
+
+  const settingsUrl = escapeHtml(`${appUrl}/${role}/notifications`)
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;">
+      <tr>
+        <td style="background:#3aafa9;padding:20px 24px;color:#ffffff;font-size:20px;font-weight:bold;">CIM Amplify</td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <p style="font-size:14px;color:#1f2937;">${escapeHtml(greeting)}</p>
+          <p style="font-size:14px;color:#1f2937;">${escapeHtml(intro)}</p>
+          <table width="100%" cellpadding="0" cellspacing="0">${rows}</table>
+          <p style="font-size:12px;color:#6b7280;margin-top:24px;">
+            <a href="${settingsUrl}" style="color:#3aafa9;">Change how often you get these emails</a>
+          </p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+
+  return { subject, text, html, count: items.length }
+}
@@ -0,0 +1,77 @@
+import type {
+  AppNotification,
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+} from "@/types/notification"
+
+export type NotificationPreferencesRole = "buyer" | "seller"
+
+export const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  deal_invited: "New deal",
+  deal_updated: "Deal updated",
+  buyer_accepted: "Buyer accepted",
+  buyer_passed: "Buyer passed",
+  exclusivity_ending: "Exclusivity ending",
+  deal_awaiting_review: "Awaiting review",
+}
+
+// Where clicking a notification takes the user: the deal it is about, opening the relevant dialog where there is one
+export function getNotificationHref(notification: AppNotification): string | null {
+  const { type, dealId } = notification
+  if (!dealId) return null
+
+  switch (type) {
+    case "deal_invited":
+      return `/buyer/deals?tab=pending&deal=${dealId}`
+    case "deal_updated":
+      return `/buyer/deals?tab=active&deal=${dealId}`
+    case "buyer_accepted":
+    case "buyer_passed":
+    case "exclusivity_ending":
+      return `/seller/deal?id=${dealId}`
+    // Admins have no per-deal page yet, so review notifications open the dashboard's deals tab
+    case "deal_awaiting_review":
+      return "/admin/dashboard?tab=deals"
+  }
+}
+
+export const countUnreadNotifications = (notifications: AppNotification[]) =>
+  notifications.filter((notification) => !notification.read).length
+
+// Events each role can configure, in the order the preferences page lists them
+export const NOTIFICATION_PREFERENCE_EVENTS: Record<NotificationPreferencesRole, NotificationType[]> = {
+  buyer: ["deal_invited", "deal_updated"],
+  seller: ["buyer_accepted", "buyer_passed", "exclusivity_ending"],
+}
+
+// Events whose emails follow the digest frequency; the rest are always emailed as they happen
+export const DIGEST_EVENTS: Record<NotificationPreferencesRole, NotificationType[]> = {
+  buyer: ["deal_invited"],
+  seller: ["buyer_accepted", "buyer_passed"],
+}
+
+export const DIGEST_FREQUENCY_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: "instant", label: "Instantly" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest" },
+]
+
+// Saved preferences filled in with defaults, so every configurable event has both channels set
+export function getNotificationPreferences(
+  role: NotificationPreferencesRole,
+  saved?: Partial<NotificationPreferences> | null,
+): NotificationPreferences {
+  const channels: NotificationPreferences["channels"] = {}
+  NOTIFICATION_PREFERENCE_EVENTS[role].forEach((type) => {
+    channels[type] = { inApp: true, email: true, ...saved?.channels?.[type] }
+  })
+  return { channels, digestFrequency: saved?.digestFrequency || "instant" }
+}
+
+export const isChannelEnabled = (
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  channel: NotificationChannel,
+) => preferences.channels[type]?.[channel] ?? true
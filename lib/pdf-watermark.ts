@@ -0,0 +1,52 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from "pdf-lib"
+
+export interface WatermarkIdentity {
+  companyName: string
+  email: string
+  downloadedAt: Date
+}
+
+// Stamp every page of a PDF with who downloaded it and when
+export async function watermarkPdf(pdfBytes: ArrayBuffer, identity: WatermarkIdentity): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true })
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  // Standard fonts only cover WinAnsi, so drop anything they can't draw rather than failing the download
+  const sanitize = (text: string) => text.replace(/[^\x20-\x7E]/g, "?")
+  const company = sanitize(identity.companyName || "Unknown company")
+  const footer = sanitize(
+    `Confidential - downloaded by ${identity.companyName} (${identity.email}) on ${identity.downloadedAt.toISOString()}`,
+  )
+
+  pdfDoc.getPages().forEach((page) => {
+    const { width, height } = page.getSize()
+
+    // Large diagonal company name across the middle of the page
+    const diagonalSize = Math.min(48, (Math.hypot(width, height) * 0.7) / Math.max(company.length, 1) / 0.6)
+    const diagonalWidth = boldFont.widthOfTextAtSize(company, diagonalSize)
+    const angle = Math.atan2(height, width)
+    page.drawText(company, {
+      x: width / 2 - (Math.cos(angle) * diagonalWidth) / 2,
+      y: height / 2 - (Math.sin(angle) * diagonalWidth) / 2,
+      size: diagonalSize,
+      font: boldFont,
+      color: rgb(0.6, 0.6, 0.6),
+      opacity: 0.2,
+      rotate: degrees((angle * 180) / Math.PI),
+    })
+
+    // Full identity line along the bottom edge
+    const footerSize = Math.min(8, (width - 40) / Math.max(font.widthOfTextAtSize(footer, 1), 1))
+    page.drawText(footer, {
+      x: 20,
+      y: 12,
+      size: footerSize,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+      opacity: 0.8,
+    })
+  })
+
+  return pdfDoc.save()
+}
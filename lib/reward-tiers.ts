@@ -0,0 +1,102 @@
+import { isAutosaveDraft } from "@/lib/deal-form"
+import { ACCEPTED_RESPONSES } from "@/lib/deal-engagement"
+
+// Seller reward tiers, stored on the deal as `visibility`
+export type RewardTier = "seed" | "bloom" | "fruit"
+
+export interface RewardTierPolicy {
+  label: string
+  // Amazon gift card for posting the deal
+  baseGiftCard: number
+  // Extra gift card value per $1M of transaction value when the buyer came through CIM Amplify
+  bonusPerMillion: number
+  // How long the deal stays exclusive to CIM Amplify
+  exclusivity: "none" | "fixed" | "untilBuyerAccepts"
+  exclusivityDays?: number
+  // Whether invitation waves may go out on a schedule, or only when the seller sends them by hand
+  scheduledOutreach: boolean
+  outreachRule: string
+}
+
+export const REWARD_TIERS: Record<RewardTier, RewardTierPolicy> = {
+  seed: {
+    label: "Seed",
+    baseGiftCard: 10,
+    bonusPerMillion: 0,
+    exclusivity: "none",
+    scheduledOutreach: true,
+    outreachRule: "Can be marketed on other deal sites and sent to matched buyers at any time.",
+  },
+  bloom: {
+    label: "Bloom",
+    baseGiftCard: 25,
+    bonusPerMillion: 5,
+    exclusivity: "fixed",
+    exclusivityDays: 14,
+    scheduledOutreach: true,
+    outreachRule: "Exclusive to CIM Amplify for two weeks after posting; no other deal sites during that time.",
+  },
+  fruit: {
+    label: "Fruit",
+    baseGiftCard: 50,
+    bonusPerMillion: 10,
+    exclusivity: "untilBuyerAccepts",
+    scheduledOutreach: false,
+    outreachRule: "Exclusive to CIM Amplify until a buyer you selected accepts; only buyers you pick are invited.",
+  },
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getRewardTier(visibility?: string): RewardTier {
+  return visibility === "bloom" || visibility === "fruit" ? visibility : "seed"
+}
+
+export interface ExclusivityState {
+  tier: RewardTier
+  active: boolean
+  // Only set for fixed-length exclusivity
+  endsAt: Date | null
+}
+
+interface ExclusivityDeal {
+  visibility?: string
+  status: string
+  tags?: string[]
+  timeline: { createdAt: string; publishedAt?: string }
+  invitationStatus?: Record<string, { response?: string }>
+}
+
+// Whether the deal is still inside its tier's exclusivity window
+export function getExclusivity(deal: ExclusivityDeal, now = new Date()): ExclusivityState {
+  const tier = getRewardTier(deal.visibility)
+  const policy = REWARD_TIERS[tier]
+
+  if (policy.exclusivity === "none" || isAutosaveDraft(deal) || deal.status === "completed") {
+    return { tier, active: false, endsAt: null }
+  }
+
+  if (policy.exclusivity === "fixed") {
+    const startedAt = new Date(deal.timeline.publishedAt || deal.timeline.createdAt)
+    const endsAt = new Date(startedAt.getTime() + (policy.exclusivityDays || 0) * DAY_MS)
+    return { tier, active: now < endsAt, endsAt }
+  }
+
+  const buyerAccepted = Object.values(deal.invitationStatus || {}).some(
+    (invitation) => !!invitation.response && ACCEPTED_RESPONSES.includes(invitation.response),
+  )
+  return { tier, active: !buyerAccepted, endsAt: null }
+}
+
+// "9d 4h left" style countdown
+export function formatTimeLeft(endsAt: Date, now = new Date()): string {
+  const hours = Math.max(0, Math.floor((endsAt.getTime() - now.getTime()) / 36e5))
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h left`
+  return hours > 0 ? `${hours}h left` : "less than an hour left"
+}
+
+export function describeExclusivity(state: ExclusivityState, now = new Date()): string {
+  if (!state.active) return ""
+  if (state.endsAt) return `Exclusive to CIM Amplify · ${formatTimeLeft(state.endsAt, now)}`
+  return "Exclusive to CIM Amplify until a selected buyer accepts"
+}
@@ -0,0 +1,103 @@
+import { isAutosaveDraft } from "@/lib/deal-form"
+import { REWARD_TIERS, getRewardTier, type RewardTier } from "@/lib/reward-tiers"
+
+export type RewardPayoutStatus = "pending" | "paid"
+
+// A deal as the ledger needs it, from /deals/my-deals or /deals/completed
+export interface LedgerDeal {
+  _id: string
+  title: string
+  status: string
+  tags?: string[]
+  visibility?: string
+  financialDetails?: { finalSalePrice?: number }
+  timeline?: { createdAt?: string; completedAt?: string }
+  // Set from the off-market dialog; deals closed through "Complete Deal" always have a CIM Amplify buyer
+  buyerFromCIM?: boolean
+  winningBuyerId?: string
+  rewardPayout?: {
+    baseStatus?: RewardPayoutStatus
+    basePaidAt?: string
+    bonusStatus?: RewardPayoutStatus
+    bonusPaidAt?: string
+  }
+}
+
+export interface LedgerEntry {
+  dealId: string
+  title: string
+  tier: RewardTier
+  postedAt: string | null
+  closedAt: string | null
+  finalSalePrice: number | null
+  buyerFromCIM: boolean
+  baseAmount: number
+  baseStatus: RewardPayoutStatus
+  bonusAmount: number
+  bonusStatus: RewardPayoutStatus | null
+}
+
+export interface LedgerTotals {
+  earned: number
+  paid: number
+  pending: number
+}
+
+// Bonuses are paid per full $1M of transaction value
+export function calculateTransactionBonus(tier: RewardTier, finalSalePrice: number | null | undefined): number {
+  if (!finalSalePrice || finalSalePrice <= 0) return 0
+  return Math.floor(finalSalePrice / 1_000_000) * REWARD_TIERS[tier].bonusPerMillion
+}
+
+export function buildLedgerEntry(deal: LedgerDeal): LedgerEntry {
+  const tier = getRewardTier(deal.visibility)
+  const closed = deal.status === "completed"
+  const finalSalePrice = closed ? deal.financialDetails?.finalSalePrice || null : null
+  const buyerFromCIM = closed && (deal.buyerFromCIM ?? !!deal.winningBuyerId)
+  const bonusAmount = buyerFromCIM ? calculateTransactionBonus(tier, finalSalePrice) : 0
+
+  return {
+    dealId: deal._id,
+    title: deal.title,
+    tier,
+    postedAt: deal.timeline?.createdAt || null,
+    closedAt: closed ? deal.timeline?.completedAt || null : null,
+    finalSalePrice,
+    buyerFromCIM,
+    baseAmount: REWARD_TIERS[tier].baseGiftCard,
+    baseStatus: deal.rewardPayout?.baseStatus || "pending",
+    bonusAmount,
+    bonusStatus: bonusAmount > 0 ? deal.rewardPayout?.bonusStatus || "pending" : null,
+  }
+}
+
+// One entry per posted deal, newest first; drafts earn nothing until they are posted
+export function buildRewardsLedger(deals: LedgerDeal[]): LedgerEntry[] {
+  const unique = new Map<string, LedgerDeal>()
+  deals.forEach((deal) => unique.set(deal._id, { ...unique.get(deal._id), ...deal }))
+
+  return Array.from(unique.values())
+    .filter((deal) => !isAutosaveDraft(deal))
+    .map(buildLedgerEntry)
+    .sort((a, b) => new Date(b.postedAt || 0).getTime() - new Date(a.postedAt || 0).getTime())
+}
+
+export function getLedgerTotals(entries: LedgerEntry[]): LedgerTotals {
+  return entries.reduce(
+    (totals, entry) => {
+      const amounts: [number, RewardPayoutStatus | null][] = [
+        [entry.baseAmount, entry.baseStatus],
+        [entry.bonusAmount, entry.bonusStatus],
+      ]
+      amounts.forEach(([amount, status]) => {
+        if (!status) return
+        totals.earned += amount
+        totals[status] += amount
+      })
+      return totals
+    },
+    { earned: 0, paid: 0, pending: 0 },
+  )
+}
+
+export const formatRewardAmount = (amount: number) => `$${amount.toLocaleString("en-US")}`
@@ -0,0 +1,135 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib"
+import { REWARD_TIERS } from "@/lib/reward-tiers"
+import { formatRewardAmount, type LedgerEntry, type LedgerTotals } from "@/lib/rewards-ledger"
+
+export interface StatementSeller {
+  fullName?: string
+  companyName?: string
+  email?: string
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 40
+const ROW_HEIGHT = 16
+
+const COLUMNS: { label: string; width: number; value: (entry: LedgerEntry) => string }[] = [
+  { label: "Deal", width: 150, value: (entry) => entry.title },
+  { label: "Tier", width: 45, value: (entry) => REWARD_TIERS[entry.tier].label },
+  { label: "Posted", width: 60, value: (entry) => formatDate(entry.postedAt) },
+  { label: "Closed", width: 60, value: (entry) => formatDate(entry.closedAt) },
+  {
+    label: "Sale price",
+    width: 70,
+    value: (entry) => (entry.finalSalePrice ? `$${entry.finalSalePrice.toLocaleString("en-US")}` : "-"),
+  },
+  {
+    label: "Gift card",
+    width: 70,
+    value: (entry) => `${formatRewardAmount(entry.baseAmount)} ${entry.baseStatus}`,
+  },
+  {
+    label: "Bonus",
+    width: 77,
+    value: (entry) => (entry.bonusStatus ? `${formatRewardAmount(entry.bonusAmount)} ${entry.bonusStatus}` : "-"),
+  },
+]
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString("en-US") : "-")
+
+// Standard fonts only cover WinAnsi; also cut text that would overflow its column
+const fitText = (text: string, font: PDFFont, size: number, width: number) => {
+  let fitted = text.replace(/[^\x20-\x7E]/g, "?")
+  while (fitted.length > 1 && font.widthOfTextAtSize(fitted, size) > width - 6) {
+    fitted = fitted.slice(0, -2) + "."
+  }
+  return fitted
+}
+
+// Printable rewards statement listing every ledger entry with paid and pending totals
+export async function buildRewardsStatementPdf(
+  entries: LedgerEntry[],
+  totals: LedgerTotals,
+  seller: StatementSeller,
+  generatedAt = new Date(),
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const teal = rgb(0.23, 0.69, 0.66)
+
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const drawLine = (text: string, size: number, bold = false, color = rgb(0.2, 0.2, 0.2)) => {
+    page.drawText(fitText(text, bold ? boldFont : font, size, PAGE_WIDTH - MARGIN * 2), {
+      x: MARGIN,
+      y,
+      size,
+      font: bold ? boldFont : font,
+      color,
+    })
+    y -= size + 6
+  }
+
+  const drawHeaderRow = () => {
+    let x = MARGIN
+    COLUMNS.forEach((column) => {
+      page.drawText(column.label, { x, y, size: 9, font: boldFont, color: rgb(0.3, 0.3, 0.3) })
+      x += column.width
+    })
+    y -= 6
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    })
+    y -= ROW_HEIGHT - 4
+  }
+
+  drawLine("CIM Amplify Seller Rewards Statement", 18, true, teal)
+  drawLine([seller.fullName, seller.companyName, seller.email].filter(Boolean).join(" - "), 10)
+  drawLine(`Generated ${generatedAt.toLocaleString("en-US")}`, 9, false, rgb(0.5, 0.5, 0.5))
+  y -= 6
+  drawLine(
+    `Total earned ${formatRewardAmount(totals.earned)}   Paid ${formatRewardAmount(totals.paid)}   Pending ${formatRewardAmount(totals.pending)}`,
+    11,
+    true,
+  )
+  y -= 10
+  drawHeaderRow()
+
+  entries.forEach((entry) => {
+    if (y < MARGIN + ROW_HEIGHT) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+      drawHeaderRow()
+    }
+
+    let x = MARGIN
+    COLUMNS.forEach((column) => {
+      page.drawText(fitText(column.value(entry), font, 9, column.width), {
+        x,
+        y,
+        size: 9,
+        font,
+        color: rgb(0.2, 0.2, 0.2),
+      })
+      x += column.width
+    })
+    y -= ROW_HEIGHT
+  })
+
+  if (entries.length === 0) drawLine("No rewards earned yet.", 10)
+
+  y -= 10
+  if (y < MARGIN + 30) {
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+  }
+  drawLine("Gift cards are earned for posting a deal. Bonuses are paid per full $1M of transaction value", 8)
+  drawLine("on Bloom and Fruit deals sold to a buyer introduced through CIM Amplify.", 8)
+
+  return pdfDoc.save()
+}
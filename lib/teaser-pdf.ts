@@ -0,0 +1,166 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib"
+import { findAnonymityIssues, redactAnonymityIssues, type SellerIdentity } from "@/lib/deal-anonymity"
+import { convertAmount, formatCurrency } from "@/lib/currency"
+import { getDealCurrencies, getDealGeographies } from "@/lib/deal-form"
+import { getBusinessModelString, getManagementPreferenceString } from "@/lib/buyer-deals"
+
+// The deal fields a teaser is built from; the title is left out since it usually names the company
+export interface TeaserDeal {
+  _id: string
+  companyDescription?: string
+  industrySector?: string
+  geographies?: string[]
+  geographySelection?: string
+  yearsInBusiness?: number
+  financialDetails?: {
+    trailingRevenueCurrency?: string
+    trailingRevenueAmount?: number
+    trailingEBITDACurrency?: string
+    trailingEBITDAAmount?: number
+    avgRevenueGrowth?: number
+  }
+  businessModel?: Record<string, boolean>
+  managementPreferences?: Record<string, boolean>
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+const TEAL = rgb(0.23, 0.69, 0.66)
+const TEXT = rgb(0.2, 0.2, 0.2)
+const MUTED = rgb(0.45, 0.45, 0.45)
+
+// Standard fonts only cover WinAnsi
+const sanitize = (text: string) => text.replace(/[^\x20-\x7E]/g, "?")
+
+const wrapText = (text: string, font: PDFFont, size: number, width: number) => {
+  const lines: string[] = []
+  sanitize(text)
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      const current = lines[lines.length - 1]
+      if (current !== undefined && font.widthOfTextAtSize(`${current} ${word}`, size) <= width) {
+        lines[lines.length - 1] = `${current} ${word}`
+      } else {
+        lines.push(word)
+      }
+    })
+  return lines
+}
+
+// Codes rather than symbols, which the standard fonts can't all draw
+const formatAmount = (amount?: number, currency?: string) =>
+  amount ? formatCurrency(amount, currency, { locale: "en-US", display: "code" }) : "Available after NDA"
+
+// Branded one-page teaser with the company name and identifying details redacted from the description
+export async function buildTeaserPdf(deal: TeaserDeal, seller: SellerIdentity): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  const contentWidth = PAGE_WIDTH - MARGIN * 2
+
+  const financials = deal.financialDetails || {}
+  const geographies = getDealGeographies(deal)
+  const description = deal.companyDescription || ""
+  const redactedDescription = redactAnonymityIssues(
+    description,
+    findAnonymityIssues({ "Company Description": description }, seller),
+  )
+  const currencies = getDealCurrencies(financials)
+  const ebitdaMargin =
+    financials.trailingRevenueAmount && financials.trailingEBITDAAmount
+      ? `${Math.round(
+          (convertAmount(financials.trailingEBITDAAmount, currencies.trailingEBITDA, currencies.trailingRevenue) /
+            financials.trailingRevenueAmount) *
+            100,
+        )}%`
+      : "-"
+
+  // Brand band
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 90, width: PAGE_WIDTH, height: 90, color: TEAL })
+  page.drawText("CIM Amplify", { x: MARGIN, y: PAGE_HEIGHT - 48, size: 22, font: boldFont, color: rgb(1, 1, 1) })
+  page.drawText("Confidential Investment Opportunity", {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 70,
+    size: 11,
+    font,
+    color: rgb(1, 1, 1),
+  })
+
+  let y = PAGE_HEIGHT - 130
+  const headline = `${deal.industrySector || "Established"} business${geographies.length ? ` in ${geographies.join(", ")}` : ""}`
+  wrapText(headline, boldFont, 18, contentWidth).forEach((line) => {
+    page.drawText(line, { x: MARGIN, y, size: 18, font: boldFont, color: TEXT })
+    y -= 24
+  })
+  page.drawText(`Deal reference ${deal._id.slice(-6).toUpperCase()}`, { x: MARGIN, y, size: 9, font, color: MUTED })
+  y -= 30
+
+  const drawHeading = (text: string) => {
+    page.drawText(text, { x: MARGIN, y, size: 12, font: boldFont, color: TEAL })
+    y -= 8
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    })
+    y -= 18
+  }
+
+  drawHeading("Business Overview")
+  wrapText(redactedDescription || "Details available after NDA.", font, 10, contentWidth)
+    .slice(0, 14)
+    .forEach((line) => {
+      page.drawText(line, { x: MARGIN, y, size: 10, font, color: TEXT })
+      y -= 14
+    })
+  y -= 16
+
+  drawHeading("Key Facts")
+  const facts: [string, string][] = [
+    ["Industry", deal.industrySector || "-"],
+    ["Geography", geographies.join(", ") || "-"],
+    ["Years in business", deal.yearsInBusiness ? String(deal.yearsInBusiness) : "-"],
+    ["Trailing 12-month revenue", formatAmount(financials.trailingRevenueAmount, currencies.trailingRevenue)],
+    ["Trailing 12-month EBITDA", formatAmount(financials.trailingEBITDAAmount, currencies.trailingEBITDA)],
+    ["EBITDA margin", ebitdaMargin],
+    ["Average 3-year revenue growth", financials.avgRevenueGrowth ? `${financials.avgRevenueGrowth}%` : "-"],
+    ["Business model", getBusinessModelString(deal.businessModel)],
+    ["Management intentions", getManagementPreferenceString(deal.managementPreferences)],
+  ]
+  facts.forEach(([label, value]) => {
+    page.drawText(label, { x: MARGIN, y, size: 10, font: boldFont, color: MUTED })
+    wrapText(value, font, 10, contentWidth - 190).forEach((line, index) => {
+      page.drawText(line, { x: MARGIN + 190, y: y - index * 13, size: 10, font, color: TEXT })
+      if (index > 0) y -= 13
+    })
+    y -= 20
+  })
+
+  // Footer
+  page.drawLine({
+    start: { x: MARGIN, y: 70 },
+    end: { x: PAGE_WIDTH - MARGIN, y: 70 },
+    thickness: 0.5,
+    color: rgb(0.8, 0.8, 0.8),
+  })
+  page.drawText("Interested buyers respond through CIM Amplify to receive the full CIM under NDA.", {
+    x: MARGIN,
+    y: 52,
+    size: 9,
+    font,
+    color: MUTED,
+  })
+  page.drawText("The identity of the business is withheld until an NDA is in place.", {
+    x: MARGIN,
+    y: 38,
+    size: 9,
+    font,
+    color: MUTED,
+  })
+
+  return pdfDoc.save()
+}
@@ -0,0 +1,185 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib"
+import { DEFAULT_CURRENCY, convertAmount, formatCurrency } from "@/lib/currency"
+import type { HistoryDeal } from "@/lib/deal-history-export"
+import { getDealCurrencies, getDealGeographies } from "@/lib/deal-form"
+
+export interface TrackRecordSeller {
+  fullName?: string
+  companyName?: string
+  email?: string
+}
+
+export interface TrackRecordSummary {
+  dealsClosed: number
+  // Sale prices normalized to US dollars, since deals may close in different currencies
+  totalTransactionValue: number
+  averageSalePrice: number
+  // Average days from posting to close, over deals with both dates
+  averageDaysToClose: number | null
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 40
+const ROW_HEIGHT = 16
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const getDaysToClose = (deal: HistoryDeal) => {
+  if (!deal.timeline?.createdAt || !deal.timeline.completedAt) return null
+  return Math.max(
+    0,
+    Math.round((new Date(deal.timeline.completedAt).getTime() - new Date(deal.timeline.createdAt).getTime()) / DAY_MS),
+  )
+}
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString("en-US") : "-")
+
+// Codes rather than symbols, which the standard fonts can't all draw
+const formatAmount = (amount?: number, currency?: string) =>
+  amount ? formatCurrency(amount, currency, { locale: "en-US", display: "code" }) : "-"
+
+const getSalePriceCurrency = (deal: HistoryDeal) => getDealCurrencies(deal.financialDetails).askingPrice
+
+const COLUMNS: { label: string; width: number; value: (deal: HistoryDeal) => string }[] = [
+  { label: "Deal", width: 170, value: (deal) => deal.title },
+  { label: "Industry", width: 100, value: (deal) => deal.industrySector || "-" },
+  { label: "Geography", width: 85, value: (deal) => getDealGeographies(deal).join(", ") || "-" },
+  { label: "Closed", width: 60, value: (deal) => formatDate(deal.timeline?.completedAt) },
+  { label: "Days", width: 35, value: (deal) => String(getDaysToClose(deal) ?? "-") },
+  {
+    label: "Sale price",
+    width: 82,
+    value: (deal) => formatAmount(deal.financialDetails?.finalSalePrice, getSalePriceCurrency(deal)),
+  },
+]
+
+// Standard fonts only cover WinAnsi; also cut text that would overflow its column
+const fitText = (text: string, font: PDFFont, size: number, width: number) => {
+  let fitted = text.replace(/[^\x20-\x7E]/g, "?")
+  while (fitted.length > 1 && font.widthOfTextAtSize(fitted, size) > width - 6) {
+    fitted = fitted.slice(0, -2) + "."
+  }
+  return fitted
+}
+
+export function getTrackRecordSummary(deals: HistoryDeal[]): TrackRecordSummary {
+  const prices = deals
+    .map((deal) =>
+      convertAmount(deal.financialDetails?.finalSalePrice || 0, getSalePriceCurrency(deal), DEFAULT_CURRENCY),
+    )
+    .filter((price) => price > 0)
+  const totalTransactionValue = prices.reduce((sum, price) => sum + price, 0)
+  const daysToClose = deals.map(getDaysToClose).filter((days): days is number => days !== null)
+
+  return {
+    dealsClosed: deals.length,
+    totalTransactionValue,
+    averageSalePrice: prices.length ? totalTransactionValue / prices.length : 0,
+    averageDaysToClose: daysToClose.length
+      ? Math.round(daysToClose.reduce((sum, days) => sum + days, 0) / daysToClose.length)
+      : null,
+  }
+}
+
+// Formatted "track record" of closed deals that sellers can attach to pitches
+export async function buildTrackRecordPdf(
+  deals: HistoryDeal[],
+  seller: TrackRecordSeller,
+  generatedAt = new Date(),
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const teal = rgb(0.23, 0.69, 0.66)
+  const summary = getTrackRecordSummary(deals)
+  const sortedDeals = [...deals].sort(
+    (a, b) => new Date(b.timeline?.completedAt || 0).getTime() - new Date(a.timeline?.completedAt || 0).getTime(),
+  )
+
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const drawLine = (text: string, size: number, bold = false, color = rgb(0.2, 0.2, 0.2)) => {
+    page.drawText(fitText(text, bold ? boldFont : font, size, PAGE_WIDTH - MARGIN * 2), {
+      x: MARGIN,
+      y,
+      size,
+      font: bold ? boldFont : font,
+      color,
+    })
+    y -= size + 6
+  }
+
+  const drawHeaderRow = () => {
+    let x = MARGIN
+    COLUMNS.forEach((column) => {
+      page.drawText(column.label, { x, y, size: 9, font: boldFont, color: rgb(0.3, 0.3, 0.3) })
+      x += column.width
+    })
+    y -= 6
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    })
+    y -= ROW_HEIGHT - 4
+  }
+
+  drawLine("Track Record", 22, true, teal)
+  drawLine([seller.fullName, seller.companyName].filter(Boolean).join(" - ") || "CIM Amplify seller", 12, true)
+  if (seller.email) drawLine(seller.email, 10)
+  drawLine(`Prepared ${generatedAt.toLocaleDateString("en-US")}`, 9, false, rgb(0.5, 0.5, 0.5))
+  y -= 10
+
+  // Headline figures in four boxes across the page
+  const boxWidth = (PAGE_WIDTH - MARGIN * 2 - 30) / 4
+  const figures = [
+    { label: "Deals closed", value: String(summary.dealsClosed) },
+    { label: "Total transaction value", value: formatAmount(summary.totalTransactionValue, DEFAULT_CURRENCY) },
+    { label: "Average sale price", value: formatAmount(summary.averageSalePrice, DEFAULT_CURRENCY) },
+    {
+      label: "Average days to close",
+      value: summary.averageDaysToClose === null ? "-" : String(summary.averageDaysToClose),
+    },
+  ]
+  figures.forEach((figure, index) => {
+    const x = MARGIN + index * (boxWidth + 10)
+    page.drawRectangle({ x, y: y - 44, width: boxWidth, height: 50, color: rgb(0.94, 0.98, 0.98) })
+    page.drawText(fitText(figure.value, boldFont, 14, boxWidth), { x: x + 8, y: y - 18, size: 14, font: boldFont })
+    page.drawText(fitText(figure.label, font, 8, boxWidth), {
+      x: x + 8,
+      y: y - 34,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    })
+  })
+  y -= 70
+
+  drawHeaderRow()
+  sortedDeals.forEach((deal) => {
+    if (y < MARGIN + ROW_HEIGHT) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+      drawHeaderRow()
+    }
+
+    let x = MARGIN
+    COLUMNS.forEach((column) => {
+      page.drawText(fitText(column.value(deal), font, 9, column.width), {
+        x,
+        y,
+        size: 9,
+        font,
+        color: rgb(0.2, 0.2, 0.2),
+      })
+      x += column.width
+    })
+    y -= ROW_HEIGHT
+  })
+
+  if (deals.length === 0) drawLine("No completed deals yet.", 10)
+
+  return pdfDoc.save()
+}
@@ -0,0 +1,160 @@
+import { convertAmount } from "@/lib/currency"
+import { getDealCurrencies } from "@/lib/deal-form"
+
+export type ValuationMultiple = "evRevenue" | "evEbitda" | "ebitdaMargin" | "priceEarnings"
+
+export type ValuationMultiples = Record<ValuationMultiple, number | null>
+
+export const VALUATION_MULTIPLES: { key: ValuationMultiple; label: string; format: "multiple" | "percent" }[] = [
+  { key: "evRevenue", label: "EV / Revenue", format: "multiple" },
+  { key: "evEbitda", label: "EV / EBITDA", format: "multiple" },
+  { key: "ebitdaMargin", label: "EBITDA margin", format: "percent" },
+  { key: "priceEarnings", label: "P / E", format: "multiple" },
+]
+
+// Multiples the price drives; EBITDA margin is benchmarked too but says nothing about the ask
+const PRICE_MULTIPLES: ValuationMultiple[] = ["evRevenue", "evEbitda", "priceEarnings"]
+
+// An ask this many times above or below the sector median is flagged
+export const OUTLIER_FACTOR = 1.5
+
+// Sectors with fewer completed deals get no benchmark, so a median can't give away one deal's sale price
+export const MIN_BENCHMARK_DEALS = 3
+
+// How long loaded benchmarks are reused, by the route's cache and the browser's copy alike
+export const BENCHMARK_CACHE_MS = 60 * 60 * 1000
+
+// The figures multiples are derived from, all in one currency
+export interface ValuationAmounts {
+  revenue: number
+  ebitda: number
+  netIncome: number
+  price: number
+}
+
+interface ValuationFinancialDetails {
+  trailingRevenueAmount?: number
+  trailingRevenueCurrency?: string
+  trailingEBITDAAmount?: number
+  trailingEBITDACurrency?: string
+  netIncome?: number
+  netIncomeCurrency?: string
+  askingPrice?: number
+  askingPriceCurrency?: string
+  finalSalePrice?: number
+}
+
+// A deal as benchmarks need it, from the API's deal listing
+export interface BenchmarkDeal {
+  status?: string
+  industrySector?: string
+  financialDetails?: ValuationFinancialDetails
+}
+
+export interface SectorBenchmark {
+  sector: string
+  dealCount: number
+  medians: ValuationMultiples
+}
+
+export interface BenchmarkComparison {
+  key: ValuationMultiple
+  value: number | null
+  median: number | null
+  outlier: "high" | "low" | null
+}
+
+// Amounts converted into the revenue currency. The price is the asking price unless another is given, such as
+// a completed deal's final sale price, which is recorded in the asking price's currency.
+export function getValuationAmounts(
+  financialDetails?: ValuationFinancialDetails,
+  price = financialDetails?.askingPrice,
+): ValuationAmounts {
+  const currencies = getDealCurrencies(financialDetails)
+  const toRevenueCurrency = (amount: number | undefined, currency: string) =>
+    convertAmount(amount || 0, currency, currencies.trailingRevenue)
+
+  return {
+    revenue: financialDetails?.trailingRevenueAmount || 0,
+    ebitda: toRevenueCurrency(financialDetails?.trailingEBITDAAmount, currencies.trailingEBITDA),
+    netIncome: toRevenueCurrency(financialDetails?.netIncome, currencies.netIncome),
+    price: toRevenueCurrency(price, currencies.askingPrice),
+  }
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  numerator > 0 && denominator > 0 ? numerator / denominator : null
+
+// Deals carry no net debt figure, so the price stands in for both enterprise and equity value. Multiples over a
+// loss, or over a figure the seller left out, are null.
+export function getValuationMultiples({ revenue, ebitda, netIncome, price }: ValuationAmounts): ValuationMultiples {
+  return {
+    evRevenue: ratio(price, revenue),
+    evEbitda: ratio(price, ebitda),
+    ebitdaMargin: revenue > 0 && ebitda ? ebitda / revenue : null,
+    priceEarnings: ratio(price, netIncome),
+  }
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Median multiples per industry sector, over completed deals with a final sale price
+export function buildSectorBenchmarks(deals: BenchmarkDeal[]): SectorBenchmark[] {
+  const bySector = new Map<string, ValuationMultiples[]>()
+  deals.forEach((deal) => {
+    const salePrice = deal.financialDetails?.finalSalePrice
+    if (deal.status !== "completed" || !deal.industrySector || !salePrice || salePrice <= 0) return
+    const multiples = getValuationMultiples(getValuationAmounts(deal.financialDetails, salePrice))
+    bySector.set(deal.industrySector, [...(bySector.get(deal.industrySector) || []), multiples])
+  })
+
+  return Array.from(bySector.entries())
+    .filter(([, sectorMultiples]) => sectorMultiples.length >= MIN_BENCHMARK_DEALS)
+    .map(([sector, sectorMultiples]) => {
+      const medians = {} as ValuationMultiples
+      VALUATION_MULTIPLES.forEach(({ key }) => {
+        medians[key] = median(sectorMultiples.map((multiples) => multiples[key]).filter((value) => value !== null))
+      })
+      return { sector, dealCount: sectorMultiples.length, medians }
+    })
+    .sort((a, b) => a.sector.localeCompare(b.sector))
+}
+
+export function compareToBenchmark(
+  multiples: ValuationMultiples,
+  benchmark?: SectorBenchmark | null,
+): BenchmarkComparison[] {
+  return VALUATION_MULTIPLES.map(({ key }) => {
+    const value = multiples[key]
+    const sectorMedian = benchmark?.medians[key] ?? null
+    let outlier: BenchmarkComparison["outlier"] = null
+    if (PRICE_MULTIPLES.includes(key) && value !== null && sectorMedian) {
+      if (value > sectorMedian * OUTLIER_FACTOR) outlier = "high"
+      else if (value < sectorMedian / OUTLIER_FACTOR) outlier = "low"
+    }
+    return { key, value, median: sectorMedian, outlier }
+  })
+}
+
+export function formatValuationMultiple(key: ValuationMultiple, value: number | null): string {
+  if (value === null) return "—"
+  const format = VALUATION_MULTIPLES.find((multiple) => multiple.key === key)?.format
+  return format === "percent" ? `${Math.round(value * 100)}%` : `${value.toFixed(1)}x`
+}
+
+// One line per outlier ask, e.g. "EV / EBITDA of 9.8x is well above the Software median of 5.1x"
+export function getOutlierWarnings(comparisons: BenchmarkComparison[], sector: string): string[] {
+  return comparisons
+    .filter((comparison) => comparison.outlier)
+    .map(({ key, value, median: sectorMedian, outlier }) => {
+      const label = VALUATION_MULTIPLES.find((multiple) => multiple.key === key)?.label
+      const dealValue = formatValuationMultiple(key, value)
+      const medianValue = formatValuationMultiple(key, sectorMedian)
+      return `${label} of ${dealValue} is well ${outlier === "high" ? "above" : "below"} the ${sector} median of ${medianValue}`
+    })
+}
@@ -96,6 +96,16 @@ export const submitDeal = async (dealData: any) => {
   }
 }
 
+export const updateDeal = async (dealId: string, dealData: any) => {
+  try {
+    const response = await api.patch(`/deals/${dealId}`, dealData)
+    return response.data
+  } catch (error) {
+    console.error("Deal update error:", error)
+    throw error
+  }
+}
+
 export const getMyDeals = async () => {
   try {
     const response = await api.get("/deals/my-deals")
@@ -191,6 +201,29 @@ export const login = async (credentials: { email: string; password: string }) =>
   }
 }
 
+// Admins sign in against the API like buyers and sellers, so their token works for /notifications
+export const adminLogin = async (credentials: { email: string; password: string }) => {
+  try {
+    const response = await api.post("/auth/admin/login", credentials)
+
+    const { access_token, user } = response.data
+
+    if (access_token) {
+      localStorage.setItem("token", access_token)
+      localStorage.setItem("userRole", "admin")
+    }
+
+    if (user?.id) {
+      localStorage.setItem("userId", user.id)
+    }
+
+    return response.data
+  } catch (error: any) {
+    console.error("Admin login error:", error)
+    throw error
+  }
+}
+
 export const logout = () => {
   localStorage.removeItem("token")
   localStorage.removeItem("userId")
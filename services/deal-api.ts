@@ -1,3 +1,9 @@
+import type { DealStatusSummary } from "@/lib/deal-analytics"
+import type { DealQuestion, InvitationWave, MatchedBuyer, QuestionVisibility } from "@/types/deal"
+import { getTeaserFilename } from "@/lib/deal-documents"
+import type { SectorBenchmark } from "@/lib/valuation"
+import { saveFile } from "@/lib/utils"
+
 interface UpdateDealStatusParams {
   dealId: string
   status: "completed" | "off-market" | "active"
@@ -37,3 +43,410 @@ export async function updateDealStatus({ dealId, status, finalSalePrice }: Updat
 
   return response.json()
 }
+
+// Load one deal as the caller sees it, through the proxy route that drops documents a buyer isn't entitled to
+export async function fetchDeal(dealId: string) {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to load deal")
+  }
+
+  return response.json()
+}
+
+// Send only the changed deal fields through the Next.js PATCH proxy route
+export async function patchDeal(dealId: string, changes: Record<string, any>) {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(changes),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || "Failed to update deal")
+  }
+
+  return response.json()
+}
+
+// Save seller edits and stamp the deal so already-targeted buyers can see what changed
+export async function saveDealEdits(dealId: string, changes: Record<string, any>, changedFields: string[]) {
+  return patchDeal(dealId, {
+    ...changes,
+    lastEditedAt: new Date().toISOString(),
+    lastEditedFields: changedFields,
+  })
+}
+
+// Upload one document to a deal, reporting progress as a percentage
+export function uploadDealDocument(dealId: string, file: File, onProgress?: (percent: number) => void) {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    return Promise.reject(new Error("Authentication required"))
+  }
+
+  const formData = new FormData()
+  formData.append("files", file)
+
+  // XMLHttpRequest rather than fetch, since fetch has no upload progress events
+  return new Promise<any>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", `${apiUrl}/deals/${dealId}/upload-documents`)
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`)
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    }
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        // A malformed body must still settle the promise, or the upload would show as in progress forever
+        try {
+          const result = xhr.responseText ? JSON.parse(xhr.responseText) : null
+          onProgress?.(100)
+          resolve(result)
+        } catch {
+          reject(new Error("Upload failed: unexpected response from the server"))
+        }
+      } else {
+        let message = `Upload failed: ${xhr.statusText || xhr.status}`
+        try {
+          message = JSON.parse(xhr.responseText).message || message
+        } catch {}
+        reject(new Error(message))
+      }
+    }
+
+    xhr.onerror = () => reject(new Error("Network error while uploading"))
+    xhr.send(formData)
+  })
+}
+
+// Download a deal document through the authenticated route handler and save it in the browser
+export async function downloadDealDocument(dealId: string, doc: { filename: string; originalName: string }) {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}/documents/${encodeURIComponent(doc.filename)}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to download document")
+  }
+
+  saveFile(await response.blob(), doc.originalName)
+}
+
+// Update one deal document's settings; the whole documents list is sent since the API stores it as one array
+export async function updateDealDocument(
+  dealId: string,
+  documents: Record<string, any>[],
+  filename: string,
+  changes: Record<string, any>,
+) {
+  const updatedDocuments = documents.map((doc) => (doc.filename === filename ? { ...doc, ...changes } : doc))
+  return patchDeal(dealId, { documents: updatedDocuments })
+}
+
+// Generate the deal's anonymized one-page teaser and save it in the browser
+export async function downloadDealTeaser(dealId: string) {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}/teaser`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to generate teaser")
+  }
+
+  saveFile(await response.blob(), getTeaserFilename(dealId))
+}
+
+// Generate the teaser and add it to the deal as a teaser-tier document; resolves to the updated deal
+export async function attachDealTeaser(dealId: string) {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}/teaser`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to attach teaser")
+  }
+
+  return response.json()
+}
+
+// Record a buyer interaction with a deal for the seller's engagement timeline; failures are only logged
+export async function trackDealInteraction(dealId: string, interaction: "view" | "download", notes?: string) {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) return
+
+  try {
+    await fetch(`${apiUrl}/deal-tracking/${interaction}/${dealId}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ notes }),
+    })
+  } catch (error) {
+    console.error(`Error tracking deal ${interaction}:`, error)
+  }
+}
+
+// Buyer counts per response for one deal
+export async function fetchDealStatusSummary(dealId: string): Promise<DealStatusSummary> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/deals/${dealId}/status-summary`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to load deal status summary")
+  }
+
+  return response.json()
+}
+
+// Buyers the API matched to one deal, each with its per-criterion breakdown
+export async function fetchMatchingBuyers(dealId: string): Promise<MatchedBuyer[]> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/deals/${dealId}/matching-buyers`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to load matching buyers")
+  }
+
+  return response.json()
+}
+
+// Invite buyers to a specific deal; takes buyer user IDs, not company profile IDs. Goes through the route handler so
+// the invited buyers' pages hear about it
+export async function targetBuyers(dealId: string, buyerIds: string[]) {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}/target-buyers`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ buyerIds }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to send invites")
+  }
+
+  return response.json()
+}
+
+// Save a deal's invitation wave plan
+export async function saveInvitationWaves(dealId: string, waves: InvitationWave[]) {
+  return patchDeal(dealId, { invitationWaves: waves })
+}
+
+// Send whichever invitation waves are due; returns the numbers of the waves sent and the updated plan
+export async function dispatchInvitationWaves(
+  dealId: string,
+): Promise<{ sentWaves: number[]; invitationWaves: InvitationWave[] }> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}/invitation-waves`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || "Failed to send invitation waves")
+  }
+
+  return response.json()
+}
+
+// Q&A on a deal, through the proxy route that gives the seller every question and a buyer only what they may see
+export async function fetchDealQuestions(dealId: string): Promise<DealQuestion[]> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/${dealId}/questions`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to load questions")
+  }
+
+  return response.json()
+}
+
+// Ask the seller a question; only active buyers on the deal may ask
+export async function askDealQuestion(dealId: string, question: string): Promise<DealQuestion> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/deals/${dealId}/questions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ question }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || "Failed to send question")
+  }
+
+  return response.json()
+}
+
+// Answer a buyer's question, either privately to the asker or to every active buyer on the deal
+export async function answerDealQuestion(
+  dealId: string,
+  questionId: string,
+  answer: string,
+  visibility: QuestionVisibility,
+): Promise<DealQuestion> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/deals/${dealId}/questions/${questionId}/answer`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ answer, visibility }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || "Failed to send answer")
+  }
+
+  return response.json()
+}
+
+// Median valuation multiples per industry sector, from the app's route handler over completed deals
+export async function fetchSectorBenchmarks(role: "buyer" | "seller"): Promise<SectorBenchmark[]> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/deals/benchmarks?role=${role}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to load valuation benchmarks")
+  }
+
+  return response.json()
+}
@@ -0,0 +1,167 @@
+import type { Conversation, Message, MessageAttachment } from "@/types/message"
+import { saveFile } from "@/lib/utils"
+
+// The caller's conversations, as seller or buyer depending on the token. Goes through the proxy route, which leaves
+// anonymous buyers' names out of what the seller receives.
+export async function fetchConversations(): Promise<Conversation[]> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch("/api/conversations", {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to load conversations")
+  }
+
+  return response.json()
+}
+
+// Open the conversation about a deal, creating it on first use. Sellers name the buyer; buyers talk to the deal's
+// seller. Only buyers who activated the deal can be in a conversation about it.
+export async function startConversation(dealId: string, buyerId?: string): Promise<Conversation> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch("/api/conversations", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ dealId, buyerId }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to start conversation")
+  }
+
+  return response.json()
+}
+
+export async function fetchMessages(conversationId: string): Promise<Message[]> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/conversations/${conversationId}/messages`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to load messages")
+  }
+
+  return response.json()
+}
+
+// Send a message with optional file attachments
+export async function sendMessage(conversationId: string, body: string, files: File[] = []): Promise<Message> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const formData = new FormData()
+  formData.append("body", body)
+  files.forEach((file) => formData.append("attachments", file))
+
+  const response = await fetch(`${apiUrl}/conversations/${conversationId}/messages`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    body: formData,
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || "Failed to send message")
+  }
+
+  return response.json()
+}
+
+// Mark every message from the other side as read, which is what their read receipts show
+export async function markConversationRead(conversationId: string) {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/conversations/${conversationId}/read`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to mark conversation as read")
+  }
+}
+
+// Let the seller see the buyer's name and company in this conversation
+export async function revealBuyerIdentity(conversationId: string): Promise<Conversation> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/conversations/${conversationId}/reveal`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || "Failed to reveal identity")
+  }
+
+  return response.json()
+}
+
+export async function downloadMessageAttachment(conversationId: string, attachment: MessageAttachment) {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(
+    `${apiUrl}/conversations/${conversationId}/attachments/${encodeURIComponent(attachment.filename)}`,
+    { headers: { Authorization: `Bearer ${token}` } },
+  )
+
+  if (!response.ok) {
+    throw new Error("Failed to download attachment")
+  }
+
+  saveFile(await response.blob(), attachment.originalName)
+}
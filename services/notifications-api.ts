@@ -0,0 +1,159 @@
+import type { RenderedDigest } from "@/lib/notification-digest"
+import type { AppNotification, NotificationPreferences } from "@/types/notification"
+
+// The caller's notifications, newest first; the API picks them by the role behind the token
+export async function fetchNotifications(): Promise<AppNotification[]> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/notifications`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to load notifications")
+  }
+
+  return response.json()
+}
+
+export async function markNotificationRead(notificationId: string) {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/notifications/${notificationId}/read`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to mark notification as read")
+  }
+}
+
+export async function markAllNotificationsRead() {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/notifications/read-all`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error("Failed to mark notifications as read")
+  }
+}
+
+// The caller's saved channel and digest settings; null when they have never saved any
+export async function fetchNotificationPreferences(): Promise<Partial<NotificationPreferences> | null> {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/notifications/preferences`, {
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error("Failed to load notification preferences")
+  }
+
+  return response.json()
+}
+
+export async function saveNotificationPreferences(preferences: NotificationPreferences) {
+  const token = localStorage.getItem("token")
+  const apiUrl = localStorage.getItem("apiUrl") || process.env.NEXT_PUBLIC_API_URL || "https://api.cimamplify.com"
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`${apiUrl}/notifications/preferences`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(preferences),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || "Failed to save notification preferences")
+  }
+}
+
+// The digest email as it would be sent now, rendered by the app's route handler
+export async function fetchDigestPreview(role: "buyer" | "seller"): Promise<RenderedDigest> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/notifications/digest?role=${role}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to render digest")
+  }
+
+  return response.json()
+}
+
+// Send the digest to the caller's own email address; resolves to the address it went to
+export async function sendDigest(role: "buyer" | "seller"): Promise<{ to: string; count: number }> {
+  const token = localStorage.getItem("token")
+
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await fetch(`/api/notifications/digest?role=${role}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to send digest")
+  }
+
+  return response.json()
+}
@@ -42,6 +42,8 @@ export interface CompanyProfile {
   capitalEntity: string
   dealsCompletedLast5Years?: number
   averageDealSize?: number
+  // Currency the target ranges and average deal size are entered in
+  selectedCurrency?: string
   preferences: Preferences
   targetCriteria: TargetCriteria
   agreements: Agreements
@@ -5,7 +5,10 @@ export interface DealFinancialDetails {
   trailingEBITDAAmount: number
   avgRevenueGrowth: number
   netIncome: number
+  netIncomeCurrency?: string
   askingPrice: number
+  // Also the currency of the final sale price
+  askingPriceCurrency?: string
   finalSalePrice?: number
 }
 
@@ -27,6 +30,22 @@ export interface DealBuyerFit {
   minTransactionSize: number
 }
 
+// Who may see a deal document: every invited buyer, buyers who accepted the NDA, or hand-picked active buyers
+export type DocumentAccessTier = "teaser" | "nda" | "selected"
+
+export interface DealDocument {
+  filename: string
+  originalName: string
+  path: string
+  size: number
+  mimetype: string
+  uploadedAt: string
+  accessTier?: DocumentAccessTier
+  allowedBuyerIds?: string[]
+  // Stamp PDFs with the downloading buyer's identity
+  watermark?: boolean
+}
+
 export interface Deal {
   id: string
   title: string
@@ -48,3 +67,81 @@ export interface Deal {
   stakePercentage: number
   documents?: string[]
 }
+
+export interface MatchDetails {
+  industryMatch: boolean
+  geographyMatch: boolean
+  revenueMatch: boolean
+  ebitdaMatch: boolean
+  transactionSizeMatch: boolean
+  businessModelMatch: boolean
+  managementMatch: boolean
+  yearsMatch: boolean
+}
+
+// A buyer company returned by /deals/:id/matching-buyers
+export interface MatchedBuyer {
+  _id: string // This is the company profile ID
+  buyerId: string // This is the actual buyer ID we need to send
+  buyerName: string
+  buyerEmail: string
+  companyName: string
+  // Currency the buyer's target ranges are entered in
+  selectedCurrency?: string
+  preferences: {
+    stopSendingDeals: boolean
+    dontShowMyDeals: boolean
+    dontSendDealsToMyCompetitors: boolean
+    allowBuyerLikeDeals: boolean
+  }
+  targetCriteria: {
+    countries: string[]
+    industrySectors: string[]
+    revenueMin?: number
+    revenueMax?: number
+    ebitdaMin?: number
+    ebitdaMax?: number
+    transactionSizeMin?: number
+    transactionSizeMax?: number
+    revenueGrowth?: number
+    minStakePercent?: number
+    minYearsInBusiness?: number
+    preferredBusinessModels: string[]
+    managementTeamPreference: string[]
+    description?: string
+  }
+  totalMatchScore: number
+  matchPercentage: number
+  matchDetails: MatchDetails
+}
+
+// How a later invitation wave decides it is time to go out
+export type InvitationWaveTrigger = "immediate" | "afterDays" | "activeBelow"
+
+// A batch of buyers invited to a deal together
+export interface InvitationWave {
+  number: number
+  buyerIds: string[]
+  trigger: InvitationWaveTrigger
+  // Days after the previous wave went out
+  afterDays?: number
+  // For "activeBelow": once afterDays have passed, only send if fewer than this many buyers are active
+  activeBelow?: number
+  status: "scheduled" | "sent"
+  sentAt?: string
+}
+
+// Who sees a seller's answer: only the buyer who asked, or every active buyer on the deal
+export type QuestionVisibility = "private" | "public"
+
+export interface DealQuestion {
+  _id: string
+  buyerId: string
+  buyerName?: string
+  buyerCompany?: string
+  question: string
+  askedAt: string
+  answer?: string
+  answeredAt?: string
+  visibility?: QuestionVisibility
+}
@@ -0,0 +1,38 @@
+export type MessageSenderRole = "seller" | "buyer"
+
+export interface MessageAttachment {
+  filename: string
+  originalName: string
+  size: number
+  mimetype: string
+}
+
+export interface Message {
+  _id: string
+  conversationId: string
+  senderRole: MessageSenderRole
+  body: string
+  attachments: MessageAttachment[]
+  sentAt: string
+  // Set once the other side has opened the conversation after this message arrived
+  readAt?: string
+}
+
+// One seller and one buyer talking about one deal the buyer activated
+export interface Conversation {
+  _id: string
+  dealId: string
+  dealTitle: string
+  sellerId: string
+  sellerName?: string
+  buyerId: string
+  buyerName?: string
+  buyerCompany?: string
+  // Buyers with dontShowMyDeals set stay anonymous to the seller until they reveal themselves
+  buyerAnonymous?: boolean
+  buyerRevealed?: boolean
+  lastMessage?: string
+  lastMessageAt?: string
+  // Messages from the other side the caller hasn't read
+  unreadCount: number
+}
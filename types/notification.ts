@@ -0,0 +1,33 @@
+export type NotificationType =
+  // Buyers
+  | "deal_invited"
+  | "deal_updated"
+  // Sellers
+  | "buyer_accepted"
+  | "buyer_passed"
+  | "exclusivity_ending"
+  // Admins
+  | "deal_awaiting_review"
+
+export interface AppNotification {
+  _id: string
+  type: NotificationType
+  message: string
+  dealId?: string
+  dealTitle?: string
+  buyerId?: string
+  createdAt: string
+  read: boolean
+}
+
+export type NotificationChannel = "inApp" | "email"
+
+// How often alert emails go out: one per event, or batched into a digest
+export type DigestFrequency = "instant" | "daily" | "weekly"
+
+export interface NotificationPreferences {
+  // Per event type; types missing here use the defaults (every channel on)
+  channels: Partial<Record<NotificationType, Record<NotificationChannel, boolean>>>
+  // Applies to new-deal alerts for buyers and buyer responses for sellers
+  digestFrequency: DigestFrequency
+}